@@ -0,0 +1,148 @@
+import express from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { dbRun, dbGet, nowOffsetSql } from './database.js';
+import { authenticateToken, revokeAllSessions } from './sessions.js';
+import { forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema } from './schemas.js';
+import { validateBody } from './validation.js';
+import { responds, message } from './responses.js';
+import type { Mailer } from './mailer.js';
+
+// Password reset and email verification. Both email a link carrying a single-use,
+// expiring token; only a SHA-256 hash of the token is stored.
+type TokenPurpose = 'password_reset' | 'email_verification';
+
+const TOKEN_TTL: Record<TokenPurpose, string> = {
+  password_reset: '+1 hour',
+  email_verification: '+2 days'
+};
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a token, replacing any earlier unused one for the same purpose
+async function issueToken(userId: number, purpose: TokenPurpose) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await dbRun(
+    'UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+    [userId, purpose]
+  );
+  await dbRun(
+    `INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES (?, ?, ?, ${nowOffsetSql('?')})`,
+    [userId, purpose, hashToken(token), TOKEN_TTL[purpose]]
+  );
+  return token;
+}
+
+// Mark a token used and return its user id, or null if it's unknown, used or expired
+async function consumeToken(token: string, purpose: TokenPurpose): Promise<number | null> {
+  const result = await dbRun(
+    `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [hashToken(token), purpose]
+  );
+  if (result.changes === 0) return null;
+
+  const row = await dbGet('SELECT user_id FROM user_tokens WHERE token_hash = ?', [hashToken(token)]);
+  return row?.user_id ?? null;
+}
+
+async function sendVerificationEmail(mailer: Mailer, user: { id: number; email: string; name: string }) {
+  const token = await issueToken(user.id, 'email_verification');
+  await mailer.send({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: `Hi ${user.name},\n\nConfirm your email address for Animal Impact by opening this link:\n\n${APP_URL}/verify-email?token=${token}\n\nThe link expires in 2 days.`
+  });
+}
+
+async function sendPasswordResetEmail(mailer: Mailer, user: { id: number; email: string; name: string }) {
+  const token = await issueToken(user.id, 'password_reset');
+  await mailer.send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nSomeone asked to reset the password for your Animal Impact account. To choose a new password, open this link:\n\n${APP_URL}/reset-password?token=${token}\n\nThe link expires in 1 hour. If you didn't ask for this, you can ignore this email.`
+  });
+}
+
+// Mount at /api
+function createAccountEmailRouter(mailer: Mailer) {
+  const router = express.Router();
+
+  // Always answers the same way, and before looking anything up, so neither the response
+  // nor its timing shows who has an account. The email is sent afterwards.
+  router.post('/password/forgot', validateBody(forgotPasswordSchema), responds(message), (req: any, res: any) => {
+    const { email } = req.body;
+
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+
+    dbGet('SELECT id, email, name FROM users WHERE email = ?', [email])
+      .then(user => user && sendPasswordResetEmail(mailer, user))
+      .catch(error => console.error('Forgot password email error:', error));
+  });
+
+  // Choosing a new password signs out every existing session
+  router.post('/password/reset', validateBody(resetPasswordSchema), responds(message), async (req: any, res: any) => {
+    try {
+      const { token, password } = req.body;
+
+      const userId = await consumeToken(token, 'password_reset');
+      if (!userId) {
+        return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      await dbRun('UPDATE users SET password = ? WHERE id = ?', [hashedPassword, userId]);
+      await revokeAllSessions(userId);
+
+      res.json({ message: 'Password reset successfully' });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/email/verify', validateBody(verifyEmailSchema), responds(message), async (req: any, res: any) => {
+    try {
+      const { token } = req.body;
+
+      const userId = await consumeToken(token, 'email_verification');
+      if (!userId) {
+        return res.status(400).json({ error: 'This verification link is invalid or has expired' });
+      }
+
+      await dbRun('UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ?', [userId]);
+
+      res.json({ message: 'Email verified successfully' });
+    } catch (error) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Send a fresh verification link to the signed-in user
+  router.post('/email/verify/resend', authenticateToken, responds(message), async (req: any, res: any) => {
+    try {
+      const user = await dbGet('SELECT id, email, name, email_verified_at FROM users WHERE id = ?', [req.user.userId]);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (user.email_verified_at) {
+        return res.status(400).json({ error: 'Email is already verified' });
+      }
+
+      await sendVerificationEmail(mailer, user);
+
+      res.json({ message: 'Verification email sent' });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { issueToken, consumeToken, sendVerificationEmail, sendPasswordResetEmail, createAccountEmailRouter };
+export type { TokenPurpose };
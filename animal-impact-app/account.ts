@@ -0,0 +1,185 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { dbRun, dbGet, dbAll, withTransaction } from './database.js';
+import { checkCurrency } from './exchange-rates.js';
+import { sendVerificationEmail } from './account-emails.js';
+import { revokeAllSessions } from './sessions.js';
+import { USER_ROLES, profileSchema, changePasswordSchema, deleteAccountSchema } from './schemas.js';
+import { sendValidationError, validateBody } from './validation.js';
+import { responds, model, object, string, integer, nullable, enumOf, message } from './responses.js';
+import type { Mailer } from './mailer.js';
+
+// The signed-in user's own account: profile, password and deletion
+const PROFILE_COLUMNS = 'id, email, name, role, display_currency, email_verified_at, created_at';
+
+const accountModel = model('Account', object({
+  id: integer,
+  email: string,
+  name: string,
+  role: enumOf(USER_ROLES),
+  display_currency: string,
+  email_verified_at: nullable(string),
+  created_at: string
+}));
+
+const findProfile = (userId: number) => dbGet(`SELECT ${PROFILE_COLUMNS} FROM users WHERE id = ?`, [userId]);
+
+async function checkPassword(userId: number, password: any) {
+  const user = await dbGet('SELECT password FROM users WHERE id = ?', [userId]);
+  return Boolean(user && typeof password === 'string' && await bcrypt.compare(password, user.password));
+}
+
+// Teams the user owns outlive them: ownership passes to the longest-standing admin
+// (or member, if there are no admins), and teams with nobody else left are deleted
+async function handOverTeams(userId: number) {
+  const owned = await dbAll("SELECT team_id FROM team_memberships WHERE user_id = ? AND role = 'owner'", [userId]);
+
+  for (const { team_id } of owned) {
+    const successor = await dbGet(
+      `SELECT user_id FROM team_memberships WHERE team_id = ? AND user_id != ?
+       ORDER BY CASE role WHEN 'admin' THEN 0 ELSE 1 END, joined_at, user_id LIMIT 1`,
+      [team_id, userId]
+    );
+    if (successor) {
+      await dbRun("UPDATE team_memberships SET role = 'owner' WHERE team_id = ? AND user_id = ?", [team_id, successor.user_id]);
+    } else {
+      await dbRun('DELETE FROM teams WHERE id = ?', [team_id]);
+    }
+  }
+}
+
+// Mount at /api/me behind authenticateToken
+function createAccountRouter(mailer: Mailer) {
+  const router = express.Router();
+
+  router.get('/', responds(object({ data: accountModel })), async (req: any, res: any) => {
+    try {
+      const user = await findProfile(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json({ data: user });
+    } catch (error) {
+      console.error('Get profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Update any of name, email and display_currency. Changing the email takes the current
+  // password, since the new address can reset it; the new email has to be verified again.
+  router.patch('/', validateBody(profileSchema, { partial: true }), responds(object({ message: string, data: accountModel })), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const existing = await findProfile(userId);
+      if (!existing) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const updates: Record<string, any> = {};
+      const { name, email, display_currency, currentPassword } = req.body;
+
+      if (name !== undefined) {
+        updates.name = name;
+      }
+
+      if (email !== undefined && email !== existing.email) {
+        if (!currentPassword) {
+          return sendValidationError(res, { currentPassword: 'Enter your current password to change your email' });
+        }
+        if (!await checkPassword(userId, currentPassword)) {
+          return res.status(403).json({ error: 'Current password is incorrect' });
+        }
+        if (await dbGet('SELECT id FROM users WHERE email = ? AND id != ?', [email, userId])) {
+          return res.status(400).json({ error: 'That email is already in use' });
+        }
+        updates.email = email;
+        updates.email_verified_at = null;
+      }
+
+      if (display_currency !== undefined) {
+        const currencyError = await checkCurrency(display_currency);
+        if (currencyError) {
+          return sendValidationError(res, { display_currency: currencyError });
+        }
+        updates.display_currency = display_currency;
+      }
+
+      if (name === undefined && email === undefined && display_currency === undefined) {
+        return res.status(400).json({ error: 'No valid fields to update' });
+      }
+
+      const columns = Object.keys(updates);
+      if (columns.length > 0) {
+        await dbRun(
+          `UPDATE users SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+          [...Object.values(updates), userId]
+        );
+      }
+
+      const user = await findProfile(userId);
+      if (updates.email) {
+        try {
+          await sendVerificationEmail(mailer, user);
+        } catch (error) {
+          console.error('Verification email error:', error);
+        }
+      }
+
+      res.json({
+        message: 'Profile updated successfully',
+        data: user
+      });
+    } catch (error) {
+      console.error('Update profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Change password; every other session is signed out
+  router.post('/password', validateBody(changePasswordSchema), responds(message), async (req: any, res: any) => {
+    try {
+      const { userId, sessionId } = req.user;
+      const { currentPassword, newPassword } = req.body;
+
+      if (!await checkPassword(userId, currentPassword)) {
+        return res.status(403).json({ error: 'Current password is incorrect' });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      await dbRun('UPDATE users SET password = ? WHERE id = ?', [hashedPassword, userId]);
+      await revokeAllSessions(userId, sessionId);
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete the account and everything recorded in it. Requires the password again.
+  router.delete('/', validateBody(deleteAccountSchema), responds(message), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+
+      if (!await checkPassword(userId, req.body.password)) {
+        return res.status(403).json({ error: 'Password is incorrect' });
+      }
+
+      // Activity records, sessions and other per-user rows go with ON DELETE CASCADE
+      await withTransaction(async () => {
+        await handOverTeams(userId);
+        await dbRun('DELETE FROM users WHERE id = ?', [userId]);
+      });
+
+      res.json({ message: 'Account deleted successfully' });
+    } catch (error) {
+      console.error('Delete account error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { createAccountRouter };
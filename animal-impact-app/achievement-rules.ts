@@ -0,0 +1,61 @@
+import type { UserSummary } from './summary.js';
+
+// Everything the rules can look at, gathered once per evaluation
+interface AchievementContext {
+  // Lifetime dashboard stats, with donations in USD
+  stats: UserSummary['stats'];
+  donationCount: number;
+  // Longest run of consecutive calendar months with at least one donation
+  longestDonationStreak: number;
+}
+
+interface AchievementRule {
+  // Stored with each unlock; never rename one that has shipped
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  // The activity the badge gives away; public profiles show it only with that section
+  section: 'donations' | 'conversions' | 'media' | 'campaigns';
+  unlocked: (context: AchievementContext) => boolean;
+}
+
+// Add new achievements here. Evaluation runs whenever records are created and
+// the backfill command awards them for existing data.
+const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first-donation',
+    name: 'First Donation',
+    description: 'Record your first donation',
+    icon: '💰',
+    section: 'donations',
+    unlocked: ({ donationCount }) => donationCount >= 1
+  },
+  {
+    id: 'donation-streak-12',
+    name: 'Year of Giving',
+    description: 'Donate every month for 12 months in a row',
+    icon: '📅',
+    section: 'donations',
+    unlocked: ({ longestDonationStreak }) => longestDonationStreak >= 12
+  },
+  {
+    id: 'reach-1000',
+    name: 'Amplifier',
+    description: 'Reach 1,000 people with the media you share',
+    icon: '📣',
+    section: 'media',
+    unlocked: ({ stats }) => stats.totalReach >= 1000
+  },
+  {
+    id: 'conversions-5',
+    name: 'Inspiration',
+    description: 'Help 5 people go vegan',
+    icon: '🌱',
+    section: 'conversions',
+    unlocked: ({ stats }) => stats.conversionCount >= 5
+  }
+];
+
+export { ACHIEVEMENT_RULES };
+export type { AchievementContext, AchievementRule };
@@ -0,0 +1,142 @@
+import express from 'express';
+import { dbRun, dbAll, dbGet, monthSql, testConnection } from './database.js';
+import { getUserSummary } from './summary.js';
+import { ACHIEVEMENT_RULES } from './achievement-rules.js';
+import { responds, model, object, arrayOf, string, nullable } from './responses.js';
+import type { AchievementContext, AchievementRule } from './achievement-rules.js';
+
+// Evaluates the rules in achievement-rules.ts and persists unlocks. An unlock is never
+// taken back, even if the records that earned it are later deleted.
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  unlockedAt: string | null;
+}
+
+const achievementModel = model('Achievement', object({
+  id: string,
+  name: string,
+  description: string,
+  icon: string,
+  unlockedAt: nullable(string)
+}));
+
+// Longest run of consecutive months in a sorted list of YYYY-MM strings
+function longestMonthStreak(months: string[]) {
+  let longest = 0;
+  let current = 0;
+  let previous: number | null = null;
+
+  for (const month of months) {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const index = year! * 12 + monthNumber!;
+    current = previous !== null && index === previous + 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = index;
+  }
+  return longest;
+}
+
+async function buildAchievementContext(userId: number): Promise<AchievementContext> {
+  const { stats } = await getUserSummary(userId);
+  const donationCountResult = await dbGet('SELECT COUNT(*) as count FROM donations WHERE user_id = ?', [userId]);
+  const donationMonths = await dbAll(
+    `SELECT DISTINCT ${monthSql('date')} as month FROM donations WHERE user_id = ? ORDER BY month`,
+    [userId]
+  );
+
+  return {
+    stats,
+    donationCount: donationCountResult?.count || 0,
+    longestDonationStreak: longestMonthStreak(donationMonths.map(row => row.month))
+  };
+}
+
+const unlockedIds = async (userId: number) =>
+  new Set((await dbAll('SELECT achievement_id FROM user_achievements WHERE user_id = ?', [userId])).map(row => row.achievement_id as string));
+
+// Award any achievements the user now qualifies for; returns the newly unlocked ones
+async function evaluateAchievements(userId: number) {
+  const unlocked = await unlockedIds(userId);
+  const pending = ACHIEVEMENT_RULES.filter(rule => !unlocked.has(rule.id));
+  if (pending.length === 0) return [];
+
+  const context = await buildAchievementContext(userId);
+  const earned: AchievementRule[] = [];
+  for (const rule of pending) {
+    if (!rule.unlocked(context)) continue;
+
+    const result = await dbRun(
+      'INSERT INTO user_achievements (user_id, achievement_id) VALUES (?, ?) ON CONFLICT DO NOTHING',
+      [userId, rule.id]
+    );
+    if (result.changes > 0) earned.push(rule);
+  }
+  return earned;
+}
+
+// Every achievement, locked or not, in rule order
+async function getAchievements(userId: number): Promise<Achievement[]> {
+  const rows = await dbAll('SELECT achievement_id, unlocked_at FROM user_achievements WHERE user_id = ?', [userId]);
+  const unlockedAt = new Map(rows.map(row => [row.achievement_id as string, row.unlocked_at as string]));
+
+  return ACHIEVEMENT_RULES.map(({ id, name, description, icon }) => ({
+    id,
+    name,
+    description,
+    icon,
+    unlockedAt: unlockedAt.get(id) ?? null
+  }));
+}
+
+// Award achievements for data recorded before they existed (or before this subsystem did)
+async function backfillAchievements() {
+  const users = await dbAll('SELECT id FROM users ORDER BY id');
+  let awarded = 0;
+  for (const user of users) {
+    awarded += (await evaluateAchievements(user.id)).length;
+  }
+  return { users: users.length, awarded };
+}
+
+function createAchievementsRouter() {
+  const router = express.Router();
+
+  router.get('/', responds(object({ data: arrayOf(achievementModel) })), async (req: any, res: any) => {
+    try {
+      res.json({ data: await getAchievements(req.user.userId) });
+    } catch (error) {
+      console.error('Achievements error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+// Backfill if this file is executed directly: bun run achievements.ts
+if (import.meta.main) {
+  testConnection()
+    .then(() => backfillAchievements())
+    .then(({ users, awarded }) => {
+      console.log(`✅ Awarded ${awarded} achievements across ${users} users`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Achievement backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export {
+  achievementModel,
+  longestMonthStreak,
+  evaluateAchievements,
+  getAchievements,
+  backfillAchievements,
+  createAchievementsRouter
+};
+export type { Achievement };
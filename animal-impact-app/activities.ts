@@ -0,0 +1,47 @@
+import { linkDonations } from './organizations.js';
+import { checkCurrency } from './exchange-rates.js';
+import { createSqliteRecordRepository } from './sqlite-repositories.js';
+import { baseResources, createActivityRouter } from './activity-routes.js';
+import type { FieldErrors } from './schemas.js';
+import type { ActivityResource } from './activity-routes.js';
+
+// Activity resources for the main server: the routes in activity-routes.ts over the SQL
+// tables, with donations checked against the known currencies and linked to the catalogue
+
+// Currency problems as a field error, for resources with a currency field
+async function currencyErrors(currency: string): Promise<FieldErrors | null> {
+  const error = await checkCurrency(currency);
+  return error ? { currency: error } : null;
+}
+
+const donationsResource: ActivityResource = {
+  ...baseResources.donations,
+  validate: record => currencyErrors(record.currency),
+  afterSave: linkDonations
+};
+
+const conversionsResource = baseResources.conversions;
+const mediaResource = baseResources.media;
+const campaignsResource = baseResources.campaigns;
+
+// The activity routes over the resource's own table
+const createSqliteActivityRouter = (resource: ActivityResource) =>
+  createActivityRouter(resource, createSqliteRecordRepository(resource.table, resource.dateColumn));
+
+// Resources keyed by their URL segment (/api/donations, /api/conversions, ...)
+const activityResources: Record<string, ActivityResource> = {
+  donations: donationsResource,
+  conversions: conversionsResource,
+  media: mediaResource,
+  campaigns: campaignsResource
+};
+
+export {
+  donationsResource,
+  conversionsResource,
+  mediaResource,
+  campaignsResource,
+  activityResources,
+  currencyErrors,
+  createSqliteActivityRouter
+};
@@ -0,0 +1,33 @@
+// Notifications for records created on a user's behalf, whether through the POST routes,
+// a CSV import or a recurring donation schedule
+interface RecordsCreatedEvent {
+  userId: number;
+  table: string;
+  ids: number[];
+}
+
+type RecordsCreatedListener = (event: RecordsCreatedEvent) => void | Promise<void>;
+
+const listeners: RecordsCreatedListener[] = [];
+
+function onRecordsCreated(listener: RecordsCreatedListener) {
+  listeners.push(listener);
+}
+
+// Listeners run in order and are awaited, so their effects are visible once the
+// request that created the records responds. A failing listener is logged and
+// never fails the request itself.
+async function emitRecordsCreated(event: RecordsCreatedEvent) {
+  if (event.ids.length === 0) return;
+
+  for (const listener of listeners) {
+    try {
+      await listener(event);
+    } catch (error) {
+      console.error(`Records created listener error (${event.table}):`, error);
+    }
+  }
+}
+
+export { onRecordsCreated, emitRecordsCreated };
+export type { RecordsCreatedEvent, RecordsCreatedListener };
@@ -0,0 +1,215 @@
+import express from 'express';
+import { emitRecordsCreated } from './activity-events.js';
+import { donationSchema, conversionSchema, mediaSchema, campaignSchema, defineSchema } from './schemas.js';
+import { sendValidationError, validateBody, validateQuery } from './validation.js';
+import { responds, recordModel, object, string, integer, nullable, message, created, pageOf } from './responses.js';
+import type { Schema, FieldErrors } from './schemas.js';
+import type { JsonSchema } from './responses.js';
+import type { RecordRepository } from './repositories.js';
+
+// The activity CRUD routes over a repository. Nothing here touches the SQL database, so
+// simple-server.ts can serve them from a JSON file; activities.ts adds the main server's
+// currency checks and catalogue linking on top.
+
+// Activity resource definitions shared by the CRUD routes
+interface ActivityResource {
+  table: string;
+  dateColumn: string;
+  singular: string;
+  createdMessage: string;
+  // The request body schema, shared with the React forms
+  fields: Schema;
+  // The stored record, as returned by the routes (a recordModel())
+  record: JsonSchema;
+  // Checks that span several fields or need the database; gets the full record and returns messages by field
+  validate?: (record: Record<string, any>) => FieldErrors | null | Promise<FieldErrors | null>;
+  // Called after records are created or updated
+  afterSave?: (ids: number[]) => Promise<void>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Query string fields for paged lists
+const paginationSchema = defineSchema([
+  { name: 'page', label: 'Page', type: 'integer', defaultValue: 1, min: 1 },
+  { name: 'limit', label: 'Limit', type: 'integer', defaultValue: DEFAULT_PAGE_SIZE, min: 1, max: MAX_PAGE_SIZE }
+]);
+
+// Columns every activity table has besides its fields
+const recordColumns = { id: integer, user_id: integer, created_at: string };
+
+// The activity tables, with only what the routes themselves need
+const baseResources: Record<'donations' | 'conversions' | 'media' | 'campaigns', ActivityResource> = {
+  donations: {
+    table: 'donations',
+    dateColumn: 'date',
+    singular: 'Donation',
+    createdMessage: 'Donation recorded successfully',
+    fields: donationSchema,
+    // Catalogue and schedule links are only kept in the SQL database
+    record: recordModel(
+      'DonationRecord',
+      donationSchema,
+      { ...recordColumns, organization_id: nullable(integer), recurring_donation_id: nullable(integer) },
+      ['organization_id', 'recurring_donation_id']
+    )
+  },
+  conversions: {
+    table: 'vegan_conversions',
+    dateColumn: 'conversion_date',
+    singular: 'Conversion',
+    createdMessage: 'Conversion recorded successfully',
+    fields: conversionSchema,
+    record: recordModel('ConversionRecord', conversionSchema, recordColumns)
+  },
+  media: {
+    table: 'media_shared',
+    dateColumn: 'date',
+    singular: 'Media',
+    createdMessage: 'Media shared recorded successfully',
+    fields: mediaSchema,
+    record: recordModel('MediaRecord', mediaSchema, recordColumns)
+  },
+  campaigns: {
+    table: 'campaigns',
+    dateColumn: 'date',
+    singular: 'Campaign',
+    createdMessage: 'Campaign participation recorded successfully',
+    fields: campaignSchema,
+    record: recordModel('CampaignRecord', campaignSchema, recordColumns)
+  }
+};
+
+function parsePagination({ page, limit }: { page: number; limit: number }) {
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+// Build a router exposing list, read, create, update and delete for one activity table.
+// Mount behind authenticateToken; every query is scoped to req.user.userId. Records are
+// read and written through `repository`, so the routes run on any storage backend.
+function createActivityRouter(resource: ActivityResource, repository: RecordRepository<any>) {
+  const router = express.Router();
+  const { table, dateColumn, singular } = resource;
+  const notFound = `${singular} not found`;
+
+  const findOwned = (id: any, userId: number) => repository.find(Number(id), userId);
+
+  const listQuerySchema = defineSchema([
+    ...paginationSchema,
+    { name: 'sort', label: 'Sort', type: 'enum', defaultValue: dateColumn, options: [...resource.fields.map(field => field.name), 'created_at'] },
+    { name: 'order', label: 'Order', type: 'enum', defaultValue: 'desc', options: ['asc', 'desc'] },
+    { name: 'from', label: 'From', type: 'date', nullable: true },
+    { name: 'to', label: 'To', type: 'date', nullable: true }
+  ]);
+
+  router.get('/', validateQuery(listQuerySchema), responds(pageOf(resource.record)), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const { from, to, sort, order } = req.query;
+      const { page, limit, offset } = parsePagination(req.query);
+
+      const { rows, total } = await repository.list(userId, { from, to, sort, order, limit, offset });
+
+      res.json({
+        data: rows,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      });
+    } catch (error) {
+      console.error(`List ${table} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/:id', responds(object({ data: resource.record })), async (req: any, res: any) => {
+    try {
+      const row = await findOwned(req.params.id, req.user.userId);
+      if (!row) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      res.json({ data: row });
+    } catch (error) {
+      console.error(`Get ${table} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/', validateBody(resource.fields), responds(created), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const record = req.body;
+
+      const recordErrors = await resource.validate?.(record);
+      if (recordErrors) {
+        return sendValidationError(res, recordErrors);
+      }
+
+      const id = await repository.create(userId, record);
+      await resource.afterSave?.([id]);
+      await emitRecordsCreated({ userId, table, ids: [id] });
+
+      res.status(201).json({
+        message: resource.createdMessage,
+        id
+      });
+    } catch (error) {
+      console.error(`Create ${table} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.patch('/:id', validateBody(resource.fields, { partial: true }), responds(object({ message: string, data: resource.record })), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const updates = req.body;
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'No valid fields to update' });
+      }
+
+      const existing = await findOwned(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      const recordErrors = await resource.validate?.({ ...existing, ...updates });
+      if (recordErrors) {
+        return sendValidationError(res, recordErrors);
+      }
+
+      await repository.update(existing.id, userId, updates);
+      await resource.afterSave?.([existing.id]);
+      const updated = await findOwned(existing.id, userId);
+
+      res.json({
+        message: `${singular} updated successfully`,
+        data: updated
+      });
+    } catch (error) {
+      console.error(`Update ${table} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', responds(message), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const existing = await findOwned(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      await repository.delete(existing.id, userId);
+
+      res.json({ message: `${singular} deleted successfully` });
+    } catch (error) {
+      console.error(`Delete ${table} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { baseResources, recordColumns, paginationSchema, parsePagination, createActivityRouter };
+export type { ActivityResource };
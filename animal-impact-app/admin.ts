@@ -0,0 +1,220 @@
+import express from 'express';
+import { dbRun, dbGet, dbAll, nowOffsetSql } from './database.js';
+import { paginationSchema, parsePagination } from './activity-routes.js';
+import { BASE_CURRENCY, convertedAmountSql } from './exchange-rates.js';
+import { getUserSummary } from './summary.js';
+import { revokeAllSessions } from './sessions.js';
+import { USER_ROLES, defineSchema, adminUserUpdateSchema } from './schemas.js';
+import { validateBody, validateQuery } from './validation.js';
+import {
+  responds,
+  model,
+  object,
+  extend,
+  mapOf,
+  string,
+  number,
+  integer,
+  nullable,
+  enumOf,
+  pageOf,
+  userStats
+} from './responses.js';
+
+// Moderation and platform-wide figures. Mount at /api/admin behind
+// authenticateToken and requireRole('admin').
+const userListQuerySchema = defineSchema([
+  ...paginationSchema,
+  { name: 'q', label: 'Search', type: 'text', max: 200 },
+  { name: 'role', label: 'Role', type: 'enum', nullable: true, options: USER_ROLES },
+  { name: 'status', label: 'Status', type: 'enum', nullable: true, options: ['active', 'disabled'] }
+]);
+
+// Each user's most recent session activity stands in for "last seen"
+const ADMIN_USER_COLUMNS = `u.id, u.email, u.name, u.role, u.email_verified_at, u.disabled_at, u.created_at,
+  (SELECT MAX(last_seen_at) FROM sessions WHERE user_id = u.id) as last_seen_at`;
+
+// Record tables counted in the platform stats
+const RECORD_TABLES: Record<string, string> = {
+  donations: 'donations',
+  conversions: 'vegan_conversions',
+  media: 'media_shared',
+  campaigns: 'campaigns',
+  recurringDonations: 'recurring_donations',
+  goals: 'goals',
+  teams: 'teams',
+  publicProfiles: 'public_profiles'
+};
+
+const adminUserModel = model('AdminUser', object({
+  id: integer,
+  email: string,
+  name: string,
+  role: enumOf(USER_ROLES),
+  email_verified_at: nullable(string),
+  disabled_at: nullable(string),
+  created_at: string,
+  last_seen_at: nullable(string)
+}));
+
+// getPlatformStats()
+const platformStatsModel = model('PlatformStats', object({
+  users: object({
+    total: integer,
+    admins: integer,
+    disabled: integer,
+    verified: integer,
+    newLast30Days: integer,
+    activeLast30Days: integer
+  }),
+  // Row counts by RECORD_TABLES key
+  records: mapOf(integer),
+  totalDonations: number,
+  currency: string
+}));
+
+const findAdminUser = (id: any) => dbGet(`SELECT ${ADMIN_USER_COLUMNS} FROM users u WHERE u.id = ?`, [id]);
+
+const countOf = async (sql: string, params: any[] = []) => (await dbGet(sql, params))?.count || 0;
+
+async function getPlatformStats() {
+  const users = {
+    total: await countOf('SELECT COUNT(*) as count FROM users'),
+    admins: await countOf("SELECT COUNT(*) as count FROM users WHERE role = 'admin'"),
+    disabled: await countOf('SELECT COUNT(*) as count FROM users WHERE disabled_at IS NOT NULL'),
+    verified: await countOf('SELECT COUNT(*) as count FROM users WHERE email_verified_at IS NOT NULL'),
+    newLast30Days: await countOf(`SELECT COUNT(*) as count FROM users WHERE created_at >= ${nowOffsetSql("'-30 days'")}`),
+    activeLast30Days: await countOf(
+      `SELECT COUNT(DISTINCT user_id) as count FROM sessions WHERE last_seen_at >= ${nowOffsetSql("'-30 days'")}`
+    )
+  };
+
+  const records: Record<string, number> = {};
+  for (const [key, table] of Object.entries(RECORD_TABLES)) {
+    records[key] = await countOf(`SELECT COUNT(*) as count FROM ${table}`);
+  }
+
+  const donationsResult = await dbGet(
+    `SELECT COALESCE(SUM(${convertedAmountSql(BASE_CURRENCY)}), 0) as total FROM donations`
+  );
+
+  return {
+    users,
+    records,
+    totalDonations: donationsResult?.total || 0,
+    currency: BASE_CURRENCY
+  };
+}
+
+function createAdminRouter() {
+  const router = express.Router();
+
+  router.get('/stats', responds(object({ data: platformStatsModel })), async (req: any, res: any) => {
+    try {
+      res.json({ data: await getPlatformStats() });
+    } catch (error) {
+      console.error('Admin stats error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Search by name or email (?q=), filter by ?role= and ?status=active|disabled
+  router.get('/users', validateQuery(userListQuerySchema), responds(pageOf(adminUserModel)), async (req: any, res: any) => {
+    try {
+      const { page, limit, offset } = parsePagination(req.query);
+      const { q, role, status } = req.query;
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (q) {
+        // LIKE is case-sensitive in PostgreSQL, so compare lowercased. % and _ in the
+        // search are escaped so they match themselves.
+        const pattern = `%${q.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+        conditions.push("(lower(u.email) LIKE ? ESCAPE '\\' OR lower(u.name) LIKE ? ESCAPE '\\')");
+        params.push(pattern, pattern);
+      }
+      if (role) {
+        conditions.push('u.role = ?');
+        params.push(role);
+      }
+      if (status === 'active') {
+        conditions.push('u.disabled_at IS NULL');
+      } else if (status === 'disabled') {
+        conditions.push('u.disabled_at IS NOT NULL');
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const total = await countOf(`SELECT COUNT(*) as count FROM users u ${where}`, params);
+      const users = await dbAll(
+        `SELECT ${ADMIN_USER_COLUMNS} FROM users u ${where} ORDER BY u.created_at DESC, u.id DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      res.json({
+        data: users,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      });
+    } catch (error) {
+      console.error('Admin list users error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/users/:id', responds(object({ data: extend(adminUserModel, { stats: userStats }) })), async (req: any, res: any) => {
+    try {
+      const user = await findAdminUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const { stats } = await getUserSummary(user.id);
+      res.json({ data: { ...user, stats } });
+    } catch (error) {
+      console.error('Admin get user error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Change a user's role and/or disable them. Disabling signs them out everywhere;
+  // admins can't demote or disable themselves, so there's always someone left to undo it.
+  router.patch('/users/:id', validateBody(adminUserUpdateSchema, { partial: true }), responds(object({ message: string, data: adminUserModel })), async (req: any, res: any) => {
+    try {
+      const user = await findAdminUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const { role, disabled } = req.body;
+      if (role === undefined && disabled === undefined) {
+        return res.status(400).json({ error: 'No valid fields to update' });
+      }
+
+      const isSelf = user.id === req.user.userId;
+      if (isSelf && ((role !== undefined && role !== 'admin') || disabled === true)) {
+        return res.status(400).json({ error: "You can't remove your own admin access" });
+      }
+
+      if (role !== undefined) {
+        await dbRun('UPDATE users SET role = ? WHERE id = ?', [role, user.id]);
+      }
+      if (disabled === true && !user.disabled_at) {
+        await dbRun('UPDATE users SET disabled_at = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
+        await revokeAllSessions(user.id);
+      } else if (disabled === false) {
+        await dbRun('UPDATE users SET disabled_at = NULL WHERE id = ?', [user.id]);
+      }
+
+      res.json({
+        message: 'User updated successfully',
+        data: await findAdminUser(user.id)
+      });
+    } catch (error) {
+      console.error('Admin update user error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { getPlatformStats, createAdminRouter };
@@ -0,0 +1,174 @@
+import express from 'express';
+import { dialect, dbGet, dbAll } from './database.js';
+import { BASE_CURRENCY, convertedAmountSql } from './exchange-rates.js';
+import { defineSchema } from './schemas.js';
+import { sendValidationError, validateQuery } from './validation.js';
+import { responds, model, object, arrayOf, string, number, enumOf } from './responses.js';
+
+// Time-series analytics over the activity tables
+interface MetricDefinition {
+  table: string;
+  dateColumn: string;
+  // SQL aggregate producing the bucket value; money is converted into the given currency
+  aggregate: (currency: string) => string;
+}
+
+// Intervals are also date_trunc units in PostgreSQL, where step and defaultSpan are
+// read as interval literals
+interface IntervalDefinition {
+  // SQLite date modifiers that move a date to the start of its bucket
+  truncate: string;
+  // SQLite date modifier that advances one bucket
+  step: string;
+  // SQLite date modifier giving the default start when `from` is omitted
+  defaultSpan: string;
+}
+
+const METRICS: Record<string, MetricDefinition> = {
+  donations: { table: 'donations', dateColumn: 'date', aggregate: currency => `SUM(${convertedAmountSql(currency)})` },
+  conversions: { table: 'vegan_conversions', dateColumn: 'conversion_date', aggregate: () => 'COUNT(*)' },
+  reach: { table: 'media_shared', dateColumn: 'date', aggregate: () => 'SUM(reach_estimate)' },
+  campaigns: { table: 'campaigns', dateColumn: 'date', aggregate: () => 'COUNT(*)' }
+};
+
+const INTERVALS: Record<string, IntervalDefinition> = {
+  // Weeks start on Monday
+  week: { truncate: "'weekday 0', '-6 days'", step: '+7 days', defaultSpan: '-84 days' },
+  month: { truncate: "'start of month'", step: '+1 month', defaultSpan: '-11 months' },
+  year: { truncate: "'start of year'", step: '+1 year', defaultSpan: '-4 years' }
+};
+
+const timeseriesModel = model('Timeseries', object({
+  metric: enumOf(Object.keys(METRICS)),
+  interval: enumOf(Object.keys(INTERVALS)),
+  from: string,
+  to: string,
+  // Only for donations
+  currency: string,
+  buckets: arrayOf(object({ period: string, value: number }))
+}, ['currency']));
+
+// Guards against accidentally generating huge bucket ranges; longer ranges are rejected
+const MAX_BUCKETS = 520;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many buckets getTimeseries() returns for a range, truncating dates the same way
+function bucketCount(interval: string, from: string, to: string) {
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  const years = end.getUTCFullYear() - start.getUTCFullYear();
+  if (interval === 'year') return years + 1;
+  if (interval === 'month') return years * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+
+  // Weeks start on Monday
+  const weekStart = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  return Math.round((weekStart(end) - weekStart(start)) / (7 * DAY_MS)) + 1;
+}
+
+// Zero-filled buckets for one metric, computed entirely in SQL
+async function getTimeseries(
+  userId: number,
+  metric: string,
+  interval: string,
+  from: string,
+  to: string,
+  currency = BASE_CURRENCY
+) {
+  const { table, dateColumn, aggregate } = METRICS[metric]!;
+  const { truncate, step } = INTERVALS[interval]!;
+
+  if (dialect === 'postgres') {
+    const rows = await dbAll(
+      `WITH buckets AS (
+         SELECT CAST(period AS DATE) as period
+         FROM generate_series(
+           date_trunc('${interval}', CAST(? AS DATE)),
+           date_trunc('${interval}', CAST(? AS DATE)),
+           CAST('${step}' AS INTERVAL)
+         ) AS period
+         LIMIT ${MAX_BUCKETS}
+       ),
+       totals AS (
+         SELECT CAST(date_trunc('${interval}', ${dateColumn}) AS DATE) as period, ${aggregate(currency)} as value
+         FROM ${table}
+         WHERE user_id = ? AND ${dateColumn} BETWEEN ? AND ?
+         GROUP BY 1
+       )
+       SELECT buckets.period, COALESCE(totals.value, 0) as value
+       FROM buckets LEFT JOIN totals ON totals.period = buckets.period
+       ORDER BY buckets.period`,
+      [from, to, userId, from, to]
+    );
+    return rows as { period: string; value: number }[];
+  }
+
+  const rows = await dbAll(
+    `WITH RECURSIVE buckets(period) AS (
+       SELECT date(?, ${truncate})
+       UNION ALL
+       SELECT date(period, '${step}') FROM buckets
+       WHERE date(period, '${step}') <= date(?, ${truncate})
+       LIMIT ${MAX_BUCKETS}
+     ),
+     totals AS (
+       SELECT date(${dateColumn}, ${truncate}) as period, ${aggregate(currency)} as value
+       FROM ${table}
+       WHERE user_id = ? AND ${dateColumn} BETWEEN ? AND ?
+       GROUP BY 1
+     )
+     SELECT buckets.period, COALESCE(totals.value, 0) as value
+     FROM buckets LEFT JOIN totals ON totals.period = buckets.period
+     ORDER BY buckets.period`,
+    [from, to, userId, from, to]
+  );
+
+  return rows as { period: string; value: number }[];
+}
+
+const timeseriesQuerySchema = defineSchema([
+  { name: 'metric', label: 'Metric', type: 'enum', required: true, options: Object.keys(METRICS) },
+  { name: 'interval', label: 'Interval', type: 'enum', defaultValue: 'month', options: Object.keys(INTERVALS) },
+  { name: 'from', label: 'From', type: 'date', nullable: true },
+  { name: 'to', label: 'To', type: 'date', nullable: true }
+]);
+
+function createAnalyticsRouter() {
+  const router = express.Router();
+
+  router.get('/timeseries', validateQuery(timeseriesQuerySchema), responds(timeseriesModel), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const { metric, interval } = req.query;
+
+      const to = req.query.to || new Date().toISOString().split('T')[0];
+
+      const defaultStartSql = dialect === 'postgres'
+        ? 'SELECT CAST(CAST(? AS DATE) + CAST(? AS INTERVAL) AS DATE) as start'
+        : 'SELECT date(?, ?) as start';
+      const from = req.query.from
+        || (await dbGet(defaultStartSql, [to, INTERVALS[interval]!.defaultSpan])).start;
+      if (from > to) {
+        return sendValidationError(res, { from: 'From must be on or before to' });
+      }
+      if (bucketCount(interval, from, to) > MAX_BUCKETS) {
+        return sendValidationError(res, {
+          interval: `The range spans more than ${MAX_BUCKETS} ${interval}s; pick a coarser interval or a shorter range`
+        });
+      }
+
+      const user = await dbGet('SELECT display_currency FROM users WHERE id = ?', [userId]);
+      const currency = user?.display_currency || BASE_CURRENCY;
+      const buckets = await getTimeseries(userId, metric, interval, from, to, currency);
+
+      res.json({ metric, interval, from, to, ...(metric === 'donations' && { currency }), buckets });
+    } catch (error) {
+      console.error('Timeseries error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { METRICS, INTERVALS, getTimeseries, createAnalyticsRouter };
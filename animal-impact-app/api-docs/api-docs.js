@@ -0,0 +1,176 @@
+// Docs page for /api/openapi.json: lists the operations by tag with their parameters and
+// request bodies, and sends requests from the browser. No dependencies, so it works offline.
+
+const tokenInput = document.getElementById('token');
+const apiKeyInput = document.getElementById('api-key');
+const container = document.getElementById('operations');
+
+// Reuse the app's session when the docs are served from the same origin
+tokenInput.value = localStorage.getItem('token') || '';
+
+function element(tag, attributes = {}, children = []) {
+  const node = document.createElement(tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name === 'text') node.textContent = value;
+    else node.setAttribute(name, value);
+  }
+  for (const child of children) node.append(child);
+  return node;
+}
+
+const resolve = (document, schema) =>
+  schema.$ref ? document.components.schemas[schema.$ref.split('/').pop()] : schema;
+
+function describeType(schema) {
+  if (schema.enum) return schema.enum.join(' | ');
+  if (schema.type === 'array') return `${describeType(schema.items)}[]`;
+  const type = schema.format ? `${schema.type} (${schema.format})` : schema.type;
+  return schema.nullable ? `${type}, nullable` : type;
+}
+
+function describeLimits(schema) {
+  const limits = [];
+  if (schema.default !== undefined) limits.push(`default ${JSON.stringify(schema.default)}`);
+  if (schema.minimum !== undefined) limits.push(`min ${schema.minimum}`);
+  if (schema.maximum !== undefined) limits.push(`max ${schema.maximum}`);
+  if (schema.minLength !== undefined) limits.push(`at least ${schema.minLength} characters`);
+  if (schema.maxLength !== undefined) limits.push(`at most ${schema.maxLength} characters`);
+  if (schema.pattern) limits.push(`matches ${schema.pattern}`);
+  return limits.join(', ');
+}
+
+function fieldsTable(rows) {
+  return element('table', {}, [
+    element('tr', {}, ['Name', 'Type', 'Notes'].map(heading => element('th', { text: heading }))),
+    ...rows.map(({ name, schema, required }) =>
+      element('tr', {}, [
+        element('td', {}, [name, required ? element('span', { class: 'required', text: ' *' }) : '']),
+        element('td', { text: describeType(schema) }),
+        element('td', { text: [schema.description, describeLimits(schema)].filter(Boolean).join(' — ') })
+      ])
+    )
+  ]);
+}
+
+// An example body with the required fields and any defaults filled in
+function exampleBody(schema) {
+  const required = new Set(schema.required || []);
+  const example = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (property.default !== undefined) example[name] = property.default;
+    else if (required.has(name)) {
+      example[name] = property.enum ? property.enum[0]
+        : property.type === 'array' ? []
+        : property.type === 'number' || property.type === 'integer' ? 0
+        : property.type === 'boolean' ? false
+        : property.format === 'date' ? new Date().toISOString().slice(0, 10)
+        : '';
+    }
+  }
+  return JSON.stringify(example, null, 2);
+}
+
+function tryItOut(document, method, path, operation) {
+  const parameters = operation.parameters || [];
+  const inputs = parameters.map(parameter => [parameter, element('input', { placeholder: parameter.name })]);
+  const bodySchema = operation.requestBody && resolve(document, operation.requestBody.content['application/json'].schema);
+  const body = bodySchema && element('textarea', {}, [exampleBody(bodySchema)]);
+  const output = element('pre', { hidden: '' });
+  const send = element('button', { text: 'Send request' });
+
+  send.addEventListener('click', async () => {
+    let url = path;
+    const query = new URLSearchParams();
+    for (const [parameter, input] of inputs) {
+      if (parameter.in === 'path') url = url.replace(`{${parameter.name}}`, encodeURIComponent(input.value));
+      else if (input.value !== '') query.set(parameter.name, input.value);
+    }
+
+    const headers = {};
+    if (apiKeyInput.value) headers['X-API-Key'] = apiKeyInput.value.trim();
+    else if (tokenInput.value) headers.Authorization = `Bearer ${tokenInput.value.trim()}`;
+    if (body) headers['Content-Type'] = 'application/json';
+
+    output.hidden = false;
+    output.textContent = 'Sending…';
+    try {
+      const response = await fetch(`${document.servers[0].url}${url}${query.size ? `?${query}` : ''}`, {
+        method: method.toUpperCase(),
+        headers,
+        body: body ? body.value : undefined
+      });
+      const type = response.headers.get('Content-Type') || '';
+      const text = type.includes('json')
+        ? JSON.stringify(await response.json(), null, 2)
+        : type.startsWith('text/') ? await response.text() : `(${type || 'binary'} response)`;
+      output.textContent = `${response.status} ${response.statusText}\n\n${text}`;
+    } catch (error) {
+      output.textContent = `Request failed: ${error.message}`;
+    }
+  });
+
+  return element('div', {}, [
+    element('h3', { text: 'Try it' }),
+    ...inputs.map(([parameter, input]) => element('label', {}, [`${parameter.name} (${parameter.in})`, input])),
+    body || '',
+    element('p', {}, [send]),
+    output
+  ]);
+}
+
+function renderOperation(document, method, path, operation) {
+  const parameters = operation.parameters || [];
+  const bodySchema = operation.requestBody && resolve(document, operation.requestBody.content['application/json'].schema);
+  const schemes = operation.security.map(requirement => Object.keys(requirement)[0]);
+  const access = schemes.includes('apiKeyAuth') ? 'token or API key' : schemes.length ? 'token required' : 'public';
+  const notes = [access, operation.description].filter(Boolean);
+
+  return element('details', {}, [
+    element('summary', {}, [
+      element('span', { class: `method ${method}`, text: method.toUpperCase() }),
+      element('span', { class: 'path', text: path }),
+      element('span', { class: 'note', text: notes.join(' · ') })
+    ]),
+    element('div', { class: 'operation' }, [
+      ...(parameters.length
+        ? [element('h3', { text: 'Parameters' }), fieldsTable(parameters.map(parameter => ({ ...parameter, name: `${parameter.name} (${parameter.in})` })))]
+        : []),
+      ...(bodySchema
+        ? [
+            element('h3', { text: 'Request body (JSON)' }),
+            fieldsTable(Object.entries(bodySchema.properties).map(([name, schema]) => ({
+              name,
+              schema,
+              required: (bodySchema.required || []).includes(name)
+            })))
+          ]
+        : []),
+      element('h3', { text: 'Responses' }),
+      element('p', { text: Object.entries(operation.responses).map(([status, response]) =>
+        `${status} ${response.description || response.$ref.split('/').pop()}`).join(' · ') }),
+      tryItOut(document, method, path, operation)
+    ])
+  ]);
+}
+
+async function load() {
+  try {
+    const response = await fetch('../openapi.json');
+    const document = await response.json();
+
+    const byTag = new Map();
+    for (const [path, methods] of Object.entries(document.paths)) {
+      for (const [method, operation] of Object.entries(methods)) {
+        const tag = operation.tags[0];
+        if (!byTag.has(tag)) byTag.set(tag, []);
+        byTag.get(tag).push(renderOperation(document, method, path, operation));
+      }
+    }
+
+    container.replaceChildren(...[...byTag].flatMap(([tag, operations]) => [element('h2', { text: tag }), ...operations]));
+  } catch (error) {
+    container.replaceChildren(element('p', { class: 'error', text: `Could not load the API document: ${error.message}` }));
+  }
+}
+
+load();
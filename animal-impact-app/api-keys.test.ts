@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import bcrypt from 'bcryptjs';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+
+// API keys through the server's own routes: scope enforcement, the endpoints keys never
+// reach, and revocation. Runs against a scratch SQLite database, set before database.ts
+// is first loaded.
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'animal-impact-api-keys-'));
+process.env.DATABASE_FILE = path.join(scratchDir, 'test.db');
+process.env.DATABASE_URL = '';
+
+const { migrate } = await import('./migrate.js');
+const { dbRun } = await import('./database.js');
+const { app } = await import('./server.js');
+
+const email = 'keys@example.com';
+const password = 'correct horse battery';
+
+let server: Server;
+let baseUrl: string;
+let token: string;
+
+const request = async (method: string, url: string, { body, auth }: { body?: any; auth?: Record<string, string> } = {}) => {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...auth },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const withKey = (key: string) => ({ 'X-API-Key': key });
+
+const createKey = async (scopes: string[]) => {
+  const { status, body } = await request('POST', '/me/api-keys', {
+    body: { name: scopes.join(' '), scopes },
+    auth: { Authorization: `Bearer ${token}` }
+  });
+  expect(status).toBe(201);
+  return body as { id: number; key: string };
+};
+
+const donation = { organization: 'Animal Sanctuary Fund', amount: 25, currency: 'USD', date: '2025-03-01' };
+
+beforeAll(async () => {
+  await migrate();
+  // An admin, so admin routes are refused because of the key rather than the role
+  await dbRun(
+    "INSERT INTO users (email, name, password, role) VALUES (?, ?, ?, 'admin')",
+    [email, 'Key User', await bcrypt.hash(password, 10)]
+  );
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://localhost:${(server.address() as any).port}/api`;
+
+  token = (await request('POST', '/login', { body: { email, password } })).body.token;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+describe('scopes', () => {
+  test('a read scope reads but cannot write', async () => {
+    const { key } = await createKey(['donations:read']);
+
+    expect((await request('GET', '/donations', { auth: withKey(key) })).status).toBe(200);
+
+    const { status, body } = await request('POST', '/donations', { body: donation, auth: withKey(key) });
+    expect(status).toBe(403);
+    expect(body.error).toContain('donations:write');
+  });
+
+  test('a write scope reads and writes its resource only', async () => {
+    const { key } = await createKey(['donations:write']);
+
+    expect((await request('POST', '/donations', { body: donation, auth: withKey(key) })).status).toBe(201);
+    expect((await request('GET', '/donations', { auth: withKey(key) })).status).toBe(200);
+    expect((await request('GET', '/conversions', { auth: withKey(key) })).status).toBe(403);
+  });
+});
+
+describe('endpoints keys never reach', () => {
+  let key: string;
+
+  beforeAll(async () => {
+    key = (await createKey(['write'])).key;
+  });
+
+  test.each([
+    ['GET', '/me'],
+    ['PATCH', '/me'],
+    ['GET', '/me/api-keys'],
+    ['GET', '/sessions'],
+    ['GET', '/admin/stats'],
+    ['GET', '/admin/users']
+  ])('%s %s', async (method, url) => {
+    const body = method === 'PATCH' ? { name: 'Renamed' } : undefined;
+    expect((await request(method, url, { body, auth: withKey(key) })).status).toBe(403);
+  });
+});
+
+describe('revocation', () => {
+  test('a revoked key gets 401', async () => {
+    const { id, key } = await createKey(['read']);
+    expect((await request('GET', '/donations', { auth: withKey(key) })).status).toBe(200);
+
+    const revoked = await request('DELETE', `/me/api-keys/${id}`, { auth: { Authorization: `Bearer ${token}` } });
+    expect(revoked.status).toBe(200);
+
+    expect((await request('GET', '/donations', { auth: withKey(key) })).status).toBe(401);
+  });
+
+  test('an unknown key gets 401', async () => {
+    expect((await request('GET', '/donations', { auth: withKey('aik_not-a-real-key') })).status).toBe(401);
+  });
+});
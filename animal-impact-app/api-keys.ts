@@ -0,0 +1,191 @@
+import express from 'express';
+import crypto from 'crypto';
+import rateLimit from 'express-rate-limit';
+import { dbRun, dbGet, dbAll, nowOffsetSql } from './database.js';
+import { API_KEY_RESOURCES, apiKeySchema } from './schemas.js';
+import { validateBody } from './validation.js';
+import { responds, model, object, arrayOf, string, integer, nullable, message } from './responses.js';
+
+// Personal API keys for scripts and integrations, sent as an X-API-Key header in place
+// of a bearer token. A key is shown once when it's created and stored as a SHA-256 hash.
+// Its scopes limit it to reading or writing some or all of API_KEY_RESOURCES; account,
+// session and admin endpoints never accept keys, so a leaked key can't lock its owner out.
+const KEY_PREFIX = 'aik_';
+const MAX_KEYS_PER_USER = 20;
+
+// Requests allowed per key in each 15 minute window; key requests skip the per-IP limit
+const API_KEY_RATE_LIMIT = Number(process.env.API_KEY_RATE_LIMIT) || 1000;
+
+// Unknown or revoked keys allowed per IP in each 15 minute window. Key requests skip the
+// per-IP limit, so this is what stops a client guessing keys.
+const FAILED_API_KEY_LIMIT = 20;
+
+// last_used_at is only written when it's older than this, as for sessions
+const LAST_USED_RESOLUTION = '-1 minute';
+
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+}
+
+const apiKeyModel = model('ApiKeyInfo', object({
+  id: integer,
+  name: string,
+  prefix: string,
+  scopes: arrayOf(string),
+  created_at: string,
+  last_used_at: nullable(string),
+  last_used_ip: nullable(string)
+}));
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const generateKey = () => KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+const parseKey = ({ scopes, ...key }: any): ApiKey => ({ ...key, scopes: JSON.parse(scopes) });
+
+// The API_KEY_RESOURCES entry a request is for, e.g. "donations" for /api/donations/12
+function requestResource(req: any): string | null {
+  const segment = req.originalUrl.split('?')[0].match(/^\/api\/([^/]+)/)?.[1];
+  return (API_KEY_RESOURCES as readonly string[]).includes(segment) ? segment : null;
+}
+
+// Whether the scopes cover reading or writing a resource; write includes read
+function hasScope(scopes: string[], resource: string, access: 'read' | 'write') {
+  const granted = access === 'read' ? ['read', 'write'] : ['write'];
+  return granted.some(level => scopes.includes(level) || scopes.includes(`${resource}:${level}`));
+}
+
+const apiKeyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: API_KEY_RATE_LIMIT,
+  keyGenerator: (req: any) => `api-key:${req.user.apiKeyId}`
+});
+
+const failedApiKeyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: FAILED_API_KEY_LIMIT,
+  message: { error: 'Too many invalid API key attempts, please try again later' }
+});
+
+// The rest of authenticateToken for X-API-Key requests: a live key on an enabled
+// account whose scopes cover the request. Sets req.user like a session token does,
+// with apiKeyId in place of sessionId.
+async function authenticateApiKey(key: string, req: any, res: any, next: any) {
+  try {
+    const apiKey = await dbGet(
+      `SELECT k.id, k.user_id, k.scopes, u.email, u.role FROM api_keys k JOIN users u ON u.id = k.user_id
+       WHERE k.key_hash = ? AND k.revoked_at IS NULL AND u.disabled_at IS NULL`,
+      [hashKey(key)]
+    );
+    if (!apiKey) {
+      return failedApiKeyLimiter(req, res, () => res.status(401).json({ error: 'Invalid or revoked API key' }));
+    }
+
+    const resource = requestResource(req);
+    if (!resource) {
+      return res.status(403).json({ error: 'API keys cannot be used for this endpoint' });
+    }
+    const access = ['GET', 'HEAD'].includes(req.method) ? 'read' : 'write';
+    if (!hasScope(JSON.parse(apiKey.scopes), resource, access)) {
+      return res.status(403).json({ error: `This API key lacks the ${resource}:${access} scope` });
+    }
+
+    await dbRun(
+      `UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP, last_used_ip = ?
+       WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ${nowOffsetSql('?')})`,
+      [req.ip || null, apiKey.id, LAST_USED_RESOLUTION]
+    );
+
+    req.user = { userId: apiKey.user_id, email: apiKey.email, role: apiKey.role, apiKeyId: apiKey.id };
+    apiKeyLimiter(req, res, next);
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Create, list and revoke your own keys. Mount at /api/me/api-keys behind authenticateToken.
+function createApiKeysRouter() {
+  const router = express.Router();
+
+  router.get('/', responds(object({ data: arrayOf(apiKeyModel) })), async (req: any, res: any) => {
+    try {
+      const keys = await dbAll(
+        `SELECT id, name, prefix, scopes, created_at, last_used_at, last_used_ip FROM api_keys
+         WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC, id DESC`,
+        [req.user.userId]
+      );
+
+      res.json({ data: keys.map(parseKey) });
+    } catch (error) {
+      console.error('List API keys error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The key itself is only ever in this response
+  router.post('/', validateBody(apiKeySchema), responds(object({
+    message: string,
+    id: integer,
+    key: string,
+    data: object({ id: integer, name: string, prefix: string, scopes: arrayOf(string) })
+  })), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const { name, scopes } = req.body;
+
+      const { count } = await dbGet(
+        'SELECT COUNT(*) as count FROM api_keys WHERE user_id = ? AND revoked_at IS NULL',
+        [userId]
+      );
+      if (Number(count) >= MAX_KEYS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_KEYS_PER_USER} API keys; revoke one first` });
+      }
+
+      const key = generateKey();
+      const prefix = key.slice(0, KEY_PREFIX.length + 6);
+      const result = await dbRun(
+        'INSERT INTO api_keys (user_id, name, prefix, key_hash, scopes) VALUES (?, ?, ?, ?, ?)',
+        [userId, name, prefix, hashKey(key), JSON.stringify(scopes)]
+      );
+
+      res.status(201).json({
+        message: 'API key created. Copy it now; it will not be shown again.',
+        id: result.lastID,
+        key,
+        data: { id: result.lastID, name, prefix, scopes }
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', responds(message), async (req: any, res: any) => {
+    try {
+      const result = await dbRun(
+        'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+        [Number(req.params.id), req.user.userId]
+      );
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      res.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { API_KEY_RATE_LIMIT, requestResource, authenticateApiKey, createApiKeysRouter };
+export type { ApiKey };
@@ -0,0 +1,386 @@
+import express from 'express';
+import sqlite3 from 'sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { dialect, dbPath, backupSqlite } from './database.js';
+import { responds, model, object, arrayOf, string, integer } from './responses.js';
+
+// Snapshots of the SQLite database. Backups are taken with SQLite's online backup API
+// while the server runs, named by when they were taken, and rotated so the newest
+// backup of each recent day, week and month is kept.
+interface Backup {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+const backupModel = model('Backup', object({ name: string, size: integer, createdAt: string }));
+
+const BACKUP_DIR = process.env.BACKUP_DIR || path.join(path.dirname(dbPath), 'backups');
+
+const RETENTION: RetentionPolicy = {
+  daily: parseInt(process.env.BACKUP_KEEP_DAILY || '7'),
+  weekly: parseInt(process.env.BACKUP_KEEP_WEEKLY || '4'),
+  monthly: parseInt(process.env.BACKUP_KEEP_MONTHLY || '12')
+};
+
+// Hours between scheduled backups; 0 turns the schedule off (the default outside production)
+const BACKUP_INTERVAL_HOURS = parseFloat(
+  process.env.BACKUP_INTERVAL_HOURS || (process.env.NODE_ENV === 'production' ? '24' : '0')
+);
+
+// How often the scheduler checks whether a backup is due
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Holds the pid of the server using the database. SQLite only locks the file (or leaves a
+// -journal beside it) while a write is under way, so this is how restore tells it's in use.
+const SERVER_PID_FILE = `${dbPath}.server-pid`;
+
+// backup-YYYYMMDD-HHMMSS.db, in UTC
+const BACKUP_FILE = /^backup-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})\.db$/;
+
+const backupName = (date: Date) =>
+  `backup-${date.toISOString().slice(0, 19).replace(/-|:/g, '').replace('T', '-')}.db`;
+
+function backupDate(name: string) {
+  const [, year, month, day, hours, minutes, seconds] = name.match(BACKUP_FILE)!;
+  return new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`);
+}
+
+// Every backup in BACKUP_DIR, newest first
+function listBackups(): Backup[] {
+  if (!fs.existsSync(BACKUP_DIR)) return [];
+
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(name => BACKUP_FILE.test(name))
+    .sort()
+    .reverse()
+    .map(name => ({
+      name,
+      size: fs.statSync(path.join(BACKUP_DIR, name)).size,
+      createdAt: backupDate(name).toISOString()
+    }));
+}
+
+// Monday of the week a date falls in
+const weekOf = (date: Date) =>
+  new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS).toISOString().slice(0, 10);
+
+// Names of the backups a policy keeps: for each of the most recent days, weeks and
+// months that have backups, the newest backup taken in it
+function backupsToKeep(backups: Backup[], policy: RetentionPolicy = RETENTION) {
+  const periods: [number, (date: Date) => string][] = [
+    [policy.daily, date => date.toISOString().slice(0, 10)],
+    [policy.weekly, weekOf],
+    [policy.monthly, date => date.toISOString().slice(0, 7)]
+  ];
+
+  const keep = new Set<string>();
+  for (const [count, periodOf] of periods) {
+    const seen = new Set<string>();
+    for (const backup of backups) {
+      const period = periodOf(new Date(backup.createdAt));
+      if (seen.has(period)) continue;
+      if (seen.size >= count) break;
+      seen.add(period);
+      keep.add(backup.name);
+    }
+  }
+  return keep;
+}
+
+// Delete backups the retention policy no longer keeps; returns their names
+function pruneBackups(policy: RetentionPolicy = RETENTION) {
+  const backups = listBackups();
+  const keep = backupsToKeep(backups, policy);
+
+  const removed = backups.filter(backup => !keep.has(backup.name)).map(backup => backup.name);
+  for (const name of removed) {
+    fs.unlinkSync(path.join(BACKUP_DIR, name));
+  }
+  return removed;
+}
+
+// A backup already being written, which concurrent requests wait for instead of starting another
+let running: Promise<Backup> | null = null;
+
+async function writeBackup() {
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+
+  const name = backupName(new Date());
+  const file = path.join(BACKUP_DIR, name);
+  // Written under a temporary name so a half-finished backup is never listed
+  const partial = `${file}.partial`;
+  fs.rmSync(partial, { force: true });
+
+  try {
+    await backupSqlite(partial);
+    fs.renameSync(partial, file);
+  } catch (error) {
+    fs.rmSync(partial, { force: true });
+    throw error;
+  }
+
+  return { name, size: fs.statSync(file).size, createdAt: backupDate(name).toISOString() };
+}
+
+// Take a backup now, then apply the retention policy
+async function createBackup() {
+  if (!running) {
+    running = writeBackup().finally(() => {
+      running = null;
+    });
+  }
+  const backup = await running;
+  const removed = pruneBackups();
+  return { backup, removed };
+}
+
+function openReadOnly(file: string) {
+  return new Promise<sqlite3.Database>((resolve, reject) => {
+    const database = new sqlite3.Database(file, sqlite3.OPEN_READONLY, (err) => {
+      if (err) reject(err);
+      else resolve(database);
+    });
+  });
+}
+
+// Problems that make a file unsafe to restore; empty when it checks out
+async function checkBackup(file: string) {
+  const database = await openReadOnly(file);
+  const all = (sql: string) =>
+    new Promise<any[]>((resolve, reject) => {
+      database.all(sql, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+  try {
+    const problems = (await all('PRAGMA integrity_check'))
+      .map(row => row.integrity_check as string)
+      .filter(result => result !== 'ok');
+
+    const foreignKeyViolations = await all('PRAGMA foreign_key_check');
+    if (foreignKeyViolations.length > 0) {
+      problems.push(`${foreignKeyViolations.length} rows break foreign keys`);
+    }
+
+    const migrations = await all("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+    if (migrations.length === 0) {
+      problems.push('No schema_migrations table; this is not an Animal Impact database');
+    }
+    return problems;
+  } catch (error: any) {
+    return [error.message as string];
+  } finally {
+    database.close();
+  }
+}
+
+function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+// The pid of a running server using the database, if any; a file left by a crashed server is ignored
+function runningServerPid() {
+  if (!fs.existsSync(SERVER_PID_FILE)) return null;
+  const pid = parseInt(fs.readFileSync(SERVER_PID_FILE, 'utf8'));
+  return pid && pid !== process.pid && isRunning(pid) ? pid : null;
+}
+
+// Called as the server starts; the file is removed again when the process exits
+function recordServerPid() {
+  if (dialect !== 'sqlite') return;
+
+  fs.writeFileSync(SERVER_PID_FILE, String(process.pid));
+  process.on('exit', () => {
+    if (fs.existsSync(SERVER_PID_FILE) && fs.readFileSync(SERVER_PID_FILE, 'utf8') === String(process.pid)) {
+      fs.rmSync(SERVER_PID_FILE);
+    }
+  });
+}
+
+// The backup to restore for a point in time: the newest one taken at or before it
+function backupAt(time: Date) {
+  return listBackups().find(backup => new Date(backup.createdAt) <= time);
+}
+
+// Replace the database file with a backup. Run with the server stopped; the current
+// file is kept beside it as <file>.before-restore-<timestamp>.
+async function restoreBackup(nameOrFile: string) {
+  const file = fs.existsSync(path.join(BACKUP_DIR, nameOrFile)) ? path.join(BACKUP_DIR, nameOrFile) : nameOrFile;
+  if (!fs.existsSync(file)) {
+    throw new Error(`No backup at ${file}`);
+  }
+  const serverPid = runningServerPid();
+  if (serverPid) {
+    throw new Error(`The server (pid ${serverPid}) is using ${dbPath}; stop it before restoring`);
+  }
+  if (['-journal', '-wal'].some(suffix => fs.existsSync(`${dbPath}${suffix}`))) {
+    throw new Error(`${dbPath} has an open journal; stop the server before restoring`);
+  }
+
+  const problems = await checkBackup(file);
+  if (problems.length > 0) {
+    throw new Error(`Backup ${file} failed its integrity check: ${problems.join('; ')}`);
+  }
+
+  // Copy next to the database first so the swap itself is a rename on one filesystem
+  const incoming = `${dbPath}.restoring`;
+  fs.copyFileSync(file, incoming);
+
+  const previous = fs.existsSync(dbPath)
+    ? `${dbPath}.before-restore-${backupName(new Date()).slice('backup-'.length, -'.db'.length)}`
+    : null;
+  if (previous) fs.renameSync(dbPath, previous);
+  fs.renameSync(incoming, dbPath);
+
+  return { restored: file, previous };
+}
+
+// Check hourly and back up once the newest backup is older than BACKUP_INTERVAL_HOURS
+function startBackupScheduler() {
+  if (dialect !== 'sqlite' || !(BACKUP_INTERVAL_HOURS > 0)) return null;
+
+  const run = async () => {
+    try {
+      const latest = listBackups()[0];
+      if (latest && Date.now() - new Date(latest.createdAt).getTime() < BACKUP_INTERVAL_HOURS * 60 * 60 * 1000) {
+        return;
+      }
+      const { backup, removed } = await createBackup();
+      console.log(`💾 Backed up the database to ${backup.name}${removed.length > 0 ? ` (removed ${removed.length} old backups)` : ''}`);
+    } catch (error) {
+      console.error('Backup scheduler error:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
+// Mount at /api/admin/backups behind authenticateToken and requireRole('admin')
+function createBackupsRouter() {
+  const router = express.Router();
+
+  const requireSqlite = (req: any, res: any, next: any) => {
+    if (dialect !== 'sqlite') {
+      return res.status(400).json({ error: 'Backups are only available for SQLite; back up PostgreSQL with pg_dump' });
+    }
+    next();
+  };
+
+  router.get('/', requireSqlite, responds(object({
+    data: arrayOf(backupModel),
+    retention: object({ daily: integer, weekly: integer, monthly: integer })
+  })), (req: any, res: any) => {
+    try {
+      res.json({ data: listBackups(), retention: RETENTION });
+    } catch (error) {
+      console.error('List backups error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/', requireSqlite, responds(object({
+    message: string,
+    data: backupModel,
+    // Names of the backups the retention policy deleted
+    removed: arrayOf(string)
+  })), async (req: any, res: any) => {
+    try {
+      const { backup, removed } = await createBackup();
+      res.status(201).json({ message: 'Backup created successfully', data: backup, removed });
+    } catch (error) {
+      console.error('Create backup error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+// bun run backups.ts create | list | prune | restore <name or file> | restore --at <time>
+if (import.meta.main) {
+  const [command = 'create', ...args] = process.argv.slice(2);
+
+  const run = async () => {
+    switch (command) {
+      case 'create': {
+        const { backup, removed } = await createBackup();
+        console.log(`✅ Backed up ${dbPath} to ${path.join(BACKUP_DIR, backup.name)} (${backup.size} bytes)`);
+        removed.forEach(name => console.log(`🗑️  Removed ${name}`));
+        break;
+      }
+      case 'list':
+        for (const backup of listBackups()) {
+          console.log(`${backup.createdAt}  ${String(backup.size).padStart(10)}  ${backup.name}`);
+        }
+        break;
+      case 'prune':
+        pruneBackups().forEach(name => console.log(`🗑️  Removed ${name}`));
+        break;
+      case 'restore': {
+        let target = args[0];
+        if (target === '--at') {
+          const time = new Date(args[1] || '');
+          if (isNaN(time.getTime())) {
+            throw new Error('Usage: restore --at <time>, e.g. restore --at 2025-06-01T12:00Z');
+          }
+          target = backupAt(time)?.name;
+          if (!target) {
+            throw new Error(`No backup was taken at or before ${time.toISOString()}`);
+          }
+        }
+        if (!target) {
+          throw new Error('Usage: restore <backup name or file> | restore --at <time>');
+        }
+        const { restored, previous } = await restoreBackup(target);
+        console.log(`✅ Restored ${dbPath} from ${restored}`);
+        if (previous) console.log(`📁 The replaced database was kept as ${previous}`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command} (expected create, list, prune or restore)`);
+    }
+  };
+
+  run()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Backup command failed:', error);
+      process.exit(1);
+    });
+}
+
+export {
+  BACKUP_DIR,
+  RETENTION,
+  listBackups,
+  backupsToKeep,
+  pruneBackups,
+  createBackup,
+  checkBackup,
+  backupAt,
+  restoreBackup,
+  recordServerPid,
+  startBackupScheduler,
+  createBackupsRouter
+};
+export type { Backup, RetentionPolicy };
@@ -0,0 +1,134 @@
+import sqlite3 from 'sqlite3';
+import fs from 'fs';
+import { dialect, dbRun, dbGet, withTransaction, tableColumns, testConnection } from './database.js';
+import { migrate } from './migrate.js';
+
+// One-shot copy of a SQLite database into the PostgreSQL database named by DATABASE_URL.
+// The target is migrated first and must be empty; the source is opened read-only.
+// bun run copy-to-postgres.ts [animal_impact.db]
+
+// Rows per INSERT statement, kept well under PostgreSQL's bind parameter limit
+const BATCH_PARAMETERS = 10000;
+
+function openSource(file: string) {
+  return new Promise<sqlite3.Database>((resolve, reject) => {
+    const source = new sqlite3.Database(file, sqlite3.OPEN_READONLY, (err) => {
+      if (err) reject(err);
+      else resolve(source);
+    });
+  });
+}
+
+const sourceAll = (source: sqlite3.Database, sql: string, params: any[] = []) =>
+  new Promise<any[]>((resolve, reject) => {
+    source.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+
+// Tables in the source, parents before children so foreign keys hold at every insert
+async function sourceTables(source: sqlite3.Database) {
+  const names: string[] = (await sourceAll(
+    source,
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations' ORDER BY name"
+  )).map(row => row.name);
+
+  const parents = new Map<string, string[]>();
+  for (const name of names) {
+    const keys = await sourceAll(source, `PRAGMA foreign_key_list(${name})`);
+    parents.set(name, keys.map(key => key.table).filter(table => table !== name && names.includes(table)));
+  }
+
+  const ordered: string[] = [];
+  const visit = (name: string) => {
+    if (ordered.includes(name)) return;
+    parents.get(name)!.forEach(visit);
+    ordered.push(name);
+  };
+  names.forEach(visit);
+  return ordered;
+}
+
+async function copyTable(source: sqlite3.Database, table: string) {
+  const targetColumns = await tableColumns(table);
+  if (targetColumns.length === 0) {
+    console.log(`⏭️  Skipping ${table}: not in the PostgreSQL schema`);
+    return 0;
+  }
+
+  const sourceColumns = (await sourceAll(source, `PRAGMA table_info(${table})`)).map(column => column.name as string);
+  const columns = sourceColumns.filter(column => targetColumns.includes(column));
+  const rows = await sourceAll(source, `SELECT ${columns.join(', ')} FROM ${table}`);
+
+  const batchSize = Math.max(Math.floor(BATCH_PARAMETERS / columns.length), 1);
+  const placeholders = `(${columns.map(() => '?').join(', ')})`;
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const batch = rows.slice(start, start + batchSize);
+    await dbRun(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${batch.map(() => placeholders).join(', ')}`,
+      batch.flatMap(row => columns.map(column => row[column]))
+    );
+  }
+
+  // Copied rows keep their ids, so move the id sequence past them
+  if (columns.includes('id')) {
+    await dbGet(
+      `SELECT setval(pg_get_serial_sequence('${table}', 'id'), COALESCE((SELECT MAX(id) FROM ${table}), 0) + 1, false)`
+    );
+  }
+  return rows.length;
+}
+
+async function copyToPostgres(file: string) {
+  if (dialect !== 'postgres') {
+    throw new Error('DATABASE_URL must point at the PostgreSQL database to copy into');
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`No SQLite database at ${file}`);
+  }
+
+  await testConnection();
+  await migrate();
+
+  const source = await openSource(file);
+  try {
+    const tables = await sourceTables(source);
+
+    for (const table of tables) {
+      if ((await tableColumns(table)).length === 0) continue;
+      if (await dbGet(`SELECT 1 FROM ${table} LIMIT 1`)) {
+        throw new Error(`Table ${table} already has rows; copy into an empty database`);
+      }
+    }
+
+    const counts: Record<string, number> = {};
+    await withTransaction(async () => {
+      for (const table of tables) {
+        counts[table] = await copyTable(source, table);
+      }
+    });
+    return counts;
+  } finally {
+    source.close();
+  }
+}
+
+if (import.meta.main) {
+  const file = process.argv[2] || 'animal_impact.db';
+
+  copyToPostgres(file)
+    .then((counts) => {
+      for (const [table, count] of Object.entries(counts)) {
+        console.log(`📦 ${table}: ${count} rows`);
+      }
+      console.log(`✅ Copied ${file} into PostgreSQL`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Copy failed:', error);
+      process.exit(1);
+    });
+}
+
+export { copyToPostgres };
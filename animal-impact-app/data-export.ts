@@ -0,0 +1,93 @@
+import express from 'express';
+import JSZip from 'jszip';
+import { dbGet, dbAll, tableColumns } from './database.js';
+import { toCsv } from './csv.js';
+import { getUserSummary } from './summary.js';
+import { defineSchema } from './schemas.js';
+import { validateQuery } from './validation.js';
+import { respondsWithFile } from './responses.js';
+
+// Full export of one user's impact history
+const EXPORT_TABLES = [
+  { table: 'donations', orderBy: 'date' },
+  { table: 'vegan_conversions', orderBy: 'conversion_date' },
+  { table: 'media_shared', orderBy: 'date' },
+  { table: 'campaigns', orderBy: 'date' }
+];
+
+// Columns that only make sense inside this database
+const INTERNAL_COLUMNS = ['user_id'];
+
+async function getExportTables(userId: number) {
+  const tables: Record<string, { columns: string[]; rows: any[] }> = {};
+
+  for (const { table, orderBy } of EXPORT_TABLES) {
+    const columns = (await tableColumns(table)).filter(name => !INTERNAL_COLUMNS.includes(name));
+    const rows = await dbAll(
+      `SELECT ${columns.join(', ')} FROM ${table} WHERE user_id = ? ORDER BY ${orderBy}, id`,
+      [userId]
+    );
+    tables[table] = { columns, rows };
+  }
+
+  return tables;
+}
+
+async function buildJsonExport(userId: number) {
+  const user = await dbGet('SELECT id, email, name, created_at FROM users WHERE id = ?', [userId]);
+  const { stats, impact } = await getUserSummary(userId);
+  const tables = await getExportTables(userId);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    summary: { stats, impact },
+    ...Object.fromEntries(Object.entries(tables).map(([table, { rows }]) => [table, rows]))
+  };
+}
+
+// One CSV file per activity table, zipped
+async function buildCsvExport(userId: number) {
+  const zip = new JSZip();
+  const tables = await getExportTables(userId);
+
+  for (const [table, { columns, rows }] of Object.entries(tables)) {
+    zip.file(`${table}.csv`, toCsv(columns, rows));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+const exportQuerySchema = defineSchema([
+  { name: 'format', label: 'Format', type: 'enum', defaultValue: 'json', options: ['json', 'csv'] }
+]);
+
+function createExportRouter() {
+  const router = express.Router();
+
+  router.get('/', validateQuery(exportQuerySchema), respondsWithFile(['application/json', 'application/zip']), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const { format } = req.query;
+      const filename = `animal-impact-export-${new Date().toISOString().split('T')[0]}`;
+
+      if (format === 'json') {
+        const document = await buildJsonExport(userId);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+        return res.json(document);
+      }
+
+      const archive = await buildCsvExport(userId);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+      res.send(archive);
+    } catch (error) {
+      console.error('Export error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { buildJsonExport, buildCsvExport, createExportRouter };
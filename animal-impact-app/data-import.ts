@@ -0,0 +1,213 @@
+import express from 'express';
+import { dbRun, dbAll, withTransaction } from './database.js';
+import { parseCsv } from './csv.js';
+import { activityResources } from './activities.js';
+import { emitRecordsCreated } from './activity-events.js';
+import { importSchema, validate } from './schemas.js';
+import { validateBody } from './validation.js';
+import { responds, model, object, arrayOf, mapOf, string, integer, boolean, nullable, enumOf } from './responses.js';
+import type { ActivityResource } from './activity-routes.js';
+
+// Bulk CSV import into the activity tables
+const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 20;
+
+const ROW_STATUSES = ['valid', 'invalid', 'duplicate'] as const;
+
+type RowStatus = (typeof ROW_STATUSES)[number];
+
+interface ImportRow {
+  row: number;
+  status: RowStatus;
+  // Raw cell values keyed by field name
+  values: Record<string, string>;
+  record: Record<string, any>;
+  messages: string[];
+}
+
+// importRows()
+const importReportModel = model('ImportReport', object({
+  dryRun: boolean,
+  // CSV header -> field name, or null for ignored columns
+  mapping: mapOf(nullable(string)),
+  missingFields: arrayOf(string),
+  totalRows: integer,
+  validRows: integer,
+  invalidRows: integer,
+  duplicateRows: integer,
+  imported: integer,
+  errors: arrayOf(object({ row: integer, messages: arrayOf(string) })),
+  duplicates: arrayOf(integer),
+  preview: arrayOf(object({ row: integer, status: enumOf(ROW_STATUSES), values: mapOf(string), messages: arrayOf(string) }))
+}));
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Map each CSV header to a field name (or null to ignore the column).
+// Explicit overrides win; otherwise headers are matched on field name, label and aliases.
+function resolveMapping(headers: string[], resource: ActivityResource, overrides: Record<string, string | null> = {}) {
+  const mapping: Record<string, string | null> = {};
+  const taken = new Set<string>();
+  const fieldNames = resource.fields.map(field => field.name);
+
+  for (const header of headers) {
+    if (Object.hasOwn(overrides, header)) {
+      const field = overrides[header];
+      mapping[header] = field && fieldNames.includes(field) && !taken.has(field) ? field : null;
+      if (mapping[header]) taken.add(mapping[header]!);
+    }
+  }
+
+  for (const header of headers) {
+    if (Object.hasOwn(mapping, header)) continue;
+
+    const normalized = normalizeHeader(header);
+    const field = resource.fields.find(candidate =>
+      !taken.has(candidate.name) && (
+        candidate.name === normalized ||
+        normalizeHeader(candidate.label) === normalized ||
+        (candidate.importAliases || []).includes(normalized)
+      )
+    );
+    mapping[header] = field ? field.name : null;
+    if (field) taken.add(field.name);
+  }
+
+  return mapping;
+}
+
+// Rows with the same required values are treated as the same record
+function duplicateKey(resource: ActivityResource, record: Record<string, any>) {
+  return JSON.stringify(
+    resource.fields
+      .filter(field => field.required)
+      .map(field => {
+        const value = record[field.name];
+        return typeof value === 'string' ? value.trim().toLowerCase() : value;
+      })
+  );
+}
+
+// Validate parsed CSV rows (header first) and, unless dry-running, insert the valid ones
+async function importRows(userId: number, resource: ActivityResource, csvRows: string[][], options: {
+  mapping?: Record<string, string | null>;
+  dryRun: boolean;
+}) {
+  const [headers = [], ...dataRows] = csvRows;
+  const mapping = resolveMapping(headers, resource, options.mapping);
+  const mappedFields = Object.values(mapping);
+  const missingFields = resource.fields
+    .filter(field => field.required && !mappedFields.includes(field.name))
+    .map(field => field.label);
+
+  // Existing rows, so re-importing the same spreadsheet doesn't create copies
+  const requiredColumns = resource.fields.filter(field => field.required).map(field => field.name);
+  const existingRows = await dbAll(`SELECT ${requiredColumns.join(', ')} FROM ${resource.table} WHERE user_id = ?`, [userId]);
+  const seen = new Set(existingRows.map(row => duplicateKey(resource, row)));
+
+  const rows: ImportRow[] = [];
+  for (const [index, cells] of dataRows.entries()) {
+    // Row numbers match the spreadsheet: the header is row 1
+    const rowNumber = index + 2;
+    const raw: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      const field = mapping[header];
+      if (field) raw[field] = (cells[column] ?? '').trim();
+    });
+
+    const { value, errors } = validate(resource.fields, raw);
+    const record: Record<string, any> = value || {};
+    const messages = Object.values(errors || (await resource.validate?.(record)) || {});
+
+    let status: RowStatus = messages.length > 0 ? 'invalid' : 'valid';
+    if (status === 'valid') {
+      const key = duplicateKey(resource, record);
+      if (seen.has(key)) {
+        status = 'duplicate';
+      } else {
+        seen.add(key);
+      }
+    }
+
+    rows.push({ row: rowNumber, status, values: raw, record, messages });
+  }
+
+  const validRows = rows.filter(row => row.status === 'valid');
+  let imported = 0;
+
+  if (!options.dryRun && missingFields.length === 0 && validRows.length > 0) {
+    const columns = resource.fields.map(field => field.name);
+    const ids = await withTransaction(async () => {
+      const insertedIds: number[] = [];
+      for (const { record } of validRows) {
+        const result = await dbRun(
+          `INSERT INTO ${resource.table} (user_id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`,
+          [userId, ...columns.map(column => record[column])]
+        );
+        insertedIds.push(result.lastID);
+      }
+      return insertedIds;
+    });
+    await resource.afterSave?.(ids);
+    await emitRecordsCreated({ userId, table: resource.table, ids });
+    imported = ids.length;
+  }
+
+  return {
+    dryRun: options.dryRun,
+    mapping,
+    missingFields,
+    totalRows: rows.length,
+    validRows: validRows.length,
+    invalidRows: rows.filter(row => row.status === 'invalid').length,
+    duplicateRows: rows.filter(row => row.status === 'duplicate').length,
+    imported,
+    errors: rows
+      .filter(row => row.status === 'invalid')
+      .map(({ row, messages }) => ({ row, messages })),
+    duplicates: rows.filter(row => row.status === 'duplicate').map(({ row }) => row),
+    preview: rows.slice(0, PREVIEW_ROWS).map(({ row, status, values, messages }) => ({ row, status, values, messages }))
+  };
+}
+
+function createImportRouter() {
+  const router = express.Router();
+
+  router.post('/:type', validateBody(importSchema), responds(importReportModel), async (req: any, res: any) => {
+    try {
+      const resource = activityResources[req.params.type];
+      if (!resource) {
+        return res.status(404).json({ error: `Import type must be one of: ${Object.keys(activityResources).join(', ')}` });
+      }
+
+      const { csv, mapping, dryRun } = req.body;
+
+      const csvRows = parseCsv(csv);
+      const rowCount = csvRows.length - 1;
+      if (rowCount < 1) {
+        return res.status(400).json({ error: 'CSV must have a header row and at least one data row' });
+      }
+      if (rowCount > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ error: `CSV must have at most ${MAX_IMPORT_ROWS} rows` });
+      }
+
+      const report = await importRows(req.user.userId, resource, csvRows, { mapping: mapping ?? undefined, dryRun });
+
+      if (!report.dryRun && report.missingFields.length > 0) {
+        return res.status(400).json({
+          error: `Required columns are not mapped: ${report.missingFields.join(', ')}`,
+          ...report
+        });
+      }
+
+      res.status(report.imported > 0 ? 201 : 200).json(report);
+    } catch (error) {
+      console.error('Import error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { resolveMapping, importRows, createImportRouter };
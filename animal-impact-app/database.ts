@@ -3,129 +3,220 @@ import bcrypt from 'bcryptjs';
 import dotenv from 'dotenv';
 import fs from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createPostgresDatabase } from './postgres.js';
 
 dotenv.config();
 
-// Create database connection
+// Connection: DATABASE_URL (postgres://...) selects PostgreSQL, otherwise SQLite.
+// Queries are written in SQLite's dialect with ? placeholders; the helpers below cover
+// the few places where the two differ.
+type Dialect = 'sqlite' | 'postgres';
+
+interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+const databaseUrl = process.env.DATABASE_URL || '';
+const dialect: Dialect = /^postgres(ql)?:\/\//.test(databaseUrl) ? 'postgres' : 'sqlite';
+
 const dbPath = process.env.NODE_ENV === 'production' 
   ? (process.env.DATABASE_PATH || '/app/data/animal_impact.db')
-  : 'animal_impact.db';
+  : (process.env.DATABASE_FILE || 'animal_impact.db');
 
-// Ensure directory exists in production
-if (process.env.NODE_ENV === 'production') {
-  const dir = path.dirname(dbPath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+function openSqlite(file: string) {
+  // Ensure directory exists in production
+  if (process.env.NODE_ENV === 'production') {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
   }
+
+  const db = new sqlite3.Database(file);
+
+  // Run statements one at a time in the order they're issued, which withTransaction relies on
+  db.serialize();
+
+  // SQLite leaves foreign keys unenforced unless asked, and ON DELETE CASCADE relies on them
+  db.run('PRAGMA foreign_keys = ON');
+  return db;
 }
 
-const db = new sqlite3.Database(dbPath);
+const postgres = dialect === 'postgres' ? createPostgresDatabase(databaseUrl) : null;
+const sqlite = dialect === 'sqlite' ? openSqlite(dbPath) : null;
+
+// Every request shares the one SQLite connection, so an open transaction has to keep it to
+// itself. Set for the async call chain inside withTransaction; while a transaction is open,
+// statements from anywhere else wait for openTransaction to settle.
+const sqliteTransaction = new AsyncLocalStorage<true>();
+let openTransaction: Promise<void> | null = null;
+
+// Wait out another request's transaction, then issue the statement in the same tick so a
+// new transaction can't begin in between
+async function sqliteStatement<T>(execute: (db: sqlite3.Database) => Promise<T>) {
+  if (!sqliteTransaction.getStore()) {
+    while (openTransaction) await openTransaction;
+  }
+  return execute(sqlite!);
+}
 
 // Promisify database methods for async/await usage
-const dbRun = (sql: string, params: any[] = []) => {
-  return new Promise<sqlite3.RunResult>((resolve, reject) => {
+const dbRun = (sql: string, params: any[] = []): Promise<RunResult> => {
+  if (postgres) return postgres.run(sql, params);
+  return sqliteStatement(db => new Promise<RunResult>((resolve, reject) => {
     db.run(sql, params, function(err) {
       if (err) reject(err);
       else resolve(this);
     });
-  });
+  }));
 };
 
 const dbGet = (sql: string, params: any[] = []) => {
-  return new Promise<any>((resolve, reject) => {
+  if (postgres) return postgres.get(sql, params);
+  return sqliteStatement(db => new Promise<any>((resolve, reject) => {
     db.get(sql, params, (err, row) => {
       if (err) reject(err);
       else resolve(row);
     });
-  });
+  }));
 };
 
 const dbAll = (sql: string, params: any[] = []) => {
-  return new Promise<any[]>((resolve, reject) => {
+  if (postgres) return postgres.all(sql, params);
+  return sqliteStatement(db => new Promise<any[]>((resolve, reject) => {
     db.all(sql, params, (err, rows) => {
       if (err) reject(err);
       else resolve(rows);
     });
-  });
+  }));
 };
 
-async function initializeDatabase() {
+// Run a set of statements atomically; rolls back if the callback throws. Transactions run
+// one at a time, and one started inside another joins it.
+async function withTransaction<T>(fn: () => Promise<T>) {
+  if (postgres) return postgres.transaction(fn);
+  if (sqliteTransaction.getStore()) return fn();
+
+  while (openTransaction) await openTransaction;
+  let finish!: () => void;
+  openTransaction = new Promise(resolve => { finish = resolve; });
+
   try {
-    console.log('Creating database schema...');
-    
-    // Create tables
-    await dbRun(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        password TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    await dbRun(`
-      CREATE TABLE IF NOT EXISTS donations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        organization TEXT NOT NULL,
-        amount REAL NOT NULL,
-        date DATE NOT NULL,
-        notes TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )
-    `);
-
-    await dbRun(`
-      CREATE TABLE IF NOT EXISTS vegan_conversions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        person_name TEXT NOT NULL,
-        conversion_date DATE NOT NULL,
-        influence_type TEXT,
-        notes TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )
-    `);
-
-    await dbRun(`
-      CREATE TABLE IF NOT EXISTS media_shared (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        platform TEXT NOT NULL,
-        content_type TEXT NOT NULL,
-        reach_estimate INTEGER DEFAULT 0,
-        date DATE NOT NULL,
-        url TEXT,
-        notes TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )
-    `);
-
-    await dbRun(`
-      CREATE TABLE IF NOT EXISTS campaigns (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        campaign_name TEXT NOT NULL,
-        organization TEXT,
-        participation_type TEXT NOT NULL,
-        date DATE NOT NULL,
-        impact_description TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )
-    `);
-
-    // Create indexes for better performance
-    await dbRun(`CREATE INDEX IF NOT EXISTS idx_donations_user_id ON donations(user_id)`);
-    await dbRun(`CREATE INDEX IF NOT EXISTS idx_conversions_user_id ON vegan_conversions(user_id)`);
-    await dbRun(`CREATE INDEX IF NOT EXISTS idx_media_user_id ON media_shared(user_id)`);
-    await dbRun(`CREATE INDEX IF NOT EXISTS idx_campaigns_user_id ON campaigns(user_id)`);
-
-    console.log('Database schema created successfully!');
+    return await sqliteTransaction.run(true, async () => {
+      await dbRun('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        await dbRun('COMMIT');
+        return result;
+      } catch (error) {
+        await dbRun('ROLLBACK');
+        throw error;
+      }
+    });
+  } finally {
+    openTransaction = null;
+    finish();
+  }
+}
+
+// Column names of a table, in order
+async function tableColumns(table: string): Promise<string[]> {
+  if (postgres) return postgres.columns(table);
+  return (await dbAll(`PRAGMA table_info(${table})`)).map(column => column.name);
+}
+
+// Adapt SQLite column definitions (as written in migrations) to the active database
+function ddl(sql: string) {
+  if (dialect === 'sqlite') return sql;
+  return sql
+    .replace(/\bINTEGER PRIMARY KEY AUTOINCREMENT\b/g, 'SERIAL PRIMARY KEY')
+    .replace(/\bDATETIME\b/g, 'TIMESTAMP')
+    .replace(/\bREAL\b/g, 'DOUBLE PRECISION');
+}
+
+// SQL for the current time moved by an offset such as '+1 hour' or '-30 days'
+const nowOffsetSql = (offset: string) =>
+  dialect === 'postgres' ? `(CURRENT_TIMESTAMP + CAST(${offset} AS INTERVAL))` : `datetime('now', ${offset})`;
+
+// SQL for a date column's year and month, as YYYY-MM
+const monthSql = (column: string) =>
+  dialect === 'postgres' ? `to_char(${column}, 'YYYY-MM')` : `strftime('%Y-%m', ${column})`;
+
+// Add a column to an existing table (CREATE TABLE IF NOT EXISTS won't)
+async function addColumnIfMissing(table: string, column: string, definition: string) {
+  if (!(await tableColumns(table)).includes(column)) {
+    await dbRun(`ALTER TABLE ${table} ADD COLUMN ${column} ${ddl(definition)}`);
+  }
+}
+
+// sqlite3's online backup handle, which its type definitions leave out
+interface SqliteBackup {
+  step(pages: number, callback: (err: any) => void): void;
+  finish(callback: (err: any) => void): void;
+  completed: boolean;
+  failed: boolean;
+}
+
+// Copy the open SQLite database into a file with SQLite's online backup API. Pages are
+// copied a batch at a time, so queries keep running while the snapshot is taken.
+async function backupSqlite(destination: string, pagesPerStep = 100) {
+  if (!sqlite) {
+    throw new Error('Backups are only available for the SQLite database');
+  }
+
+  const backup = await new Promise<SqliteBackup>((resolve, reject) => {
+    const handle: SqliteBackup = (sqlite as any).backup(destination, (err: any) => {
+      if (err) reject(err);
+      else resolve(handle);
+    });
+  });
+
+  try {
+    while (!backup.completed) {
+      await new Promise<void>((resolve, reject) => {
+        backup.step(pagesPerStep, (err) => {
+          // Busy and locked are retried on the next step
+          if (err && !['SQLITE_BUSY', 'SQLITE_LOCKED'].includes(err.code)) reject(err);
+          else resolve();
+        });
+      });
+      if (backup.failed) {
+        throw new Error('SQLite backup failed');
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  } finally {
+    await new Promise<void>(resolve => backup.finish(() => resolve()));
+  }
+}
+
+// Demo data: the organization catalogue, the demo user and their sample records, plus
+// admins from ADMIN_EMAILS. The schema itself comes from migrations (bun run db:migrate).
+async function seedDatabase() {
+  try {
+    // Seed the organization catalogue with entries for the sample data
+    const organizationCount = await dbGet('SELECT COUNT(*) as count FROM organizations');
+    if (organizationCount.count === 0) {
+      console.log('Creating organization catalogue...');
+
+      const demoSource = 'Demo estimate for sample data; replace with a cited figure';
+      const organizations = [
+        ['Animal Sanctuary Fund', ['Animal Sanctuary'], 'farmed', 0.3],
+        ['Wildlife Protection Org', ['Wildlife Protection Organization'], 'wild', 0.2],
+        ['Farm Animal Welfare', ['Farm Animal Welfare Fund'], 'farmed', 1.5],
+        ['Humane Society', ['The Humane Society', 'HSUS'], 'companion', 0.4],
+        ['Best Friends Animal Society', ['Best Friends'], 'companion', 0.1]
+      ] as const;
+
+      for (const [name, aliases, causeArea, animalsPerDollar] of organizations) {
+        await dbRun(
+          'INSERT INTO organizations (name, aliases, cause_area, animals_per_dollar, source) VALUES (?, ?, ?, ?, ?)',
+          [name, JSON.stringify(aliases), causeArea, animalsPerDollar, demoSource]
+        );
+      }
+    }
 
     // Check if demo user exists
     const demoUser = await dbGet('SELECT id FROM users WHERE email = ?', ['johndoe@gmail.com']);
@@ -257,10 +348,25 @@ async function initializeDatabase() {
       console.log('Demo user already exists');
     }
 
-    console.log('Database initialization completed successfully!');
+    // Bootstrap admins: accounts listed in ADMIN_EMAILS are promoted (never demoted)
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+    if (adminEmails.length > 0) {
+      const result = await dbRun(
+        `UPDATE users SET role = 'admin' WHERE role != 'admin' AND lower(email) IN (${adminEmails.map(() => '?').join(', ')})`,
+        adminEmails
+      );
+      if (result.changes > 0) {
+        console.log(`Promoted ${result.changes} users from ADMIN_EMAILS to admin`);
+      }
+    }
+
+    console.log('Database seeding completed successfully!');
 
   } catch (error) {
-    console.error('Error initializing database:', error);
+    console.error('Error seeding database:', error);
     throw error;
   }
 }
@@ -268,7 +374,7 @@ async function initializeDatabase() {
 // Test database connection
 async function testConnection() {
   try {
-    const result = await dbGet('SELECT datetime("now") as now');
+    const result = await dbGet('SELECT CURRENT_TIMESTAMP as now');
     console.log('Database connected successfully at:', result.now);
   } catch (error) {
     console.error('Database connection failed:', error);
@@ -276,10 +382,10 @@ async function testConnection() {
   }
 }
 
-// Run initialization if this file is executed directly
+// Seed if this file is executed directly; db:init runs the migrations first
 if (import.meta.main) {
   testConnection()
-    .then(() => initializeDatabase())
+    .then(() => seedDatabase())
     .then(() => {
       console.log('✅ Database setup complete!');
       process.exit(0);
@@ -290,4 +396,20 @@ if (import.meta.main) {
     });
 }
 
-export { db, dbRun, dbGet, dbAll, initializeDatabase, testConnection };
\ No newline at end of file
+export {
+  dialect,
+  dbPath,
+  dbRun,
+  dbGet,
+  dbAll,
+  withTransaction,
+  tableColumns,
+  ddl,
+  nowOffsetSql,
+  monthSql,
+  addColumnIfMissing,
+  backupSqlite,
+  seedDatabase,
+  testConnection
+};
+export type { Dialect, RunResult };
\ No newline at end of file
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import { dbRun, dbGet, dbAll, withTransaction, testConnection } from './database.js';
+import { parseCsv } from './csv.js';
+import { BASE_CURRENCY, isCurrencyCode } from './schemas.js';
+
+// Exchange rates for converting donation amounts. Rates are maintained locally and
+// loaded from a CSV file; each rate is how many units of a currency one USD buys.
+const DEFAULT_RATES_FILE = 'exchange_rates.csv';
+
+// Currencies donations can be recorded and displayed in
+async function listCurrencies() {
+  const rows = await dbAll('SELECT DISTINCT currency FROM exchange_rates WHERE currency != ? ORDER BY currency', [BASE_CURRENCY]);
+  return [BASE_CURRENCY, ...rows.map(row => row.currency as string)];
+}
+
+// Error message if amounts in this currency can't be converted, otherwise null
+async function checkCurrency(currency: string) {
+  if (currency === BASE_CURRENCY) return null;
+  const rate = await dbGet('SELECT 1 FROM exchange_rates WHERE currency = ? LIMIT 1', [currency]);
+  return rate ? null : `No exchange rates are loaded for ${currency}`;
+}
+
+// SQL for a currency's rate on a date: the latest rate on or before the date,
+// or the earliest known rate for dates before the table starts
+function rateSql(currency: string, date: string) {
+  return `(CASE WHEN ${currency} = '${BASE_CURRENCY}' THEN 1.0 ELSE COALESCE(
+    (SELECT rate FROM exchange_rates r WHERE r.currency = ${currency} AND r.date <= ${date} ORDER BY r.date DESC LIMIT 1),
+    (SELECT rate FROM exchange_rates r WHERE r.currency = ${currency} ORDER BY r.date LIMIT 1)
+  ) END)`;
+}
+
+// SQL converting a donation row's amount into `currency` at the rate on the donation's date.
+// `table` is the donations table name or alias the expression is used with.
+function convertedAmountSql(currency: string, table = 'donations') {
+  if (!isCurrencyCode(currency)) {
+    throw new Error(`Invalid currency code: ${currency}`);
+  }
+  return `(${table}.amount / ${rateSql(`${table}.currency`, `${table}.date`)} * ${rateSql(`'${currency}'`, `${table}.date`)})`;
+}
+
+// Parse a rates CSV with date, currency and rate columns
+function parseExchangeRatesCsv(text: string) {
+  const [headers = [], ...rows] = parseCsv(text);
+  const columns = headers.map(header => header.trim().toLowerCase());
+  const missing = ['date', 'currency', 'rate'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Exchange rate CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map((cells, index) => {
+    const cell = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+    const date = cell('date');
+    const currency = cell('currency').toUpperCase();
+    const rate = parseFloat(cell('rate'));
+
+    // Row numbers match the spreadsheet: the header is row 1
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isCurrencyCode(currency) || !(rate > 0)) {
+      throw new Error(`Invalid exchange rate on row ${index + 2}`);
+    }
+    return { date, currency, rate };
+  });
+}
+
+// Insert or replace rates; loading the same file twice is harmless
+async function loadExchangeRates(rates: { date: string; currency: string; rate: number }[]) {
+  await withTransaction(async () => {
+    for (const { date, currency, rate } of rates) {
+      await dbRun(
+        'INSERT INTO exchange_rates (currency, date, rate) VALUES (?, ?, ?) ON CONFLICT (currency, date) DO UPDATE SET rate = excluded.rate',
+        [currency, date, rate]
+      );
+    }
+  });
+  return rates.length;
+}
+
+async function loadExchangeRatesFile(file: string) {
+  return loadExchangeRates(parseExchangeRatesCsv(fs.readFileSync(file, 'utf8')));
+}
+
+// Load rates if this file is executed directly: bun run exchange-rates.ts [file.csv]
+if (import.meta.main) {
+  const file = process.argv[2] || DEFAULT_RATES_FILE;
+
+  if (!process.argv[2] && !fs.existsSync(file)) {
+    console.log(`No ${DEFAULT_RATES_FILE} found; skipping exchange rates`);
+    process.exit(0);
+  }
+
+  testConnection()
+    .then(() => loadExchangeRatesFile(file))
+    .then((count) => {
+      console.log(`✅ Loaded ${count} exchange rates from ${file}`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Loading exchange rates failed:', error);
+      process.exit(1);
+    });
+}
+
+export {
+  BASE_CURRENCY,
+  isCurrencyCode,
+  listCurrencies,
+  checkCurrency,
+  convertedAmountSql,
+  parseExchangeRatesCsv,
+  loadExchangeRates,
+  loadExchangeRatesFile
+};
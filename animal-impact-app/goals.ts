@@ -0,0 +1,169 @@
+import express from 'express';
+import { dbGet, dbAll } from './database.js';
+import { getUserSummary } from './summary.js';
+import { BASE_CURRENCY } from './exchange-rates.js';
+import { currencyErrors } from './activities.js';
+import { goalSchema, defineSchema } from './schemas.js';
+import { validateQuery } from './validation.js';
+import { recordColumns } from './activity-routes.js';
+import { responds, model, recordModel, object, arrayOf, enumOf, string, number, integer, nullable } from './responses.js';
+import type { ActivityResource } from './activity-routes.js';
+import type { FieldErrors } from './schemas.js';
+
+// Goals: a target for one dashboard metric between two dates, e.g. "donate $1,200 this year"
+const GOAL_METRICS = {
+  donations: 'totalDonations',
+  conversions: 'conversionCount',
+  media: 'mediaCount',
+  reach: 'totalReach',
+  campaigns: 'campaignCount',
+  impact: 'animalsImpact'
+} as const;
+
+type GoalMetric = keyof typeof GOAL_METRICS;
+
+const GOAL_STATUSES = ['upcoming', 'on_track', 'at_risk', 'completed', 'missed'] as const;
+
+type GoalStatus = (typeof GOAL_STATUSES)[number];
+
+interface Goal {
+  id: number;
+  user_id: number;
+  title: string;
+  metric: GoalMetric;
+  target: number;
+  currency: string;
+  start_date: string;
+  end_date: string;
+  created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const goalsResource: ActivityResource = {
+  table: 'goals',
+  dateColumn: 'end_date',
+  singular: 'Goal',
+  createdMessage: 'Goal created successfully',
+  fields: goalSchema,
+  record: recordModel('GoalRecord', goalSchema, recordColumns),
+  validate: async (record): Promise<FieldErrors | null> => {
+    if (!(record.target > 0)) return { target: 'Target must be greater than 0' };
+    if (record.end_date < record.start_date) return { end_date: 'End date must be on or after start date' };
+    return record.metric === 'donations' ? currencyErrors(record.currency) : null;
+  }
+};
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().split('T')[0]!;
+const today = () => formatDate(new Date());
+
+// Days from `from` to `to`, counting both ends
+const daysBetween = (from: string, to: string) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS) + 1;
+
+// Progress so far and where the current pace leads. The pace is the average per day
+// since the goal started, assumed to carry on unchanged until the end date.
+async function getGoalProgress(goal: Goal, asOf = today()) {
+  const base = {
+    goal,
+    current: 0,
+    percent: 0,
+    projected: 0,
+    projectedCompletionDate: null as string | null,
+    daysLeft: Math.max(daysBetween(asOf, goal.end_date) - 1, 0)
+  };
+
+  if (asOf < goal.start_date) {
+    return { ...base, daysLeft: daysBetween(goal.start_date, goal.end_date), status: 'upcoming' as GoalStatus };
+  }
+
+  const through = asOf < goal.end_date ? asOf : goal.end_date;
+  const currency = goal.metric === 'donations' ? goal.currency : BASE_CURRENCY;
+  const { stats } = await getUserSummary(goal.user_id, currency, { from: goal.start_date, to: through });
+  const current = stats[GOAL_METRICS[goal.metric]];
+
+  const pace = current / daysBetween(goal.start_date, through);
+  const projected = pace * daysBetween(goal.start_date, goal.end_date);
+  let projectedCompletionDate: string | null = null;
+  if (current < goal.target && pace > 0) {
+    const daysNeeded = Math.ceil(goal.target / pace);
+    projectedCompletionDate = formatDate(new Date(toDate(goal.start_date).getTime() + (daysNeeded - 1) * DAY_MS));
+  }
+
+  let status: GoalStatus;
+  if (current >= goal.target) status = 'completed';
+  else if (asOf > goal.end_date) status = 'missed';
+  else if (projected < goal.target) status = 'at_risk';
+  else status = 'on_track';
+
+  return {
+    ...base,
+    current,
+    percent: Math.round((current / goal.target) * 1000) / 10,
+    projected: Math.round(projected * 100) / 100,
+    projectedCompletionDate,
+    status
+  };
+}
+
+type GoalProgress = Awaited<ReturnType<typeof getGoalProgress>>;
+
+const goalProgressModel = model('GoalProgress', object({
+  goal: goalsResource.record,
+  current: number,
+  percent: number,
+  projected: number,
+  projectedCompletionDate: nullable(string),
+  daysLeft: integer,
+  status: enumOf(GOAL_STATUSES)
+}));
+
+const progressQuerySchema = defineSchema([
+  { name: 'active', label: 'Active', type: 'boolean' }
+]);
+
+// Progress endpoints. Mount behind authenticateToken ahead of the goals CRUD router,
+// so /progress isn't taken for an id.
+function createGoalProgressRouter() {
+  const router = express.Router();
+
+  // Progress for every goal; ?active=true leaves out goals that have ended
+  router.get('/progress', validateQuery(progressQuerySchema), responds(object({ data: arrayOf(goalProgressModel) })), async (req: any, res: any) => {
+    try {
+      const { active } = req.query;
+      const goals: Goal[] = await dbAll(
+        `SELECT * FROM goals WHERE user_id = ?${active ? ' AND end_date >= ?' : ''} ORDER BY end_date, id`,
+        active ? [req.user.userId, today()] : [req.user.userId]
+      );
+
+      const progress: GoalProgress[] = [];
+      for (const goal of goals) {
+        progress.push(await getGoalProgress(goal));
+      }
+
+      res.json({ data: progress });
+    } catch (error) {
+      console.error('Goal progress error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/:id/progress', responds(object({ data: goalProgressModel })), async (req: any, res: any) => {
+    try {
+      const goal = await dbGet('SELECT * FROM goals WHERE id = ? AND user_id = ?', [req.params.id, req.user.userId]);
+      if (!goal) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+
+      res.json({ data: await getGoalProgress(goal) });
+    } catch (error) {
+      console.error('Goal progress error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { GOAL_METRICS, goalsResource, getGoalProgress, createGoalProgressRouter };
+export type { Goal, GoalMetric, GoalStatus, GoalProgress };
@@ -0,0 +1,109 @@
+import { readFileSync } from 'fs';
+
+// Impact model: converts logged activity into an estimate of animals spared.
+// Every result carries the model version so numbers can be traced back to the
+// coefficients that produced them.
+interface ImpactModel {
+  version: string;
+  // Animals spared for each full year a person stays vegan
+  animalsPerVeganYear: number;
+  // Probability a new vegan is still vegan a year later (null = no attrition)
+  annualRetention: number | null;
+  // Animals spared per dollar when the organization isn't in the catalogue
+  defaultAnimalsPerDollar: number;
+  // Animals spared per 1,000 people reached by shared media
+  animalsPer1000Reach: number;
+  // Animals spared per campaign participation
+  animalsPerCampaign: number;
+}
+
+interface ImpactInput {
+  conversions: { conversion_date: string }[];
+  // animalsPerDollar comes from the organization catalogue when the donation is linked
+  donations: { amount: number; animalsPerDollar?: number | null }[];
+  totalReach: number;
+  campaignCount: number;
+}
+
+interface ImpactResult {
+  modelVersion: string;
+  total: number;
+  breakdown: {
+    conversions: number;
+    donations: number;
+    media: number;
+    campaigns: number;
+  };
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// Default coefficients. The vegan-year figure is the estimate this app has always
+// used; the others are deliberately conservative and meant to be tuned per deployment.
+const defaultImpactModel: ImpactModel = {
+  version: '1.1.0',
+  animalsPerVeganYear: 365,
+  annualRetention: null,
+  defaultAnimalsPerDollar: 0.5,
+  animalsPer1000Reach: 2,
+  animalsPerCampaign: 10
+};
+
+// Load the active model, applying overrides from IMPACT_MODEL_FILE (JSON) if set
+function loadImpactModel(): ImpactModel {
+  const file = process.env.IMPACT_MODEL_FILE;
+  if (!file) {
+    return defaultImpactModel;
+  }
+
+  const overrides = JSON.parse(readFileSync(file, 'utf-8'));
+  return {
+    ...defaultImpactModel,
+    ...overrides,
+    // A custom file without its own version must not masquerade as the default model
+    version: overrides.version || `${defaultImpactModel.version}+custom`
+  };
+}
+
+const activeImpactModel = loadImpactModel();
+
+// Expected vegan-years lived between conversion and now, given annual retention
+function expectedVeganYears(yearsElapsed: number, annualRetention: number | null) {
+  if (yearsElapsed <= 0) return 0;
+  if (annualRetention === null || annualRetention >= 1) return yearsElapsed;
+  if (annualRetention <= 0) return 0;
+
+  // Integral of retention^t from 0 to yearsElapsed
+  return (Math.pow(annualRetention, yearsElapsed) - 1) / Math.log(annualRetention);
+}
+
+function computeImpact(input: ImpactInput, model: ImpactModel = activeImpactModel, asOf: Date = new Date()): ImpactResult {
+  const conversions = input.conversions.reduce((sum, conversion) => {
+    const yearsElapsed = (asOf.getTime() - new Date(conversion.conversion_date).getTime()) / MS_PER_YEAR;
+    return sum + expectedVeganYears(yearsElapsed, model.annualRetention) * model.animalsPerVeganYear;
+  }, 0);
+
+  const donations = input.donations.reduce(
+    (sum, donation) => sum + donation.amount * (donation.animalsPerDollar ?? model.defaultAnimalsPerDollar),
+    0
+  );
+
+  const media = (input.totalReach / 1000) * model.animalsPer1000Reach;
+  const campaigns = input.campaignCount * model.animalsPerCampaign;
+
+  const breakdown = {
+    conversions: Math.round(conversions),
+    donations: Math.round(donations),
+    media: Math.round(media),
+    campaigns: Math.round(campaigns)
+  };
+
+  return {
+    modelVersion: model.version,
+    total: breakdown.conversions + breakdown.donations + breakdown.media + breakdown.campaigns,
+    breakdown
+  };
+}
+
+export { defaultImpactModel, activeImpactModel, loadImpactModel, expectedVeganYears, computeImpact };
+export type { ImpactModel, ImpactInput, ImpactResult };
@@ -0,0 +1,145 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import type {
+  UserRecord,
+  Donation,
+  Conversion,
+  MediaPost,
+  Campaign,
+  ListOptions,
+  RecordRepository,
+  UserRepository,
+  Repositories
+} from './repositories.js';
+
+// Repositories over a single JSON file, for running without SQLite. The whole file is
+// held in memory and rewritten after every change; ids come from one shared counter.
+interface JsonData {
+  users: UserRecord[];
+  donations: Donation[];
+  conversions: Conversion[];
+  media: MediaPost[];
+  campaigns: Campaign[];
+  lastId: number;
+}
+
+type RecordCollection = 'donations' | 'conversions' | 'media' | 'campaigns';
+
+const emptyData = (): JsonData => ({
+  users: [],
+  donations: [],
+  conversions: [],
+  media: [],
+  campaigns: [],
+  lastId: 0
+});
+
+function createJsonStore(file: string) {
+  let data = emptyData();
+  if (existsSync(file)) {
+    data = { ...data, ...JSON.parse(readFileSync(file, 'utf-8')) };
+  }
+
+  return {
+    data,
+    nextId: () => ++data.lastId,
+    save: () => writeFileSync(file, JSON.stringify(data, null, 2))
+  };
+}
+
+type JsonStore = ReturnType<typeof createJsonStore>;
+
+// Same ordering as SQL: nulls first ascending, then numbers or strings by value
+function compareValues(a: any, b: any) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a < b ? -1 : 1;
+}
+
+function createJsonRecordRepository<T extends { id: number; user_id: number }>(
+  store: JsonStore,
+  collection: RecordCollection,
+  dateColumn: string
+): RecordRepository<T> {
+  const records = () => store.data[collection] as unknown as T[];
+  const owned = (userId: number) => records().filter(record => record.user_id === userId);
+
+  return {
+    async list(userId: number, { from, to, sort, order, limit, offset }: ListOptions) {
+      const direction = order === 'asc' ? 1 : -1;
+      const matching = owned(userId)
+        .filter(record => {
+          const date = (record as any)[dateColumn];
+          return (!from || date >= from) && (!to || date <= to);
+        })
+        .sort((a: any, b: any) =>
+          direction * (compareValues(a[sort], b[sort]) || compareValues(a.created_at, b.created_at))
+        );
+
+      return { rows: matching.slice(offset, offset + limit), total: matching.length };
+    },
+
+    async all(userId: number) {
+      return owned(userId).sort((a: any, b: any) => compareValues(a[dateColumn], b[dateColumn]) || a.id - b.id);
+    },
+
+    async find(id: number, userId: number) {
+      return records().find(record => record.id === Number(id) && record.user_id === userId);
+    },
+
+    async create(userId: number, values: Record<string, any>) {
+      const record = { id: store.nextId(), user_id: userId, ...values, created_at: new Date().toISOString() } as unknown as T;
+      records().push(record);
+      store.save();
+      return record.id;
+    },
+
+    async update(id: number, userId: number, values: Record<string, any>) {
+      const record = records().find(record => record.id === Number(id) && record.user_id === userId);
+      if (!record) return;
+      Object.assign(record, values);
+      store.save();
+    },
+
+    async delete(id: number, userId: number) {
+      const index = records().findIndex(record => record.id === Number(id) && record.user_id === userId);
+      if (index === -1) return false;
+      records().splice(index, 1);
+      store.save();
+      return true;
+    }
+  };
+}
+
+function createJsonUserRepository(store: JsonStore): UserRepository {
+  return {
+    async findById(id: number) {
+      return store.data.users.find(user => user.id === id);
+    },
+
+    async findByEmail(email: string) {
+      return store.data.users.find(user => user.email === email);
+    },
+
+    async create({ email, name, password }) {
+      const user: UserRecord = { id: store.nextId(), email, name, password, created_at: new Date().toISOString() };
+      store.data.users.push(user);
+      store.save();
+      return user.id;
+    }
+  };
+}
+
+function createJsonRepositories(file: string): Repositories {
+  const store = createJsonStore(file);
+
+  return {
+    users: createJsonUserRepository(store),
+    donations: createJsonRecordRepository<Donation>(store, 'donations', 'date'),
+    conversions: createJsonRecordRepository<Conversion>(store, 'conversions', 'conversion_date'),
+    media: createJsonRecordRepository<MediaPost>(store, 'media', 'date'),
+    campaigns: createJsonRecordRepository<Campaign>(store, 'campaigns', 'date')
+  };
+}
+
+export { createJsonRepositories };
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+// Outgoing email. Pick a transport with MAIL_TRANSPORT:
+// - smtp: deliver through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+// - file: write each message to MAIL_DIR, for local development and tests
+// - console: print each message to the server log; the default outside production,
+//   where a transport has to be chosen explicitly
+interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Animal Impact <no-reply@animal-impact.local>';
+const DEFAULT_MAIL_DIR = 'mail';
+
+const formatMessage = (from: string, mail: Mail) =>
+  `From: ${from}\nTo: ${mail.to}\nSubject: ${mail.subject}\nDate: ${new Date().toUTCString()}\n\n${mail.text}\n`;
+
+function createSmtpMailer(options: { host: string; port: number; secure: boolean; user?: string; pass?: string; from: string }): Mailer {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined
+  });
+
+  return {
+    async send(mail: Mail) {
+      await transport.sendMail({ from: options.from, ...mail });
+    }
+  };
+}
+
+// One .eml file per message, named so a directory listing sorts by time
+function createFileMailer(directory: string, from = DEFAULT_FROM): Mailer {
+  return {
+    async send(mail: Mail) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+      await fs.promises.writeFile(path.join(directory, name), formatMessage(from, mail));
+    }
+  };
+}
+
+function createConsoleMailer(from = DEFAULT_FROM): Mailer {
+  return {
+    async send(mail: Mail) {
+      console.log(`📧 Email\n${formatMessage(from, mail)}`);
+    }
+  };
+}
+
+function createMailerFromEnv(env = process.env): Mailer {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+
+  if (!env.MAIL_TRANSPORT && env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT is required in production (smtp, file or console)');
+  }
+
+  switch (env.MAIL_TRANSPORT || 'console') {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+      }
+      return createSmtpMailer({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from
+      });
+    case 'file':
+      return createFileMailer(env.MAIL_DIR || DEFAULT_MAIL_DIR, from);
+    case 'console':
+      return createConsoleMailer(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${env.MAIL_TRANSPORT}`);
+  }
+}
+
+export { createSmtpMailer, createFileMailer, createConsoleMailer, createMailerFromEnv };
+export type { Mail, Mailer };
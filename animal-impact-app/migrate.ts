@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { dbRun, dbAll, withTransaction, ddl, testConnection } from './database.js';
+
+// Versioned schema migrations. Each file in migrations/ is named NNNN-description.ts
+// and exports async up() and down(); applied versions are recorded in schema_migrations.
+// Every migration runs in its own transaction together with its bookkeeping row.
+interface Migration {
+  version: number;
+  name: string;
+  up: () => Promise<void>;
+  down: () => Promise<void>;
+}
+
+interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+const MIGRATIONS_DIR = path.join(path.dirname(new URL(import.meta.url).pathname), 'migrations');
+const MIGRATION_FILE = /^(\d{4})-([a-z0-9-]+)\.ts$/;
+
+async function loadMigrations(): Promise<Migration[]> {
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter(file => MIGRATION_FILE.test(file)).sort();
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const [, version, name] = file.match(MIGRATION_FILE)!;
+    const { up, down } = await import(path.join(MIGRATIONS_DIR, file));
+    if (typeof up !== 'function' || typeof down !== 'function') {
+      throw new Error(`Migration ${file} must export up() and down()`);
+    }
+    if (migrations.some(migration => migration.version === Number(version))) {
+      throw new Error(`Migration version ${version} is used more than once`);
+    }
+    migrations.push({ version: Number(version), name: name!, up, down });
+  }
+  return migrations;
+}
+
+async function appliedMigrations() {
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `));
+  const rows = await dbAll('SELECT version, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(rows.map(row => [row.version as number, row.applied_at as string]));
+}
+
+// Every known migration, oldest first, with when it was applied (null if pending)
+async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const applied = await appliedMigrations();
+  return (await loadMigrations()).map(({ version, name }) => ({
+    version,
+    name,
+    appliedAt: applied.get(version) ?? null
+  }));
+}
+
+async function pendingMigrations() {
+  return (await getMigrationStatus()).filter(migration => !migration.appliedAt);
+}
+
+// Apply every pending migration in version order; returns the ones applied
+async function migrate() {
+  const applied = await appliedMigrations();
+  const pending = (await loadMigrations()).filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    await withTransaction(async () => {
+      await migration.up();
+      await dbRun('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+    });
+    console.log(`⬆️  Applied ${formatMigration(migration)}`);
+  }
+  return pending;
+}
+
+// Undo the most recently applied migrations, newest first; returns the ones undone
+async function rollback(steps = 1) {
+  const applied = await appliedMigrations();
+  const migrations = new Map((await loadMigrations()).map(migration => [migration.version, migration]));
+  const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+  const undone: Migration[] = [];
+  for (const version of versions) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`Migration ${version} is applied but its file is missing from migrations/`);
+    }
+    await withTransaction(async () => {
+      await migration.down();
+      await dbRun('DELETE FROM schema_migrations WHERE version = ?', [version]);
+    });
+    console.log(`⬇️  Rolled back ${formatMigration(migration)}`);
+    undone.push(migration);
+  }
+  return undone;
+}
+
+// Refuse to run against a schema that's behind the code
+async function assertMigrationsApplied() {
+  const pending = await pendingMigrations();
+  if (pending.length > 0) {
+    throw new Error(`Database has pending migrations (${pending.map(formatMigration).join(', ')}); run bun run db:migrate`);
+  }
+}
+
+const formatMigration = ({ version, name }: { version: number; name: string }) =>
+  `${String(version).padStart(4, '0')}-${name}`;
+
+// bun run migrate.ts up | down [steps] | status
+if (import.meta.main) {
+  const [command = 'up', steps] = process.argv.slice(2);
+
+  const run = async () => {
+    await testConnection();
+    switch (command) {
+      case 'up': {
+        const applied = await migrate();
+        console.log(applied.length > 0 ? `✅ Applied ${applied.length} migrations` : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const undone = await rollback(steps ? Math.max(parseInt(steps) || 1, 1) : 1);
+        console.log(undone.length > 0 ? `✅ Rolled back ${undone.length} migrations` : '✅ Nothing to roll back');
+        break;
+      }
+      case 'status':
+        for (const migration of await getMigrationStatus()) {
+          console.log(`${migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending'.padEnd(27)}  ${formatMigration(migration)}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown command: ${command} (expected up, down or status)`);
+    }
+  };
+
+  run()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrate, rollback, getMigrationStatus, pendingMigrations, assertMigrationsApplied };
+export type { Migration, MigrationStatus };
@@ -0,0 +1,270 @@
+import { dbRun, ddl, addColumnIfMissing } from '../database.js';
+
+// The schema as it stood when migrations were introduced. Every statement is
+// idempotent, so an existing database is brought up to this point without losing data.
+// Column types are written for SQLite; ddl() adapts them for PostgreSQL.
+async function up() {
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT UNIQUE NOT NULL,
+      name TEXT NOT NULL,
+      password TEXT NOT NULL,
+      display_currency TEXT NOT NULL DEFAULT 'USD',
+      email_verified_at DATETIME,
+      role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+      disabled_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `));
+
+  // Single-use password reset and email verification tokens, stored as SHA-256 hashes
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS user_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      purpose TEXT NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+      token_hash TEXT UNIQUE NOT NULL,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  // Sign-in sessions; refresh tokens are stored as SHA-256 hashes
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      refresh_token_hash TEXT UNIQUE NOT NULL,
+      previous_token_hash TEXT,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      revoked_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS organizations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      aliases TEXT NOT NULL DEFAULT '[]',
+      cause_area TEXT NOT NULL CHECK (cause_area IN ('farmed', 'wild', 'companion')),
+      animals_per_dollar REAL NOT NULL,
+      source TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `));
+
+  // Created before donations, whose recurring_donation_id references it
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS recurring_donations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      organization TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'monthly', 'yearly')),
+      start_date DATE NOT NULL,
+      end_date DATE,
+      day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+      notes TEXT,
+      status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+      generated_through DATE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS donations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      organization TEXT NOT NULL,
+      organization_id INTEGER,
+      recurring_donation_id INTEGER,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      date DATE NOT NULL,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE SET NULL,
+      FOREIGN KEY (recurring_donation_id) REFERENCES recurring_donations(id) ON DELETE SET NULL
+    )
+  `));
+
+  // Units of each currency one USD buys, by date
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      currency TEXT NOT NULL,
+      date DATE NOT NULL,
+      rate REAL NOT NULL CHECK (rate > 0),
+      PRIMARY KEY (currency, date)
+    )
+  `));
+
+  // Databases created before migrations existed may lack these columns
+  await addColumnIfMissing('users', 'display_currency', "TEXT NOT NULL DEFAULT 'USD'");
+  await addColumnIfMissing('users', 'email_verified_at', 'DATETIME');
+  await addColumnIfMissing('users', 'role', "TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin'))");
+  await addColumnIfMissing('users', 'disabled_at', 'DATETIME');
+  await addColumnIfMissing('donations', 'organization_id', 'INTEGER REFERENCES organizations(id) ON DELETE SET NULL');
+  await addColumnIfMissing('donations', 'recurring_donation_id', 'INTEGER REFERENCES recurring_donations(id) ON DELETE SET NULL');
+  await addColumnIfMissing('donations', 'currency', "TEXT NOT NULL DEFAULT 'USD'");
+  await addColumnIfMissing('recurring_donations', 'currency', "TEXT NOT NULL DEFAULT 'USD'");
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS teams (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      description TEXT,
+      invite_code TEXT UNIQUE NOT NULL,
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+    )
+  `));
+
+  // share_stats = 0 hides a member from their team's per-member breakdown
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS team_memberships (
+      team_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+      share_stats INTEGER NOT NULL DEFAULT 1,
+      joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (team_id, user_id),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  // sections is a JSON list of the dashboard sections shown publicly
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS public_profiles (
+      user_id INTEGER PRIMARY KEY,
+      slug TEXT UNIQUE NOT NULL,
+      display_name TEXT,
+      sections TEXT NOT NULL DEFAULT '[]',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS vegan_conversions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      person_name TEXT NOT NULL,
+      conversion_date DATE NOT NULL,
+      influence_type TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS media_shared (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      platform TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      reach_estimate INTEGER DEFAULT 0,
+      date DATE NOT NULL,
+      url TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS campaigns (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      campaign_name TEXT NOT NULL,
+      organization TEXT,
+      participation_type TEXT NOT NULL,
+      date DATE NOT NULL,
+      impact_description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  // Targets for one dashboard metric over a date range
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS goals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      metric TEXT NOT NULL CHECK (metric IN ('donations', 'conversions', 'media', 'reach', 'campaigns', 'impact')),
+      target REAL NOT NULL CHECK (target > 0),
+      currency TEXT NOT NULL DEFAULT 'USD',
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  // Achievements each user has unlocked; ids come from achievement-rules.ts
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS user_achievements (
+      user_id INTEGER NOT NULL,
+      achievement_id TEXT NOT NULL,
+      unlocked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, achievement_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+
+  // Indexes
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_donations_user_id ON donations(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_conversions_user_id ON vegan_conversions(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_media_user_id ON media_shared(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_campaigns_user_id ON campaigns(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_donations_organization_id ON donations(organization_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_recurring_donations_user_id ON recurring_donations(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_team_memberships_user_id ON team_memberships(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_user_tokens_user_id ON user_tokens(user_id)`);
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_sessions_previous_token_hash ON sessions(previous_token_hash)`);
+  // One generated donation per schedule per date keeps the scheduler idempotent
+  await dbRun(`CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_recurring_date ON donations(recurring_donation_id, date)`);
+}
+
+// Children before parents, so no foreign key is left pointing at a dropped table
+const TABLES = [
+  'user_achievements',
+  'goals',
+  'campaigns',
+  'media_shared',
+  'vegan_conversions',
+  'public_profiles',
+  'team_memberships',
+  'teams',
+  'exchange_rates',
+  'donations',
+  'recurring_donations',
+  'organizations',
+  'sessions',
+  'user_tokens',
+  'users'
+];
+
+async function down() {
+  for (const table of TABLES) {
+    await dbRun(`DROP TABLE IF EXISTS ${table}`);
+  }
+}
+
+export { up, down };
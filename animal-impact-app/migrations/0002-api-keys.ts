@@ -0,0 +1,28 @@
+import { dbRun, ddl } from '../database.js';
+
+// Personal API keys for scripts. Keys are stored as SHA-256 hashes; prefix is the start
+// of the key, kept so the user can tell their keys apart. scopes is a JSON list.
+async function up() {
+  await dbRun(ddl(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      prefix TEXT NOT NULL,
+      key_hash TEXT UNIQUE NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at DATETIME,
+      last_used_ip TEXT,
+      revoked_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `));
+  await dbRun(`CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id)`);
+}
+
+async function down() {
+  await dbRun(`DROP TABLE IF EXISTS api_keys`);
+}
+
+export { up, down };
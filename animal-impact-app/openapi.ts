@@ -0,0 +1,518 @@
+import express from 'express';
+import path from 'path';
+import { writeFile } from 'fs/promises';
+import * as schemas from './schemas.js';
+import { API_KEY_RESOURCES } from './schemas.js';
+import { authenticateToken } from './sessions.js';
+import { models, recordModels, object } from './responses.js';
+import type { Field, Schema } from './schemas.js';
+import type { ValidationTarget } from './validation.js';
+import type { JsonSchema, RecordModel, ResponseTarget } from './responses.js';
+
+// OpenAPI 3 document built from the routes themselves: paths and methods come from the
+// Express routers, request bodies and query parameters from the schemas checked by their
+// validateBody/validateQuery middleware, response bodies from responds() (responses.ts),
+// and security from authenticateToken and requireRole in each handler chain (API keys
+// work where API_KEY_RESOURCES allows).
+// Nothing is written by hand, so the document can't drift from server.ts.
+//
+//   GET /api/openapi.json   the document
+//   GET /api/docs           a docs page for browsing and trying the API
+//
+// `bun run api:client` writes the typed client the React app uses (src/api-client.ts).
+
+const API_PREFIX = '/api';
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+interface Mount {
+  path: string;
+  handlers: any[];
+}
+
+interface RouteInfo {
+  method: string;
+  path: string;
+  handlers: any[];
+}
+
+// Express 5 doesn't keep the path a router is mounted at, so routers mounted through
+// mount() are recorded here. Use it in place of app.use(path, ...handlers).
+const mounts = new WeakMap<express.Express, Mount[]>();
+
+function mount(app: express.Express, mountPath: string, ...handlers: any[]) {
+  mounts.set(app, [...(mounts.get(app) ?? []), { path: mountPath, handlers }]);
+  app.use(mountPath, ...handlers);
+}
+
+const joinPaths = (prefix: string, routePath: string) =>
+  routePath === '/' ? prefix || '/' : `${prefix.replace(/\/$/, '')}${routePath}`;
+
+// Routes in a router's stack, each with every handler that runs for it. Middleware added
+// with router.use() applies to the routes after it.
+function collectRoutes(stack: any[], prefix: string, before: any[]): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+  let chain = before;
+
+  for (const layer of stack) {
+    if (layer.route) {
+      if (typeof layer.route.path !== 'string') continue;
+      const handlers = [...chain, ...layer.route.stack.map((routeLayer: any) => routeLayer.handle)];
+      for (const method of Object.keys(layer.route.methods)) {
+        if (HTTP_METHODS.includes(method)) {
+          routes.push({ method, path: joinPaths(prefix, layer.route.path), handlers });
+        }
+      }
+    } else if (layer.slash) {
+      // Mounted at the router's own root, so it sees every request that follows
+      if (layer.handle.stack) {
+        routes.push(...collectRoutes(layer.handle.stack, prefix, chain));
+      } else {
+        chain = [...chain, layer.handle];
+      }
+    }
+  }
+
+  return routes;
+}
+
+// Every route on the app, in the order Express matches them
+function collectAppRoutes(app: express.Express): RouteInfo[] {
+  const appMounts = mounts.get(app) ?? [];
+  const routes: RouteInfo[] = [];
+  const seen = new Set<any>();
+
+  for (const layer of (app as any).router.stack) {
+    if (layer.route) {
+      routes.push(...collectRoutes([layer], '', []));
+      continue;
+    }
+
+    const owner = layer.handle.stack ? appMounts.find(candidate => candidate.handlers.includes(layer.handle)) : undefined;
+    if (!owner || seen.has(layer.handle)) continue;
+    seen.add(layer.handle);
+
+    const before = owner.handlers.slice(0, owner.handlers.indexOf(layer.handle)).filter(handler => !handler.stack);
+    routes.push(...collectRoutes(layer.handle.stack, owner.path, before));
+  }
+
+  return routes.filter(route => route.path.startsWith(`${API_PREFIX}/`));
+}
+
+// Schemas exported from schemas.ts become named components: donationSchema -> Donation.
+// Partial (PATCH) bodies get their own component without required fields: DonationUpdate.
+const schemaNames = new Map<Schema, string>(
+  Object.entries(schemas)
+    .filter(([name, value]) => name.endsWith('Schema') && Array.isArray(value))
+    .map(([name, value]) => [value as Schema, name.charAt(0).toUpperCase() + name.slice(1, -'Schema'.length)])
+);
+
+function fieldSchema(field: Field): Record<string, any> {
+  const schema: Record<string, any> = { description: field.label };
+  const bounds = (minKey: string, maxKey: string) => {
+    if (field.min !== undefined) schema[minKey] = field.min;
+    if (field.max !== undefined) schema[maxKey] = field.max;
+  };
+
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+      schema.type = field.type;
+      bounds('minimum', 'maximum');
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'date':
+      Object.assign(schema, { type: 'string', format: 'date' });
+      break;
+    case 'enum':
+      Object.assign(schema, { type: 'string', enum: field.options });
+      break;
+    case 'list':
+      Object.assign(schema, { type: 'array', items: field.options ? { type: 'string', enum: field.options } : { type: 'string' } });
+      bounds('minItems', 'maxItems');
+      break;
+    case 'currency':
+      Object.assign(schema, { type: 'string', pattern: '^[A-Z]{3}$' });
+      break;
+    case 'object':
+      Object.assign(schema, { type: 'object', additionalProperties: true });
+      break;
+    default:
+      schema.type = 'string';
+      if (field.type === 'email') schema.format = 'email';
+      if (field.type === 'url') schema.format = 'uri';
+      if (field.type === 'password') schema.format = 'password';
+      if (field.pattern) schema.pattern = field.pattern.source;
+      bounds('minLength', 'maxLength');
+  }
+
+  if (field.nullable) schema.nullable = true;
+  if (field.defaultValue !== undefined) schema.default = field.defaultValue;
+  return schema;
+}
+
+function objectSchema(schema: Schema, partial: boolean) {
+  const required = partial ? [] : schema.filter(field => field.required).map(field => field.name);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(schema.map(field => [field.name, fieldSchema(field)])),
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+// A stored row of a request schema, as recordModel() describes it
+function recordSchema({ fields, columns, optional }: RecordModel) {
+  const properties = Object.fromEntries(fields.map(field => {
+    const schema = fieldSchema(field);
+    return [field.name, field.required || field.defaultValue !== undefined ? schema : { ...schema, nullable: true }];
+  }));
+  return object({ ...properties, ...columns }, optional);
+}
+
+// The 2XX response: a JSON body, a file download, or undescribed
+function successResponse(target?: ResponseTarget) {
+  if (target?.schema) {
+    return { description: 'Success', content: { 'application/json': { schema: target.schema } } };
+  }
+  if (target?.files) {
+    const file = { schema: { type: 'string', format: 'binary' } };
+    return { description: 'A file download', content: Object.fromEntries(target.files.map(mediaType => [mediaType, file])) };
+  }
+  return { description: 'Success' };
+}
+
+// OpenAPI wants {id} where Express has :id
+const openApiPath = (expressPath: string) => expressPath.replace(/:(\w+)/g, '{$1}');
+
+// e.g. PATCH /teams/{id}/members/{userId} -> patchTeamsByIdMembersByUserId
+function operationId(method: string, apiPath: string) {
+  const words = apiPath.split('/').filter(Boolean).map(segment => {
+    const param = segment.match(/^\{(\w+)\}$/);
+    const word = param ? `By-${param[1]}` : segment;
+    return word.split(/[-_.]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+  });
+  return method + words.join('');
+}
+
+function buildOpenApiDocument(app: express.Express) {
+  const components: Record<string, any> = {};
+  const paths: Record<string, Record<string, any>> = {};
+
+  const bodySchema = ({ schema, partial }: ValidationTarget) => {
+    const baseName = schemaNames.get(schema);
+    if (!baseName) {
+      return objectSchema(schema, partial);
+    }
+    const name = partial && !baseName.endsWith('Update') ? `${baseName}Update` : baseName;
+    components[name] ??= objectSchema(schema, partial);
+    return { $ref: `#/components/schemas/${name}` };
+  };
+
+  for (const route of collectAppRoutes(app)) {
+    const apiPath = openApiPath(route.path.slice(API_PREFIX.length));
+    const validations: ValidationTarget[] = route.handlers.map(handler => handler.validates).filter(Boolean);
+    const roles: string[] = route.handlers.flatMap(handler => handler.roles ?? []);
+    const authenticated = route.handlers.includes(authenticateToken);
+    const resource = apiPath.split('/')[1]!;
+    const acceptsApiKey = authenticated && (API_KEY_RESOURCES as readonly string[]).includes(resource);
+    const security = [
+      ...(authenticated ? [{ bearerAuth: [] }] : []),
+      ...(acceptsApiKey ? [{ apiKeyAuth: [] }] : [])
+    ];
+
+    const pathParams = [...apiPath.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: /id$/i.test(name!) ? 'integer' : 'string' }
+    }));
+    const queryParams = validations
+      .filter(validation => validation.in === 'query')
+      .flatMap(({ schema }) => schema.map(field => ({
+        name: field.name,
+        in: 'query',
+        required: Boolean(field.required),
+        schema: fieldSchema(field)
+      })));
+    const body = validations.find(validation => validation.in === 'body');
+    const response: ResponseTarget | undefined = route.handlers.map(handler => handler.responds).find(Boolean);
+
+    const responses: Record<string, any> = { '2XX': successResponse(response) };
+    if (authenticated) responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+    if (roles.length > 0) responses['403'] = { $ref: '#/components/responses/Forbidden' };
+    if (validations.length > 0) responses['422'] = { $ref: '#/components/responses/ValidationFailed' };
+
+    paths[apiPath] ??= {};
+    paths[apiPath][route.method] = {
+      operationId: operationId(route.method, apiPath),
+      tags: [resource],
+      ...(roles.length > 0 ? { description: `Requires the ${roles.join(' or ')} role.` } : {}),
+      security,
+      ...(pathParams.length + queryParams.length > 0 ? { parameters: [...pathParams, ...queryParams] } : {}),
+      ...(body
+        ? { requestBody: { required: true, content: { 'application/json': { schema: bodySchema(body) } } } }
+        : {}),
+      responses
+    };
+  }
+
+  // Response models sit beside the request body schemas, so their names mustn't clash
+  const responseModels: [string, JsonSchema][] = [
+    ...models,
+    ...[...recordModels].map(([name, record]): [string, JsonSchema] => [name, recordSchema(record)])
+  ];
+  for (const [name, schema] of responseModels) {
+    if (components[name]) {
+      throw new Error(`Response model ${name} has the same name as a request body schema`);
+    }
+    components[name] = schema;
+  }
+
+  const errorResponse = (description: string, schema: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } }
+  });
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Animal Impact API',
+      version: '1.0.0',
+      description: 'Generated from the server routes and the request schemas in schemas.ts.'
+    },
+    servers: [{ url: API_PREFIX }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas: {
+        ...Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error']
+        },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'Validation failed' },
+            fields: { type: 'object', additionalProperties: { type: 'string' } }
+          },
+          required: ['error', 'fields']
+        }
+      },
+      responses: {
+        Unauthorized: errorResponse('Missing, invalid or expired access token', 'Error'),
+        Forbidden: errorResponse('The user lacks the required role', 'Error'),
+        ValidationFailed: errorResponse('A message for each invalid field', 'ValidationError')
+      }
+    }
+  };
+}
+
+type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
+
+// The document and the docs page. The document is built on first request, once every
+// route has been added.
+function createApiDocsRouter(app: express.Express) {
+  const router = express.Router();
+  const __dirname = path.dirname(new URL(import.meta.url).pathname);
+  let document: OpenApiDocument | null = null;
+
+  router.get('/openapi.json', (req: any, res: any) => {
+    try {
+      document ??= buildOpenApiDocument(app);
+      res.json(document);
+    } catch (error) {
+      console.error('OpenAPI document error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.use('/docs', express.static(path.join(__dirname, 'api-docs')));
+
+  return router;
+}
+
+// TypeScript client
+
+// The TypeScript type for a JSON schema, e.g. { type: 'string', enum: ['a', 'b'] } -> 'a' | 'b'.
+// Objects with properties are written out inline, indented to follow `indent`.
+function typeFor(schema: Record<string, any>, indent = ''): string {
+  let type: string;
+  if (schema.$ref) {
+    type = schema.$ref.split('/').pop();
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part: Record<string, any>) => typeFor(part, indent)).join(' & ');
+  } else if (schema.enum) {
+    type = schema.enum.map((option: string) => `'${option}'`).join(' | ');
+  } else if (schema.type === 'array') {
+    const items = typeFor(schema.items, indent);
+    const inline = items.startsWith('{') && items.endsWith('}');
+    type = items.includes('|') && !inline ? `(${items})[]` : `${items}[]`;
+  } else if (schema.type === 'object' && schema.properties) {
+    type = propertiesType(schemaProperties(schema), indent);
+  } else if (schema.type === 'object') {
+    type = typeof schema.additionalProperties === 'object'
+      ? `Record<string, ${typeFor(schema.additionalProperties, indent)}>`
+      : 'Record<string, unknown>';
+  } else if (!schema.type) {
+    type = 'unknown';
+  } else {
+    type = { integer: 'number', number: 'number', boolean: 'boolean' }[schema.type as string] ?? 'string';
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+const schemaProperties = (schema: Record<string, any>) => {
+  const required = new Set<string>(schema.required ?? []);
+  return Object.entries<Record<string, any>>(schema.properties)
+    .map(([property, propertySchema]) => [property, propertySchema, required.has(property)] as [string, Record<string, any>, boolean]);
+};
+
+function propertiesType(properties: [name: string, schema: Record<string, any>, required: boolean][], indent: string) {
+  const lines = properties.map(([name, schema, required]) => {
+    const key = /^[A-Za-z_]\w*$/.test(name) ? name : `'${name}'`;
+    return `${indent}  ${key}${required ? '' : '?'}: ${typeFor(schema, `${indent}  `)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+const CLIENT_RUNTIME = `type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Paths with an operation for the method, e.g. ApiPath<'GET'> includes '/donations/{id}'
+export type ApiPath<M extends Method> = {
+  [K in keyof Operations]: K extends \`\${M} \${infer P}\` ? P : never;
+}[keyof Operations];
+
+export type ApiOptions<M extends Method, P extends string> = Operations[\`\${M} \${P}\` & keyof Operations] & { token?: string };
+
+// The parsed body of a successful response; unknown for file downloads
+export type ApiResponse<M extends Method, P extends string> = Responses[\`\${M} \${P}\` & keyof Responses];
+
+// Options can be left out when the operation has nothing required
+type OptionsArg<M extends Method, P extends string> =
+  {} extends ApiOptions<M, P> ? [options?: ApiOptions<M, P>] : [options: ApiOptions<M, P>];
+
+// Sends a request to a path under /api and returns the response, throwing on errors
+export type Fetcher = (path: string, init: RequestInit, token?: string) => Promise<Response>;
+
+interface SendOptions {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  token?: string;
+}
+
+function buildPath(path: string, { params = {}, query = {} }: SendOptions) {
+  const url = path.replace(/\\{(\\w+)\\}/g, (_, name: string) => encodeURIComponent(String(params[name])));
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(name, String(value));
+    }
+  }
+  return search.size > 0 ? \`\${url}?\${search}\` : url;
+}
+
+export function createApiClient(fetcher: Fetcher) {
+  const send = (method: Method, path: string, options: SendOptions = {}) =>
+    fetcher(
+      buildPath(path, options),
+      options.body === undefined
+        ? { method }
+        : { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(options.body) },
+      options.token
+    );
+
+  const json = <M extends Method>(method: M) =>
+    async <P extends ApiPath<M>>(path: P, ...[options]: OptionsArg<M, P>): Promise<ApiResponse<M, P>> =>
+      (await send(method, path, options as SendOptions)).json() as Promise<ApiResponse<M, P>>;
+
+  return {
+    get: json('GET'),
+    post: json('POST'),
+    patch: json('PATCH'),
+    delete: json('DELETE'),
+    // The response itself, for file downloads
+    fetch: <M extends Method, P extends ApiPath<M>>(method: M, path: P, ...[options]: OptionsArg<M, P>) =>
+      send(method, path, options as SendOptions)
+  };
+}
+`;
+
+// TypeScript source for a client of the document: a type per component schema, an
+// Operations map of request options and a Responses map of response bodies, both keyed
+// by "METHOD /path", and createApiClient().
+function generateClient(document: OpenApiDocument) {
+  const interfaces = Object.entries(document.components.schemas).map(([name, schema]: [string, any]) =>
+    `export interface ${name} ${propertiesType(schemaProperties(schema), '')}`
+  );
+
+  const operations = Object.entries(document.paths).flatMap(([apiPath, methods]) =>
+    Object.entries(methods).map(([method, operation]) => {
+      const parameters: any[] = operation.parameters ?? [];
+      const parts: string[] = [];
+      for (const location of ['path', 'query']) {
+        const inLocation = parameters.filter(parameter => parameter.in === location);
+        if (inLocation.length === 0) continue;
+        const key = location === 'path' ? 'params' : 'query';
+        const optional = inLocation.every(parameter => !parameter.required);
+        const properties = inLocation.map(parameter => [parameter.name, parameter.schema, parameter.required] as [string, Record<string, any>, boolean]);
+        parts.push(`    ${key}${optional ? '?' : ''}: ${propertiesType(properties, '    ')};`);
+      }
+      const body = operation.requestBody?.content['application/json'].schema;
+      if (body) {
+        parts.push(`    body: ${typeFor(body)};`);
+      }
+      const entry = parts.length > 0 ? `{\n${parts.join('\n')}\n  }` : '{}';
+      return `  '${method.toUpperCase()} ${apiPath}': ${entry};`;
+    })
+  );
+
+  const responses = Object.entries(document.paths).flatMap(([apiPath, methods]) =>
+    Object.entries(methods).map(([method, operation]) => {
+      // File downloads, JSON ones included, are left to the caller
+      const schema = operation.responses['2XX'].content?.['application/json']?.schema;
+      const body = schema && schema.format !== 'binary' ? typeFor(schema, '  ') : 'unknown';
+      return `  '${method.toUpperCase()} ${apiPath}': ${body};`;
+    })
+  );
+
+  return [
+    '// Generated from the API\'s OpenAPI document (openapi.ts) by `bun run api:client`; don\'t edit.',
+    '// Paths are relative to /api.',
+    '',
+    ...interfaces.flatMap(declaration => [declaration, '']),
+    'export interface Operations {',
+    ...operations,
+    '}',
+    '',
+    'export interface Responses {',
+    ...responses,
+    '}',
+    '',
+    CLIENT_RUNTIME
+  ].join('\n');
+}
+
+// bun run openapi.ts client          write src/api-client.ts
+// bun run openapi.ts openapi.json    write the document to a file
+if (import.meta.main) {
+  const { app } = await import('./server.js');
+  const document = buildOpenApiDocument(app);
+  const [command = 'client'] = process.argv.slice(2);
+
+  const target = command === 'client'
+    ? path.join(path.dirname(new URL(import.meta.url).pathname), 'src', 'api-client.ts')
+    : path.resolve(command);
+  await writeFile(target, command === 'client' ? generateClient(document) : `${JSON.stringify(document, null, 2)}\n`);
+  console.log(`✅ Wrote ${Object.keys(document.paths).length} paths to ${path.relative(process.cwd(), target)}`);
+  process.exit(0);
+}
+
+export { mount, buildOpenApiDocument, createApiDocsRouter, generateClient };
+export type { OpenApiDocument };
@@ -0,0 +1,289 @@
+import express from 'express';
+import { dbRun, dbGet, dbAll } from './database.js';
+import { defineSchema, organizationSchema } from './schemas.js';
+import { validateBody, validateQuery } from './validation.js';
+import { responds, recordModel, object, arrayOf, string, integer, message } from './responses.js';
+
+// Organization catalogue: canonical charity names with effectiveness estimates
+
+// Minimum similarity for a fuzzy (non-exact) name match
+const MATCH_THRESHOLD = 0.85;
+
+// Words that don't distinguish one organization from another
+const IGNORED_WORDS = new Set(['the', 'inc', 'incorporated', 'ltd', 'llc', 'org', 'organization', 'organisation']);
+
+interface Organization {
+  id: number;
+  name: string;
+  aliases: string[];
+  cause_area: string;
+  animals_per_dollar: number;
+  source: string | null;
+  created_at: string;
+}
+
+// aliases is stored as JSON and always sent as a list
+const organizationModel = recordModel('OrganizationRecord', organizationSchema, {
+  id: integer,
+  aliases: arrayOf(string),
+  created_at: string
+});
+
+const parseOrganization = (row: any): Organization => ({ ...row, aliases: JSON.parse(row.aliases || '[]') });
+
+function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !IGNORED_WORDS.has(word))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function similarity(a: string, b: string) {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+// Find the catalogue entry that best matches a free-text organization name
+function matchOrganization(name: string, catalogue: Organization[]) {
+  const target = normalizeName(name);
+  if (!target) return null;
+
+  let best: { organization: Organization; score: number } | null = null;
+  for (const organization of catalogue) {
+    for (const candidate of [organization.name, ...organization.aliases]) {
+      const score = similarity(target, normalizeName(candidate));
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { organization, score };
+      }
+    }
+  }
+  return best;
+}
+
+async function loadCatalogue() {
+  const rows = await dbAll('SELECT * FROM organizations ORDER BY name');
+  return rows.map(parseOrganization);
+}
+
+// Link donations to their catalogue entries (or unlink them if nothing matches)
+async function linkDonations(donationIds: number[]) {
+  const catalogue = await loadCatalogue();
+
+  for (const donationId of donationIds) {
+    const donation = await dbGet('SELECT id, organization FROM donations WHERE id = ?', [donationId]);
+    if (!donation) continue;
+
+    const match = matchOrganization(donation.organization, catalogue);
+    await dbRun('UPDATE donations SET organization_id = ? WHERE id = ?', [match?.organization.id ?? null, donationId]);
+  }
+}
+
+// Link donations to the catalogue; by default only donations that aren't linked yet
+async function linkDonationsToCatalogue({ relinkAll = false } = {}) {
+  const catalogue = await loadCatalogue();
+  const donations = await dbAll(
+    relinkAll
+      ? 'SELECT id, organization FROM donations'
+      : 'SELECT id, organization FROM donations WHERE organization_id IS NULL'
+  );
+
+  let linked = 0;
+  for (const donation of donations) {
+    const match = matchOrganization(donation.organization, catalogue);
+    if (match || relinkAll) {
+      await dbRun('UPDATE donations SET organization_id = ? WHERE id = ?', [match?.organization.id ?? null, donation.id]);
+    }
+    if (match) linked++;
+  }
+
+  return { checked: donations.length, linked };
+}
+
+// Re-match the donations an edited organization could gain or lose: those linked to it
+// and those not linked to anything. Each distinct name is matched once, and the names
+// whose link changes are applied in one UPDATE.
+async function relinkOrganization(organizationId: number) {
+  const catalogue = await loadCatalogue();
+  const names = await dbAll(
+    'SELECT DISTINCT organization, organization_id FROM donations WHERE organization_id = ? OR organization_id IS NULL',
+    [organizationId]
+  );
+
+  const changed: [string, number | null][] = [];
+  for (const { organization, organization_id } of names) {
+    const matchId = matchOrganization(organization, catalogue)?.organization.id ?? null;
+    if (matchId !== organization_id) changed.push([organization, matchId]);
+  }
+  if (changed.length === 0) return { relinked: 0 };
+
+  const result = await dbRun(
+    `UPDATE donations
+     SET organization_id = CASE organization ${changed.map(() => 'WHEN ? THEN CAST(? AS INTEGER)').join(' ')} ELSE organization_id END
+     WHERE (organization_id = ? OR organization_id IS NULL) AND organization IN (${changed.map(() => '?').join(', ')})`,
+    [...changed.flat(), organizationId, ...changed.map(([organization]) => organization)]
+  );
+  return { relinked: result.changes };
+}
+
+const listQuerySchema = defineSchema([
+  { name: 'q', label: 'Search', type: 'text', max: 200 },
+  { name: 'all', label: 'All', type: 'boolean' }
+]);
+
+// Admin routes for managing the catalogue. Mount behind authenticateToken and an admin check.
+function createOrganizationsRouter() {
+  const router = express.Router();
+
+  router.get('/', validateQuery(listQuerySchema), responds(object({ data: arrayOf(organizationModel) })), async (req: any, res: any) => {
+    try {
+      const catalogue = await loadCatalogue();
+      const search = normalizeName(req.query.q);
+      const organizations = search
+        ? catalogue.filter(organization =>
+            [organization.name, ...organization.aliases].some(name => normalizeName(name).includes(search))
+          )
+        : catalogue;
+
+      res.json({ data: organizations });
+    } catch (error) {
+      console.error('List organizations error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Re-run the matcher over donations (all of them with ?all=true)
+  router.post('/link', validateQuery(listQuerySchema), responds(object({ message: string, checked: integer, linked: integer })), async (req: any, res: any) => {
+    try {
+      const result = await linkDonationsToCatalogue({ relinkAll: req.query.all });
+      res.json({ message: 'Donations linked to catalogue', ...result });
+    } catch (error) {
+      console.error('Link organizations error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/:id', responds(object({ data: organizationModel })), async (req: any, res: any) => {
+    try {
+      const row = await dbGet('SELECT * FROM organizations WHERE id = ?', [req.params.id]);
+      if (!row) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      res.json({ data: parseOrganization(row) });
+    } catch (error) {
+      console.error('Get organization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/', validateBody(organizationSchema), responds(object({ message: string, id: integer, linked: integer })), async (req: any, res: any) => {
+    try {
+      const { name, aliases, cause_area, animals_per_dollar, source } = req.body;
+      const existing = await dbGet('SELECT id FROM organizations WHERE name = ?', [name]);
+      if (existing) {
+        return res.status(400).json({ error: 'Organization already exists' });
+      }
+
+      const result = await dbRun(
+        'INSERT INTO organizations (name, aliases, cause_area, animals_per_dollar, source) VALUES (?, ?, ?, ?, ?)',
+        [name, JSON.stringify(aliases), cause_area, animals_per_dollar, source]
+      );
+      const linkResult = await linkDonationsToCatalogue();
+
+      res.status(201).json({
+        message: 'Organization created successfully',
+        id: result.lastID,
+        linked: linkResult.linked
+      });
+    } catch (error) {
+      console.error('Create organization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.patch('/:id', validateBody(organizationSchema, { partial: true }), responds(object({ message: string, data: organizationModel })), async (req: any, res: any) => {
+    try {
+      const existing = await dbGet('SELECT * FROM organizations WHERE id = ?', [req.params.id]);
+      if (!existing) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      const { name, aliases, cause_area, animals_per_dollar, source } = req.body;
+      if (name !== undefined && await dbGet('SELECT id FROM organizations WHERE name = ? AND id != ?', [name, existing.id])) {
+        return res.status(400).json({ error: 'Organization already exists' });
+      }
+
+      const updated = {
+        name: name ?? existing.name,
+        aliases: aliases !== undefined ? JSON.stringify(aliases) : existing.aliases,
+        cause_area: cause_area ?? existing.cause_area,
+        animals_per_dollar: animals_per_dollar ?? existing.animals_per_dollar,
+        source: source ?? existing.source
+      };
+
+      await dbRun(
+        'UPDATE organizations SET name = ?, aliases = ?, cause_area = ?, animals_per_dollar = ?, source = ? WHERE id = ?',
+        [updated.name, updated.aliases, updated.cause_area, updated.animals_per_dollar, updated.source, existing.id]
+      );
+      if (name !== undefined || aliases !== undefined) {
+        await relinkOrganization(existing.id);
+      }
+
+      const row = await dbGet('SELECT * FROM organizations WHERE id = ?', [existing.id]);
+      res.json({
+        message: 'Organization updated successfully',
+        data: parseOrganization(row)
+      });
+    } catch (error) {
+      console.error('Update organization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', responds(message), async (req: any, res: any) => {
+    try {
+      const existing = await dbGet('SELECT id FROM organizations WHERE id = ?', [req.params.id]);
+      if (!existing) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      await dbRun('UPDATE donations SET organization_id = NULL WHERE organization_id = ?', [existing.id]);
+      await dbRun('DELETE FROM organizations WHERE id = ?', [existing.id]);
+
+      res.json({ message: 'Organization deleted successfully' });
+    } catch (error) {
+      console.error('Delete organization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export {
+  normalizeName,
+  matchOrganization,
+  loadCatalogue,
+  linkDonations,
+  linkDonationsToCatalogue,
+  relinkOrganization,
+  createOrganizationsRouter
+};
+export type { Organization };
@@ -0,0 +1,305 @@
+import { describe, test, expect, beforeAll, afterAll, mock } from 'bun:test';
+import { newDb, DataType } from 'pg-mem';
+import pg from 'pg';
+import sqlite3 from 'sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The PostgreSQL paths: placeholder numbering, the dialect helpers in database.ts, the
+// migrations, the SQL repositories and the SQLite-to-PostgreSQL copy command. Runs against
+// TEST_DATABASE_URL when it's set, which must be a scratch database (its public schema is
+// dropped first), and otherwise against pg-mem, an in-memory stand-in.
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+const usingPgMem = !testDatabaseUrl;
+
+const toSqlDate = (date: Date) => {
+  const text = date.toISOString();
+  return text.endsWith('T00:00:00.000Z') ? text.slice(0, 10) : text.slice(0, 19).replace('T', ' ');
+};
+
+// pg-mem's Pool, adjusted to behave like a PostgreSQL server where the code relies on it.
+// pg-mem skips pg's type parsers and returns Date objects, so dates and timestamps are
+// turned into the strings postgres.ts's parsers produce (midnight reads as a date). Its
+// interval parser rejects a leading '+' that PostgreSQL accepts, and CREATE TABLE IF NOT
+// EXISTS fails on a table that exists, so those statements are skipped. Functions it lacks
+// are registered: to_char for monthSql, and no-op sequence functions for the copy command
+// (pg-mem's SERIAL columns have no named sequence, so the sequence check is skipped).
+// ROLLBACK does nothing in pg-mem and a dropped table's indexes outlive it, so rollbacks
+// are only checked on a real server.
+function createPgMemPool() {
+  const memory = newDb();
+  memory.public.registerFunction({
+    name: 'to_char',
+    args: [DataType.date, DataType.text],
+    returns: DataType.text,
+    implementation: (date: Date, format: string) => {
+      if (format !== 'YYYY-MM') throw new Error(`to_char stand-in only supports YYYY-MM, not ${format}`);
+      return date.toISOString().slice(0, 7);
+    }
+  });
+  memory.public.registerFunction({
+    name: 'pg_get_serial_sequence',
+    args: [DataType.text, DataType.text],
+    returns: DataType.text,
+    implementation: (table: string, column: string) => `${table}_${column}_seq`
+  });
+  memory.public.registerFunction({
+    name: 'setval',
+    args: [DataType.text, DataType.integer, DataType.bool],
+    returns: DataType.integer,
+    implementation: (sequence: string, value: number) => value
+  });
+
+  const { Pool } = memory.adapters.createPg();
+
+  const adapt = (target: any) => {
+    const query = target.query.bind(target);
+    target.query = async (text: string, params: any[] = []) => {
+      const created = text.match(/^\s*CREATE TABLE IF NOT EXISTS (\w+)/i);
+      if (created && memory.public.getTable(created[1]!, true)) {
+        return { rows: [], rowCount: 0 };
+      }
+
+      const result = await query(text, params.map(param =>
+        typeof param === 'string' && /^\+\d/.test(param) ? param.slice(1) : param
+      ));
+      result.rows = result.rows.map((row: any) => Object.fromEntries(
+        Object.entries(row).map(([column, value]) => [column, value instanceof Date ? toSqlDate(value) : value])
+      ));
+      return result;
+    };
+    return target;
+  };
+
+  return class PgMemPool extends Pool {
+    constructor() {
+      super();
+      adapt(this);
+    }
+
+    async connect() {
+      return adapt(await super.connect());
+    }
+  };
+}
+
+if (usingPgMem) {
+  mock.module('pg', () => ({ default: { ...pg, Pool: createPgMemPool() } }));
+}
+process.env.DATABASE_URL = testDatabaseUrl || 'postgres://test@localhost/animal_impact_test';
+
+// Loaded once DATABASE_URL and the pg stand-in are in place
+const database = await import('./database.js');
+const { numberPlaceholders } = await import('./postgres.js');
+const { migrate, rollback, getMigrationStatus } = await import('./migrate.js');
+const { copyToPostgres } = await import('./copy-to-postgres.js');
+const { createSqliteRecordRepository } = await import('./sqlite-repositories.js');
+const { getTimeseries } = await import('./analytics.js');
+const { dbRun, dbGet, dbAll, withTransaction, tableColumns, ddl, nowOffsetSql, monthSql } = database;
+
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'animal-impact-postgres-'));
+
+beforeAll(async () => {
+  if (!usingPgMem) {
+    await dbRun('DROP SCHEMA public CASCADE');
+    await dbRun('CREATE SCHEMA public');
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+describe('numberPlaceholders', () => {
+  test('numbers ? placeholders in order', () => {
+    expect(numberPlaceholders('SELECT * FROM t WHERE a = ? AND b IN (?, ?)')).toBe('SELECT * FROM t WHERE a = $1 AND b IN ($2, $3)');
+  });
+
+  test('leaves question marks in strings and quoted identifiers alone', () => {
+    expect(numberPlaceholders(`SELECT 'who?' AS "what?" FROM t WHERE a = ?`)).toBe(`SELECT 'who?' AS "what?" FROM t WHERE a = $1`);
+  });
+});
+
+describe('ddl', () => {
+  test('rewrites SQLite column types for PostgreSQL', () => {
+    expect(database.dialect).toBe('postgres');
+    expect(ddl('id INTEGER PRIMARY KEY AUTOINCREMENT, at DATETIME, rate REAL')).toBe(
+      'id SERIAL PRIMARY KEY, at TIMESTAMP, rate DOUBLE PRECISION'
+    );
+  });
+});
+
+// First, while the database is still empty
+describe('copy-to-postgres', () => {
+  const sourceFile = path.join(scratchDir, 'source.db');
+
+  beforeAll(async () => {
+    const source = new sqlite3.Database(sourceFile);
+    const run = (sql: string) =>
+      new Promise<void>((resolve, reject) => source.run(sql, err => (err ? reject(err) : resolve())));
+
+    await run(`CREATE TABLE users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT UNIQUE NOT NULL, name TEXT NOT NULL,
+      password TEXT NOT NULL, created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+    // A column and a table PostgreSQL doesn't have, which are skipped
+    await run(`CREATE TABLE donations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL REFERENCES users(id),
+      organization TEXT NOT NULL, amount REAL NOT NULL, date DATE NOT NULL, notes TEXT, legacy_flag INTEGER
+    )`);
+    await run('CREATE TABLE legacy_notes (id INTEGER PRIMARY KEY, body TEXT)');
+    await run('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL)');
+
+    // High ids, since pg-mem's SERIAL columns would hand out low ones again
+    await run(`INSERT INTO users (id, email, name, password) VALUES (40, 'ada@example.com', 'Ada', 'hash'), (90, 'bo@example.com', 'Bo', 'hash')`);
+    await run(`INSERT INTO donations (id, user_id, organization, amount, date, notes, legacy_flag) VALUES
+      (30, 40, 'Humane Society', 25.5, '2025-01-15', 'First', 1),
+      (80, 90, 'Animal Sanctuary Fund', 100, '2025-02-01', NULL, 0)`);
+    await run(`INSERT INTO legacy_notes (id, body) VALUES (1, 'old')`);
+    await new Promise(resolve => source.close(resolve));
+  });
+
+  test('copies every table both databases have, keeping ids', async () => {
+    const counts = await copyToPostgres(sourceFile);
+    expect(counts).toEqual({ users: 2, donations: 2, legacy_notes: 0 });
+
+    expect(await dbAll('SELECT id, email, display_currency FROM users ORDER BY id')).toEqual([
+      { id: 40, email: 'ada@example.com', display_currency: 'USD' },
+      { id: 90, email: 'bo@example.com', display_currency: 'USD' }
+    ]);
+    expect(await dbAll('SELECT id, user_id, amount, date, notes FROM donations ORDER BY id')).toEqual([
+      { id: 30, user_id: 40, amount: 25.5, date: '2025-01-15', notes: 'First' },
+      { id: 80, user_id: 90, amount: 100, date: '2025-02-01', notes: null }
+    ]);
+  });
+
+  test.skipIf(usingPgMem)('moves id sequences past the copied rows', async () => {
+    const result = await dbRun(`INSERT INTO users (email, name, password) VALUES ('cy@example.com', 'Cy', 'hash')`);
+    expect(result.lastID).toBe(91);
+  });
+
+  test('refuses to copy into a database that has rows', async () => {
+    await expect(copyToPostgres(sourceFile)).rejects.toThrow('already has rows');
+  });
+});
+
+describe('migrations', () => {
+  test('the copy applied every migration', async () => {
+    expect((await getMigrationStatus()).filter(migration => !migration.appliedAt)).toEqual([]);
+    expect(await tableColumns('api_keys')).toContain('key_hash');
+  });
+
+  test.skipIf(usingPgMem)('roll back and apply again', async () => {
+    expect(await tableColumns('api_keys')).toContain('key_hash');
+
+    await rollback(1);
+    expect(await tableColumns('api_keys')).toEqual([]);
+
+    const applied = await migrate();
+    expect(applied.map(migration => migration.name)).toEqual(['api-keys']);
+    expect(await tableColumns('api_keys')).toContain('key_hash');
+  });
+});
+
+describe('queries', () => {
+  let userId: number;
+
+  beforeAll(async () => {
+    const result = await dbRun(`INSERT INTO users (email, name, password) VALUES (?, ?, 'hash')`, ['queries@example.com', 'Who?']);
+    userId = result.lastID;
+  });
+
+  test('run reports the new id and the rows changed', async () => {
+    expect(userId).toBeGreaterThan(0);
+    expect(await dbGet(`SELECT name FROM users WHERE id = ? AND name != 'who?'`, [userId])).toEqual({ name: 'Who?' });
+
+    const result = await dbRun('UPDATE users SET name = ? WHERE id = ?', ['Queries', userId]);
+    expect(result.changes).toBe(1);
+  });
+
+  const insertDonation = (organization: string) =>
+    dbRun(`INSERT INTO donations (user_id, organization, amount, date) VALUES (?, ?, 1, '2025-01-01')`, [userId, organization]);
+  const donationCount = async (organization: string) =>
+    (await dbGet('SELECT COUNT(*) as count FROM donations WHERE organization = ?', [organization])).count;
+
+  test('withTransaction commits and returns the result', async () => {
+    const id = await withTransaction(async () => (await insertDonation('Committed')).lastID);
+    expect(await dbGet('SELECT organization FROM donations WHERE id = ?', [id])).toEqual({ organization: 'Committed' });
+  });
+
+  test.skipIf(usingPgMem)('withTransaction rolls back on error, including a transaction it joined', async () => {
+    const insert = insertDonation;
+    const countOf = donationCount;
+
+    await expect(withTransaction(async () => {
+      await insert('Rolled back');
+      throw new Error('stop');
+    })).rejects.toThrow('stop');
+    expect(await countOf('Rolled back')).toBe(0);
+
+    await expect(withTransaction(async () => {
+      await insert('Outer');
+      await withTransaction(async () => {
+        await insert('Inner');
+        throw new Error('inner failed');
+      });
+    })).rejects.toThrow('inner failed');
+    expect(await countOf('Outer')).toBe(0);
+    expect(await countOf('Inner')).toBe(0);
+  });
+
+  test('nowOffsetSql moves the current time either way', async () => {
+    for (const [token, offset] of [['live', '+1 hour'], ['expired', '-1 hour']]) {
+      await dbRun(
+        `INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES (?, 'password_reset', ?, ${nowOffsetSql('?')})`,
+        [userId, token, offset]
+      );
+    }
+
+    const live = await dbAll(
+      'SELECT token_hash FROM user_tokens WHERE user_id = ? AND expires_at > CURRENT_TIMESTAMP',
+      [userId]
+    );
+    expect(live).toEqual([{ token_hash: 'live' }]);
+    expect(await dbGet(`SELECT COUNT(*) as count FROM user_tokens WHERE expires_at > ${nowOffsetSql("'-2 hours'")}`)).toEqual({ count: 2 });
+  });
+
+  test('monthSql groups dates by year and month', async () => {
+    for (const date of ['2024-12-31', '2025-03-02', '2025-03-20']) {
+      await dbRun(`INSERT INTO donations (user_id, organization, amount, date) VALUES (?, 'Monthly', 5, ?)`, [userId, date]);
+    }
+
+    const months = await dbAll(
+      `SELECT DISTINCT ${monthSql('date')} as month FROM donations WHERE user_id = ? AND organization = 'Monthly' ORDER BY month`,
+      [userId]
+    );
+    expect(months.map(row => row.month)).toEqual(['2024-12', '2025-03']);
+  });
+
+  test('the SQL repositories filter, sort and page', async () => {
+    const donations = createSqliteRecordRepository('donations', 'date');
+    const { rows, total } = await donations.list(userId, {
+      from: '2025-01-01',
+      to: '2025-12-31',
+      sort: 'date',
+      order: 'desc',
+      limit: 2,
+      offset: 0
+    });
+
+    expect(total).toBe(3);
+    expect(rows.map(row => [row.organization, row.date])).toEqual([['Monthly', '2025-03-20'], ['Monthly', '2025-03-02']]);
+  });
+
+  // pg-mem has no generate_series, and its date arithmetic is unreliable
+  test.skipIf(usingPgMem)('analytics fills empty buckets with zero', async () => {
+    const buckets = await getTimeseries(userId, 'donations', 'month', '2025-01-01', '2025-04-30');
+    expect(buckets.map(bucket => [bucket.period, Number(bucket.value)])).toEqual([
+      ['2025-01-01', 1],
+      ['2025-02-01', 0],
+      ['2025-03-01', 10],
+      ['2025-04-01', 0]
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import pg from 'pg';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// PostgreSQL driver behind the query helpers in database.ts. Queries are written for
+// SQLite (? placeholders, lastID/changes results), so they're adapted here.
+
+// Hand back DATE and TIMESTAMP values as the strings SQLite stores, and counts and
+// sums (bigint and numeric, which pg returns as strings) as numbers
+pg.types.setTypeParser(pg.types.builtins.DATE, (value: string) => value);
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMP, (value: string) => value.slice(0, 19));
+pg.types.setTypeParser(pg.types.builtins.INT8, (value: string) => parseInt(value));
+pg.types.setTypeParser(pg.types.builtins.NUMERIC, (value: string) => parseFloat(value));
+
+// Rewrite ? placeholders as $1, $2, ..., leaving quoted strings and identifiers alone
+function numberPlaceholders(sql: string) {
+  let index = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+function createPostgresDatabase(connectionString: string) {
+  // Sessions run in UTC so CURRENT_TIMESTAMP matches what SQLite records
+  const pool = new pg.Pool({ connectionString, options: '-c timezone=UTC' });
+  // The client of the transaction the current async call chain is inside, if any
+  const transactionClient = new AsyncLocalStorage<pg.PoolClient>();
+
+  const query = (sql: string, params: any[]) =>
+    (transactionClient.getStore() ?? pool).query(numberPlaceholders(sql), params);
+
+  return {
+    // INSERTs get RETURNING * so the new row's id can stand in for SQLite's lastID
+    async run(sql: string, params: any[]) {
+      const returning = /^\s*INSERT\b/i.test(sql) && !/\bRETURNING\b/i.test(sql);
+      const result = await query(returning ? `${sql} RETURNING *` : sql, params);
+      return { lastID: result.rows.at(-1)?.id, changes: result.rowCount ?? 0 };
+    },
+
+    get: async (sql: string, params: any[]) => (await query(sql, params)).rows[0],
+
+    all: async (sql: string, params: any[]) => (await query(sql, params)).rows,
+
+    // Statements issued anywhere inside fn run on one client within BEGIN/COMMIT.
+    // A transaction started inside another one joins it.
+    async transaction<T>(fn: () => Promise<T>) {
+      if (transactionClient.getStore()) return fn();
+
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await transactionClient.run(client, fn);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+
+    async columns(table: string) {
+      const rows = await this.all(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = ? ORDER BY ordinal_position`,
+        [table]
+      );
+      return rows.map(row => row.column_name as string);
+    }
+  };
+}
+
+export { numberPlaceholders, createPostgresDatabase };
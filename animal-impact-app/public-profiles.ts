@@ -0,0 +1,261 @@
+import express from 'express';
+import crypto from 'crypto';
+import { dbRun, dbGet } from './database.js';
+import { getUserSummary } from './summary.js';
+import { achievementModel, getAchievements } from './achievements.js';
+import { ACHIEVEMENT_RULES } from './achievement-rules.js';
+import { PROFILE_SECTIONS, publicProfileSchema } from './schemas.js';
+import { validateBody } from './validation.js';
+import {
+  responds,
+  model,
+  recordModel,
+  object,
+  arrayOf,
+  string,
+  number,
+  integer,
+  nullable,
+  enumOf,
+  message
+} from './responses.js';
+
+// Opt-in public profiles: a shareable slug exposing only the aggregates the user picks.
+// Built from getUserSummary alone, so individual records (and the names of people in
+// vegan_conversions) never reach the public endpoint.
+const generateSlug = () => crypto.randomBytes(5).toString('hex');
+
+interface PublicProfile {
+  user_id: number;
+  slug: string;
+  display_name: string;
+  sections: string[];
+  created_at: string;
+}
+
+// A slug is generated when none is given, and sections are stored as JSON
+const publicProfileModel = recordModel('PublicProfileRecord', publicProfileSchema, {
+  user_id: integer,
+  slug: string,
+  sections: arrayOf(enumOf(PROFILE_SECTIONS)),
+  created_at: string
+});
+
+// getPublicProfile(); stats and impact only have the shown sections
+const publicProfileViewModel = model('PublicProfileView', object({
+  name: string,
+  sections: arrayOf(enumOf(PROFILE_SECTIONS)),
+  stats: object({
+    totalDonations: number,
+    currency: string,
+    conversionCount: integer,
+    mediaCount: integer,
+    totalReach: number,
+    campaignCount: integer
+  }, ['totalDonations', 'currency', 'conversionCount', 'mediaCount', 'totalReach', 'campaignCount']),
+  impact: nullable(object({
+    modelVersion: string,
+    total: number,
+    breakdown: object(
+      { conversions: number, donations: number, media: number, campaigns: number },
+      ['conversions', 'donations', 'media', 'campaigns']
+    )
+  })),
+  achievements: nullable(arrayOf(achievementModel))
+}));
+
+const profileSaved = object({ message: string, data: publicProfileModel });
+
+const parseProfile = (row: any): PublicProfile => ({ ...row, sections: JSON.parse(row.sections || '[]') });
+
+const findProfile = async (userId: number) => {
+  const row = await dbGet('SELECT * FROM public_profiles WHERE user_id = ?', [userId]);
+  return row ? parseProfile(row) : null;
+};
+
+async function slugTaken(slug: string, userId: number) {
+  return Boolean(await dbGet('SELECT 1 FROM public_profiles WHERE slug = ? AND user_id != ?', [slug, userId]));
+}
+
+const achievementSections = new Map(ACHIEVEMENT_RULES.map(rule => [rule.id, rule.section]));
+
+// The public view of a profile: only the chosen sections. Impact and badges count only
+// the activity types that are also shown, so neither gives away a hidden section.
+async function getPublicProfile(slug: string) {
+  const row = await dbGet(
+    `SELECT p.*, u.name, u.display_currency FROM public_profiles p JOIN users u ON u.id = p.user_id
+     WHERE p.slug = ? AND u.disabled_at IS NULL`,
+    [slug]
+  );
+  if (!row) return null;
+
+  const profile = parseProfile(row);
+  const { stats, impact } = await getUserSummary(profile.user_id, row.display_currency);
+  const shows = (section: string) => profile.sections.includes(section);
+  const shownImpact = Object.entries(impact.breakdown).filter(([type]) => shows(type));
+
+  return {
+    name: profile.display_name || row.name,
+    sections: profile.sections,
+    stats: {
+      ...(shows('donations') && { totalDonations: stats.totalDonations, currency: stats.currency }),
+      ...(shows('conversions') && { conversionCount: stats.conversionCount }),
+      ...(shows('media') && { mediaCount: stats.mediaCount, totalReach: stats.totalReach }),
+      ...(shows('campaigns') && { campaignCount: stats.campaignCount })
+    },
+    impact: shows('impact')
+      ? {
+          modelVersion: impact.modelVersion,
+          total: shownImpact.reduce((sum, [, value]) => sum + value, 0),
+          breakdown: Object.fromEntries(shownImpact)
+        }
+      : null,
+    achievements: shows('achievements')
+      ? (await getAchievements(profile.user_id)).filter(
+          achievement => achievement.unlockedAt && shows(achievementSections.get(achievement.id)!)
+        )
+      : null
+  };
+}
+
+// Manage your own profile. Mount at /api/me/public-profile behind authenticateToken.
+function createPublicProfileSettingsRouter() {
+  const router = express.Router();
+
+  router.get('/', responds(object({ data: nullable(publicProfileModel) })), async (req: any, res: any) => {
+    try {
+      res.json({ data: await findProfile(req.user.userId) });
+    } catch (error) {
+      console.error('Get public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Opt in
+  router.post('/', validateBody(publicProfileSchema), responds(profileSaved), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      if (await findProfile(userId)) {
+        return res.status(400).json({ error: 'Public profile already exists' });
+      }
+
+      const { slug, display_name, sections } = req.body;
+      if (slug && await slugTaken(slug, userId)) {
+        return res.status(400).json({ error: 'That slug is already taken' });
+      }
+
+      await dbRun(
+        'INSERT INTO public_profiles (user_id, slug, display_name, sections) VALUES (?, ?, ?, ?)',
+        [userId, slug || generateSlug(), display_name, JSON.stringify(sections)]
+      );
+
+      res.status(201).json({
+        message: 'Public profile created successfully',
+        data: await findProfile(userId)
+      });
+    } catch (error) {
+      console.error('Create public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.patch('/', validateBody(publicProfileSchema, { partial: true }), responds(profileSaved), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      const existing = await findProfile(userId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Public profile not found' });
+      }
+
+      const { slug, display_name, sections } = req.body;
+      if (slug && await slugTaken(slug, userId)) {
+        return res.status(400).json({ error: 'That slug is already taken' });
+      }
+
+      await dbRun(
+        'UPDATE public_profiles SET slug = ?, display_name = ?, sections = ? WHERE user_id = ?',
+        [
+          slug || existing.slug,
+          display_name ?? existing.display_name,
+          JSON.stringify(sections ?? existing.sections),
+          userId
+        ]
+      );
+
+      res.json({
+        message: 'Public profile updated successfully',
+        data: await findProfile(userId)
+      });
+    } catch (error) {
+      console.error('Update public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Replace the slug with a new random one; links using the old slug stop working
+  router.post('/rotate', responds(profileSaved), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      if (!await findProfile(userId)) {
+        return res.status(404).json({ error: 'Public profile not found' });
+      }
+
+      await dbRun('UPDATE public_profiles SET slug = ? WHERE user_id = ?', [generateSlug(), userId]);
+
+      res.json({
+        message: 'Public profile link changed successfully',
+        data: await findProfile(userId)
+      });
+    } catch (error) {
+      console.error('Rotate public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Opt out
+  router.delete('/', responds(message), async (req: any, res: any) => {
+    try {
+      const userId = req.user.userId;
+      if (!await findProfile(userId)) {
+        return res.status(404).json({ error: 'Public profile not found' });
+      }
+
+      await dbRun('DELETE FROM public_profiles WHERE user_id = ?', [userId]);
+
+      res.json({ message: 'Public profile removed successfully' });
+    } catch (error) {
+      console.error('Delete public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+// Unauthenticated read-only access by slug. Mount at /api/public.
+function createPublicRouter() {
+  const router = express.Router();
+
+  router.get('/:slug', responds(object({ data: publicProfileViewModel })), async (req: any, res: any) => {
+    try {
+      const profile = await getPublicProfile(req.params.slug);
+      if (!profile) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      res.json({ data: profile });
+    } catch (error) {
+      console.error('Public profile error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export {
+  getPublicProfile,
+  createPublicProfileSettingsRouter,
+  createPublicRouter
+};
+export type { PublicProfile };
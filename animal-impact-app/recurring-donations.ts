@@ -0,0 +1,229 @@
+import express from 'express';
+import { dbRun, dbGet, dbAll, withTransaction } from './database.js';
+import { donationsResource, currencyErrors } from './activities.js';
+import { recurringDonationSchema } from './schemas.js';
+import { emitRecordsCreated } from './activity-events.js';
+import { recordColumns } from './activity-routes.js';
+import { responds, recordModel, object, string, nullable, enumOf } from './responses.js';
+import type { ActivityResource } from './activity-routes.js';
+
+// Recurring donation schedules and the job that turns them into donations
+// How often the scheduler looks for due donations
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Safety limit on occurrences walked per schedule
+const MAX_OCCURRENCES = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEDULE_STATUSES = ['active', 'paused', 'cancelled'] as const;
+
+interface RecurringDonation {
+  id: number;
+  user_id: number;
+  organization: string;
+  amount: number;
+  currency: string;
+  cadence: 'weekly' | 'monthly' | 'yearly';
+  start_date: string;
+  end_date: string | null;
+  day_of_month: number | null;
+  notes: string | null;
+  status: (typeof SCHEDULE_STATUSES)[number];
+  generated_through: string | null;
+}
+
+const recurringDonationsResource: ActivityResource = {
+  table: 'recurring_donations',
+  dateColumn: 'start_date',
+  singular: 'Recurring donation',
+  createdMessage: 'Recurring donation scheduled successfully',
+  fields: recurringDonationSchema,
+  record: recordModel('RecurringDonationRecord', recurringDonationSchema, {
+    ...recordColumns,
+    status: enumOf(SCHEDULE_STATUSES),
+    // The last date donations have been recorded for
+    generated_through: nullable(string)
+  }),
+  validate: record =>
+    record.end_date && record.end_date < record.start_date
+      ? { end_date: 'End date must be on or after start date' }
+      : currencyErrors(record.currency),
+  // Catch up straight away so a schedule starting in the past fills in its history. The
+  // schedule is saved by then, so a failure here is left for the scheduler to retry rather
+  // than reported as a failed save (which invites a duplicate schedule).
+  afterSave: async ids => {
+    for (const id of ids) {
+      try {
+        const schedule = await dbGet('SELECT * FROM recurring_donations WHERE id = ?', [id]);
+        if (schedule) await materializeSchedule(schedule);
+      } catch (error) {
+        console.error(`Recurring donation ${id} catch-up error (the scheduler will retry):`, error);
+      }
+    }
+  }
+};
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().split('T')[0]!;
+const today = () => formatDate(new Date());
+const yesterday = () => formatDate(new Date(Date.now() - DAY_MS));
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// The nth occurrence of a schedule. Monthly and yearly schedules fall on day_of_month
+// (or the start date's day), clamped to the end of short months.
+function occurrenceDate(schedule: RecurringDonation, index: number) {
+  const start = toDate(schedule.start_date);
+  if (schedule.cadence === 'weekly') {
+    return formatDate(new Date(start.getTime() + index * 7 * DAY_MS));
+  }
+
+  const day = schedule.day_of_month ?? start.getUTCDate();
+  const monthOffset = schedule.cadence === 'monthly' ? index : index * 12;
+  const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + monthOffset) / 12);
+  const month = (start.getUTCMonth() + monthOffset) % 12;
+  return formatDate(new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month)))));
+}
+
+// Occurrence dates after `after` (exclusive) up to `until` (inclusive)
+function dueDates(schedule: RecurringDonation, after: string | null, until: string) {
+  const dates: string[] = [];
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    const date = occurrenceDate(schedule, index);
+    if (date > until) break;
+    if (date >= schedule.start_date && (!after || date > after)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// Create the donations a schedule owes up to today. Safe to run repeatedly:
+// generated_through tracks progress and a unique index rejects repeats.
+async function materializeSchedule(schedule: RecurringDonation, asOf = today()) {
+  if (schedule.status !== 'active') return 0;
+
+  const until = schedule.end_date && schedule.end_date < asOf ? schedule.end_date : asOf;
+  if (until < schedule.start_date) return 0;
+
+  const dates = dueDates(schedule, schedule.generated_through, until);
+  const notes = schedule.notes || `${schedule.cadence.charAt(0).toUpperCase()}${schedule.cadence.slice(1)} donation`;
+
+  const ids = await withTransaction(async () => {
+    const insertedIds: number[] = [];
+    for (const date of dates) {
+      const result = await dbRun(
+        `INSERT INTO donations (user_id, organization, amount, currency, date, notes, recurring_donation_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING`,
+        [schedule.user_id, schedule.organization, schedule.amount, schedule.currency, date, notes, schedule.id]
+      );
+      if (result.changes > 0) insertedIds.push(result.lastID);
+    }
+    await dbRun('UPDATE recurring_donations SET generated_through = ? WHERE id = ?', [until, schedule.id]);
+    return insertedIds;
+  });
+
+  await donationsResource.afterSave?.(ids);
+  await emitRecordsCreated({ userId: schedule.user_id, table: 'donations', ids });
+  return ids.length;
+}
+
+async function runRecurringDonations() {
+  const schedules = await dbAll("SELECT * FROM recurring_donations WHERE status = 'active'");
+  let created = 0;
+  for (const schedule of schedules) {
+    created += await materializeSchedule(schedule);
+  }
+  return created;
+}
+
+// Run now (catching up on anything missed while the server was down) and then hourly
+function startRecurringDonationScheduler() {
+  const run = async () => {
+    try {
+      const created = await runRecurringDonations();
+      if (created > 0) {
+        console.log(`🔁 Created ${created} donations from recurring schedules`);
+      }
+    } catch (error) {
+      console.error('Recurring donation scheduler error:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
+// Pause, resume and cancel. Mount behind authenticateToken alongside the CRUD router.
+function createRecurringDonationActionsRouter() {
+  const router = express.Router();
+
+  const findOwned = (id: any, userId: number): Promise<RecurringDonation | undefined> =>
+    dbGet('SELECT * FROM recurring_donations WHERE id = ? AND user_id = ?', [id, userId]);
+
+  const action = (
+    name: string,
+    allowedFrom: string[],
+    apply: (schedule: RecurringDonation) => Promise<void>
+  ) => async (req: any, res: any) => {
+    try {
+      const schedule = await findOwned(req.params.id, req.user.userId);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Recurring donation not found' });
+      }
+      if (!allowedFrom.includes(schedule.status)) {
+        return res.status(400).json({ error: `Only ${allowedFrom.join(' or ')} schedules can be ${name}` });
+      }
+
+      await apply(schedule);
+
+      res.json({
+        message: `Recurring donation ${name} successfully`,
+        data: await findOwned(schedule.id, req.user.userId)
+      });
+    } catch (error) {
+      console.error(`Recurring donation ${name} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+  const respondsWithSchedule = responds(object({ message: string, data: recurringDonationsResource.record }));
+
+  // Donations already due are recorded before the schedule stops
+  router.post('/:id/pause', respondsWithSchedule, action('paused', ['active'], async schedule => {
+    await materializeSchedule(schedule);
+    await dbRun("UPDATE recurring_donations SET status = 'paused' WHERE id = ?", [schedule.id]);
+  }));
+
+  // Periods that fell due while paused are skipped, not back-filled; today's is still made
+  router.post('/:id/resume', respondsWithSchedule, action('resumed', ['paused'], async schedule => {
+    const skipThrough = schedule.generated_through && schedule.generated_through > yesterday()
+      ? schedule.generated_through
+      : yesterday();
+    await dbRun(
+      "UPDATE recurring_donations SET status = 'active', generated_through = ? WHERE id = ?",
+      [skipThrough, schedule.id]
+    );
+    await materializeSchedule({ ...schedule, status: 'active', generated_through: skipThrough });
+  }));
+
+  router.post('/:id/cancel', respondsWithSchedule, action('cancelled', ['active', 'paused'], async schedule => {
+    await materializeSchedule(schedule);
+    await dbRun("UPDATE recurring_donations SET status = 'cancelled' WHERE id = ?", [schedule.id]);
+  }));
+
+  return router;
+}
+
+export {
+  recurringDonationsResource,
+  occurrenceDate,
+  dueDates,
+  materializeSchedule,
+  runRecurringDonations,
+  startRecurringDonationScheduler,
+  createRecurringDonationActionsRouter
+};
+export type { RecurringDonation };
@@ -0,0 +1,206 @@
+import express from 'express';
+import { createRequire } from 'module';
+import PDFDocument from 'pdfkit';
+import SVGtoPDF from 'svg-to-pdfkit';
+import { Resvg } from '@resvg/resvg-js';
+import { dbGet, dbAll } from './database.js';
+import { getUserSummary } from './summary.js';
+import { BASE_CURRENCY, convertedAmountSql } from './exchange-rates.js';
+import { defineSchema } from './schemas.js';
+import { sendValidationError, validateQuery } from './validation.js';
+import { respondsWithFile } from './responses.js';
+
+// Annual impact report, laid out once as SVG and rendered locally to PNG or PDF
+const REPORT_WIDTH = 1080;
+const REPORT_HEIGHT = 1350;
+
+// PDF page in points, with the same proportions as the SVG
+const PDF_WIDTH = 612;
+const PDF_HEIGHT = 765;
+
+// Organizations listed by name; the rest are grouped as "Other"
+const MAX_ORGANIZATIONS = 8;
+
+const FIRST_REPORT_YEAR = 2000;
+
+const BRAND_COLOR = '#16a34a';
+const FONT_FAMILY = 'DejaVu Sans';
+
+// Bundled fonts, so rendering doesn't depend on what's installed on the server
+const require = createRequire(import.meta.url);
+const FONT_FILES = {
+  regular: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'),
+  bold: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf')
+};
+
+type AnnualReport = Awaited<ReturnType<typeof getAnnualReport>>;
+
+async function getAnnualReport(userId: number, year: number) {
+  const user = await dbGet('SELECT name, display_currency FROM users WHERE id = ?', [userId]);
+  const currency = user?.display_currency || BASE_CURRENCY;
+  const period = { from: `${year}-01-01`, to: `${year}-12-31` };
+
+  const { stats, impact } = await getUserSummary(userId, currency, period);
+  const organizations = await dbAll(
+    `SELECT COALESCE(o.name, d.organization) as organization, SUM(${convertedAmountSql(currency, 'd')}) as total
+     FROM donations d LEFT JOIN organizations o ON o.id = d.organization_id
+     WHERE d.user_id = ? AND d.date BETWEEN ? AND ?
+     GROUP BY 1 ORDER BY total DESC`,
+    [userId, period.from, period.to]
+  );
+
+  return {
+    year,
+    name: user?.name || '',
+    stats,
+    impact,
+    organizations: organizations as { organization: string; total: number }[],
+    generatedAt: new Date().toISOString().split('T')[0]!
+  };
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (value: string, length: number) => (value.length > length ? `${value.slice(0, length - 1)}…` : value);
+
+function renderReportSvg(report: AnnualReport) {
+  const { stats, impact } = report;
+  const money = (amount: number, fractionDigits = 2) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: stats.currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    }).format(amount);
+  const count = (value: number) => value.toLocaleString('en-US');
+
+  const text = (x: number, y: number, content: string, size: number, options: { bold?: boolean; color?: string; anchor?: string } = {}) =>
+    `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}"${options.bold ? ' font-weight="bold"' : ''} fill="${options.color || '#111827'}" text-anchor="${options.anchor || 'start'}">${escapeXml(content)}</text>`;
+
+  const tiles = [
+    { label: 'Donated', value: money(stats.totalDonations), detail: `${report.organizations.length} organizations` },
+    { label: 'Vegan conversions', value: count(stats.conversionCount), detail: `≈ ${count(impact.breakdown.conversions)} animals` },
+    { label: 'People reached', value: count(stats.totalReach), detail: `${count(stats.mediaCount)} posts shared` },
+    { label: 'Campaigns', value: count(stats.campaignCount), detail: `≈ ${count(impact.breakdown.campaigns)} animals` }
+  ];
+  const tileSvg = tiles.map((tile, index) => {
+    const x = 60 + (index % 2) * 490;
+    const y = 520 + Math.floor(index / 2) * 180;
+    return [
+      `<rect x="${x}" y="${y}" width="470" height="160" rx="16" fill="#f3f4f6"/>`,
+      text(x + 30, y + 50, tile.label, 26, { color: '#4b5563' }),
+      text(x + 30, y + 105, tile.value, 44, { bold: true }),
+      text(x + 30, y + 140, tile.detail, 22, { color: '#6b7280' })
+    ].join('');
+  });
+
+  // Donations by organization, as horizontal bars
+  const listed = report.organizations.slice(0, MAX_ORGANIZATIONS);
+  const others = report.organizations.slice(MAX_ORGANIZATIONS);
+  const rows = others.length > 0
+    ? [...listed, { organization: `${others.length} other organizations`, total: others.reduce((sum, row) => sum + row.total, 0) }]
+    : listed;
+  const largest = Math.max(...rows.map(row => row.total), 1);
+  const rowSvg = rows.map((row, index) => {
+    const y = 960 + index * 36;
+    return [
+      text(60, y + 20, truncate(row.organization, 30), 22),
+      `<rect x="480" y="${y + 2}" width="${Math.max((row.total / largest) * 380, 2)}" height="24" rx="4" fill="${BRAND_COLOR}"/>`,
+      text(1020, y + 20, money(row.total, 0), 22, { anchor: 'end', color: '#374151' })
+    ].join('');
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${REPORT_WIDTH}" height="${REPORT_HEIGHT}" viewBox="0 0 ${REPORT_WIDTH} ${REPORT_HEIGHT}">
+<rect width="${REPORT_WIDTH}" height="${REPORT_HEIGHT}" fill="#ffffff"/>
+<rect width="${REPORT_WIDTH}" height="250" fill="${BRAND_COLOR}"/>
+${text(60, 90, 'Animal Impact', 36, { bold: true, color: '#ffffff' })}
+${text(60, 170, `${report.year} Impact Report`, 60, { bold: true, color: '#ffffff' })}
+${text(60, 220, truncate(report.name, 50), 30, { color: '#dcfce7' })}
+${text(REPORT_WIDTH / 2, 360, `≈ ${count(impact.total)}`, 110, { bold: true, color: BRAND_COLOR, anchor: 'middle' })}
+${text(REPORT_WIDTH / 2, 430, 'animals spared', 40, { color: '#374151', anchor: 'middle' })}
+${tileSvg.join('\n')}
+${text(60, 920, 'Donations by organization', 30, { bold: true })}
+${rows.length > 0 ? rowSvg.join('\n') : text(60, 980, 'No donations recorded this year', 22, { color: '#6b7280' })}
+${text(60, 1300, `Generated ${report.generatedAt} · Impact model v${impact.modelVersion} · Estimates only; not a tax receipt`, 18, { color: '#6b7280' })}
+</svg>`;
+}
+
+function renderReportPng(report: AnnualReport) {
+  const resvg = new Resvg(renderReportSvg(report), {
+    font: {
+      fontFiles: [FONT_FILES.regular, FONT_FILES.bold],
+      loadSystemFonts: false,
+      defaultFontFamily: FONT_FAMILY
+    }
+  });
+  return resvg.render().asPng();
+}
+
+function renderReportPdf(report: AnnualReport) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: [PDF_WIDTH, PDF_HEIGHT],
+      margin: 0,
+      info: { Title: `${report.year} Impact Report`, Author: report.name }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.registerFont(FONT_FAMILY, FONT_FILES.regular);
+    doc.registerFont(`${FONT_FAMILY} Bold`, FONT_FILES.bold);
+    SVGtoPDF(doc, renderReportSvg(report), 0, 0, {
+      width: PDF_WIDTH,
+      height: PDF_HEIGHT,
+      fontCallback: (family, bold) => (bold ? `${FONT_FAMILY} Bold` : FONT_FAMILY)
+    });
+    doc.end();
+  });
+}
+
+const REPORT_FORMATS: Record<string, { contentType: string; render: (report: AnnualReport) => Buffer | Promise<Buffer> }> = {
+  pdf: { contentType: 'application/pdf', render: renderReportPdf },
+  png: { contentType: 'image/png', render: renderReportPng }
+};
+
+const reportContentTypes = Object.values(REPORT_FORMATS).map(({ contentType }) => contentType);
+
+// The latest year allowed moves with the calendar, so it's checked in the handler
+const annualReportQuerySchema = defineSchema([
+  { name: 'year', label: 'Year', type: 'integer', nullable: true, min: FIRST_REPORT_YEAR },
+  { name: 'format', label: 'Format', type: 'enum', defaultValue: 'pdf', options: Object.keys(REPORT_FORMATS) }
+]);
+
+function createReportsRouter() {
+  const router = express.Router();
+
+  router.get('/annual', validateQuery(annualReportQuerySchema), respondsWithFile(reportContentTypes), async (req: any, res: any) => {
+    try {
+      const currentYear = new Date().getFullYear();
+      const year = req.query.year ?? currentYear;
+      const { format } = req.query;
+
+      if (year > currentYear) {
+        return sendValidationError(res, { year: `Year must be between ${FIRST_REPORT_YEAR} and ${currentYear}` });
+      }
+
+      const report = await getAnnualReport(req.user.userId, year);
+      const { contentType, render } = REPORT_FORMATS[format]!;
+      const file = await render(report);
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="animal-impact-${year}.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error('Annual report error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { getAnnualReport, renderReportSvg, renderReportPng, renderReportPdf, createReportsRouter };
+export type { AnnualReport };
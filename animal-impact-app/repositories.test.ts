@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRepositories } from './repositories.js';
+import { baseResources, createActivityRouter } from './activity-routes.js';
+import type { Server } from 'http';
+import type { Repositories, StorageBackend } from './repositories.js';
+
+// One suite for both storage backends: the repositories themselves, and the activity
+// routes mounted over them. SQLite runs against a scratch database file, set here
+// before database.ts is first loaded (createRepositories loads it lazily).
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'animal-impact-repositories-'));
+process.env.DATABASE_FILE = path.join(scratchDir, 'test.db');
+process.env.DATABASE_URL = '';
+process.env.JSON_DATA_FILE = path.join(scratchDir, 'data.json');
+
+afterAll(() => {
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+const conversion = (values: Record<string, any> = {}) => ({
+  person_name: 'Alice',
+  conversion_date: '2025-03-01',
+  influence_type: 'Documentary',
+  notes: '',
+  ...values
+});
+
+const backends: StorageBackend[] = ['sqlite', 'json'];
+
+describe.each(backends)('%s backend', backend => {
+  let repositories: Repositories;
+  let userId: number;
+  let otherUserId: number;
+
+  beforeAll(async () => {
+    if (backend === 'sqlite') {
+      const { migrate } = await import('./migrate.js');
+      await migrate();
+    }
+    repositories = await createRepositories(backend);
+    userId = await repositories.users.create({ email: `${backend}@example.com`, name: 'Test User', password: 'hash' });
+    otherUserId = await repositories.users.create({ email: `${backend}-other@example.com`, name: 'Other User', password: 'hash' });
+  });
+
+  describe('users', () => {
+    test('finds a created user by id and by email', async () => {
+      const byId = await repositories.users.findById(userId);
+      expect(byId).toMatchObject({ id: userId, email: `${backend}@example.com`, name: 'Test User' });
+      expect(await repositories.users.findByEmail(`${backend}@example.com`)).toMatchObject({ id: userId });
+    });
+
+    test('returns undefined for unknown users', async () => {
+      expect(await repositories.users.findById(999999)).toBeFalsy();
+      expect(await repositories.users.findByEmail('nobody@example.com')).toBeFalsy();
+    });
+  });
+
+  describe('records', () => {
+    let ids: number[];
+
+    beforeAll(async () => {
+      ids = [];
+      for (const [person_name, conversion_date] of [['Carol', '2025-01-10'], ['Alice', '2025-03-01'], ['Bob', '2025-02-05']]) {
+        ids.push(await repositories.conversions.create(userId, conversion({ person_name, conversion_date })));
+      }
+      await repositories.conversions.create(otherUserId, conversion({ person_name: 'Not mine' }));
+    });
+
+    test('creates and finds records, scoped to their owner', async () => {
+      expect(await repositories.conversions.find(ids[0]!, userId)).toMatchObject({ person_name: 'Carol', user_id: userId });
+      expect(await repositories.conversions.find(ids[0]!, otherUserId)).toBeFalsy();
+    });
+
+    test('lists all of a user\'s records in date order', async () => {
+      const records = await repositories.conversions.all(userId);
+      expect(records.map(record => record.person_name)).toEqual(['Carol', 'Bob', 'Alice']);
+    });
+
+    test('sorts, pages and counts', async () => {
+      const page = await repositories.conversions.list(userId, { sort: 'person_name', order: 'asc', limit: 2, offset: 0 });
+      expect(page.total).toBe(3);
+      expect(page.rows.map(record => record.person_name)).toEqual(['Alice', 'Bob']);
+
+      const next = await repositories.conversions.list(userId, { sort: 'person_name', order: 'asc', limit: 2, offset: 2 });
+      expect(next.rows.map(record => record.person_name)).toEqual(['Carol']);
+
+      const newest = await repositories.conversions.list(userId, { sort: 'conversion_date', order: 'desc', limit: 1, offset: 0 });
+      expect(newest.rows[0]).toMatchObject({ person_name: 'Alice' });
+    });
+
+    test('filters by the date column, inclusive at both ends', async () => {
+      const { rows, total } = await repositories.conversions.list(userId, {
+        from: '2025-02-05',
+        to: '2025-03-01',
+        sort: 'conversion_date',
+        order: 'asc',
+        limit: 10,
+        offset: 0
+      });
+      expect(total).toBe(2);
+      expect(rows.map(record => record.person_name)).toEqual(['Bob', 'Alice']);
+    });
+
+    test('updates only the owner\'s record', async () => {
+      await repositories.conversions.update(ids[1]!, otherUserId, { notes: 'Changed by someone else' });
+      expect(await repositories.conversions.find(ids[1]!, userId)).toMatchObject({ notes: '' });
+
+      await repositories.conversions.update(ids[1]!, userId, { notes: 'Cooked dinner together' });
+      expect(await repositories.conversions.find(ids[1]!, userId)).toMatchObject({ notes: 'Cooked dinner together' });
+    });
+
+    test('deletes only the owner\'s record', async () => {
+      expect(await repositories.conversions.delete(ids[2]!, otherUserId)).toBe(false);
+      expect(await repositories.conversions.delete(ids[2]!, userId)).toBe(true);
+      expect(await repositories.conversions.find(ids[2]!, userId)).toBeFalsy();
+      expect(await repositories.conversions.delete(ids[2]!, userId)).toBe(false);
+    });
+  });
+
+  describe('activity routes', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    // The routes expect authenticateToken in front; X-User-Id stands in for it here
+    beforeAll(async () => {
+      const app = express();
+      app.use(express.json());
+      app.use('/api/media', (req: any, res, next) => {
+        req.user = { userId: Number(req.get('x-user-id')) };
+        next();
+      }, createActivityRouter(baseResources.media, repositories.media));
+
+      server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      baseUrl = `http://localhost:${(server.address() as any).port}/api/media`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    const request = async (method: string, url: string, body?: any, asUser = userId) => {
+      const response = await fetch(`${baseUrl}${url}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'X-User-Id': String(asUser) },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      return { status: response.status, body: await response.json() as any };
+    };
+
+    const post = { platform: 'Instagram', content_type: 'Story', reach_estimate: 250, date: '2025-04-01' };
+
+    test('creates, reads, updates and deletes a record', async () => {
+      const created = await request('POST', '/', post);
+      expect(created.status).toBe(201);
+      const id = created.body.id;
+
+      expect((await request('GET', `/${id}`)).body.data).toMatchObject({ ...post, user_id: userId });
+
+      const updated = await request('PATCH', `/${id}`, { reach_estimate: 300 });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data).toMatchObject({ reach_estimate: 300 });
+
+      expect((await request('DELETE', `/${id}`)).status).toBe(200);
+      expect((await request('GET', `/${id}`)).status).toBe(404);
+    });
+
+    test('lists with pagination', async () => {
+      for (const date of ['2025-05-01', '2025-05-02', '2025-05-03']) {
+        await request('POST', '/', { ...post, date });
+      }
+
+      const { status, body } = await request('GET', '/?limit=2&sort=date&order=asc&from=2025-05-01');
+      expect(status).toBe(200);
+      expect(body.data.map((record: any) => record.date)).toEqual(['2025-05-01', '2025-05-02']);
+      expect(body.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+    });
+
+    test('rejects invalid bodies with field errors', async () => {
+      const { status, body } = await request('POST', '/', { ...post, reach_estimate: -1, date: 'soon' });
+      expect(status).toBe(422);
+      expect(Object.keys(body.fields).sort()).toEqual(['date', 'reach_estimate']);
+    });
+
+    test('hides other users\' records', async () => {
+      const { body } = await request('POST', '/', post);
+      expect((await request('GET', `/${body.id}`, undefined, otherUserId)).status).toBe(404);
+      expect((await request('PATCH', `/${body.id}`, { reach_estimate: 1 }, otherUserId)).status).toBe(404);
+      expect((await request('DELETE', `/${body.id}`, undefined, otherUserId)).status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { createJsonRepositories } from './json-repositories.js';
+
+// Storage-independent access to users and activity records. Route modules that only
+// need these entities take a repository instead of calling dbRun/dbGet/dbAll, so the
+// same routes run against SQLite (server.ts) or a JSON file (simple-server.ts).
+type StorageBackend = 'sqlite' | 'json';
+
+interface UserRecord {
+  id: number;
+  email: string;
+  name: string;
+  password: string;
+  created_at: string;
+}
+
+interface Donation {
+  id: number;
+  user_id: number;
+  organization: string;
+  amount: number;
+  currency?: string;
+  date: string;
+  notes: string;
+  created_at: string;
+}
+
+interface Conversion {
+  id: number;
+  user_id: number;
+  person_name: string;
+  conversion_date: string;
+  influence_type: string;
+  notes: string;
+  created_at: string;
+}
+
+interface MediaPost {
+  id: number;
+  user_id: number;
+  platform: string;
+  content_type: string;
+  reach_estimate: number;
+  date: string;
+  url: string;
+  notes: string;
+  created_at: string;
+}
+
+interface Campaign {
+  id: number;
+  user_id: number;
+  campaign_name: string;
+  organization: string;
+  participation_type: string;
+  date: string;
+  impact_description: string;
+  created_at: string;
+}
+
+// Filtering, sorting and paging for a user's records. `sort` must be a column the
+// caller has already checked; `from` and `to` bound the record's date column.
+interface ListOptions {
+  from?: string;
+  to?: string;
+  sort: string;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+// Records owned by a user. Every method is scoped to that user.
+interface RecordRepository<T> {
+  list(userId: number, options: ListOptions): Promise<{ rows: T[]; total: number }>;
+  all(userId: number): Promise<T[]>;
+  find(id: number, userId: number): Promise<T | undefined>;
+  create(userId: number, values: Record<string, any>): Promise<number>;
+  update(id: number, userId: number, values: Record<string, any>): Promise<void>;
+  delete(id: number, userId: number): Promise<boolean>;
+}
+
+interface UserRepository {
+  findById(id: number): Promise<UserRecord | undefined>;
+  findByEmail(email: string): Promise<UserRecord | undefined>;
+  create(user: { email: string; name: string; password: string }): Promise<number>;
+}
+
+type DonationRepository = RecordRepository<Donation>;
+type ConversionRepository = RecordRepository<Conversion>;
+type MediaRepository = RecordRepository<MediaPost>;
+type CampaignRepository = RecordRepository<Campaign>;
+
+interface Repositories {
+  users: UserRepository;
+  donations: DonationRepository;
+  conversions: ConversionRepository;
+  media: MediaRepository;
+  campaigns: CampaignRepository;
+}
+
+// Pick a backend with STORAGE_BACKEND (sqlite or json). The JSON backend keeps
+// everything in JSON_DATA_FILE (default data.json). The SQLite backend is only loaded
+// when chosen, since loading it opens the database.
+async function createRepositories(backend = process.env.STORAGE_BACKEND || 'sqlite', env = process.env): Promise<Repositories> {
+  switch (backend) {
+    case 'sqlite': {
+      const { createSqliteRepositories } = await import('./sqlite-repositories.js');
+      return createSqliteRepositories();
+    }
+    case 'json':
+      return createJsonRepositories(env.JSON_DATA_FILE || 'data.json');
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
+
+export { createRepositories };
+export type {
+  StorageBackend,
+  UserRecord,
+  Donation,
+  Conversion,
+  MediaPost,
+  Campaign,
+  ListOptions,
+  RecordRepository,
+  UserRepository,
+  DonationRepository,
+  ConversionRepository,
+  MediaRepository,
+  CampaignRepository,
+  Repositories
+};
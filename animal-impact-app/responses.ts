@@ -0,0 +1,140 @@
+import type { Schema } from './schemas.js';
+
+// Success response bodies, described for the API document and the typed client.
+// responds() is a pass-through middleware carrying the body's JSON schema as `responds`,
+// the way validateBody carries `validates`; openapi.ts reads it from each route.
+// Schemas named with model() or recordModel() become components, and types of the same
+// name in src/api-client.ts.
+
+type JsonSchema = Record<string, any>;
+
+interface ResponseTarget {
+  // For JSON bodies
+  schema?: JsonSchema;
+  // For file downloads, the media types the route can send
+  files?: string[];
+}
+
+// A stored row: the fields of a request schema plus the columns the server sets.
+// openapi.ts turns the fields into properties; fields that aren't required may be null.
+interface RecordModel {
+  fields: Schema;
+  columns: Record<string, JsonSchema>;
+  // Columns not every storage backend has
+  optional: string[];
+}
+
+const models = new Map<string, JsonSchema>();
+const recordModels = new Map<string, RecordModel>();
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const string: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+const integer: JsonSchema = { type: 'integer' };
+const boolean: JsonSchema = { type: 'boolean' };
+// Any JSON value
+const unknown: JsonSchema = {};
+
+// OpenAPI 3.0 ignores siblings of $ref, so a nullable reference goes through allOf
+const nullable = (schema: JsonSchema): JsonSchema =>
+  schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+const enumOf = (options: readonly string[]): JsonSchema => ({ type: 'string', enum: [...options] });
+
+// An object with arbitrary keys, e.g. counts by table name
+const mapOf = (values: JsonSchema): JsonSchema => ({ type: 'object', additionalProperties: values });
+
+// Every property is present unless listed in `optional`
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  const required = Object.keys(properties).filter(name => !optional.includes(name));
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+// A model with some properties added, e.g. a user with their stats
+const extend = (schema: JsonSchema, properties: Record<string, JsonSchema>): JsonSchema =>
+  ({ allOf: [schema, object(properties)] });
+
+function model(name: string, schema: JsonSchema) {
+  models.set(name, schema);
+  return ref(name);
+}
+
+function recordModel(name: string, fields: Schema, columns: Record<string, JsonSchema>, optional: string[] = []) {
+  recordModels.set(name, { fields, columns, optional });
+  return ref(name);
+}
+
+function responds(schema: JsonSchema) {
+  const middleware = (req: any, res: any, next: any) => next();
+  const target: ResponseTarget = { schema };
+  return Object.assign(middleware, { responds: target });
+}
+
+function respondsWithFile(mediaTypes: string[]) {
+  const middleware = (req: any, res: any, next: any) => next();
+  const target: ResponseTarget = { files: mediaTypes };
+  return Object.assign(middleware, { responds: target });
+}
+
+// Shapes shared by several routers
+
+const message = object({ message: string });
+
+// 201 responses for a new record
+const created = object({ message: string, id: integer });
+
+const pagination = model('Pagination', object({
+  page: integer,
+  limit: integer,
+  total: integer,
+  totalPages: integer
+}));
+
+const pageOf = (items: JsonSchema) => object({ data: arrayOf(items), pagination });
+
+// getUserSummary(): dashboard stats, with donations in `currency`, and computed impact
+const userStats = model('UserStats', object({
+  totalDonations: number,
+  currency: string,
+  conversionCount: integer,
+  mediaCount: integer,
+  totalReach: number,
+  campaignCount: integer,
+  animalsImpact: number
+}));
+
+const impact = model('Impact', object({
+  modelVersion: string,
+  total: number,
+  breakdown: object({ conversions: number, donations: number, media: number, campaigns: number })
+}));
+
+export {
+  models,
+  recordModels,
+  string,
+  number,
+  integer,
+  boolean,
+  unknown,
+  nullable,
+  arrayOf,
+  enumOf,
+  mapOf,
+  object,
+  extend,
+  model,
+  recordModel,
+  responds,
+  respondsWithFile,
+  message,
+  created,
+  pagination,
+  pageOf,
+  userStats,
+  impact
+};
+export type { JsonSchema, ResponseTarget, RecordModel };
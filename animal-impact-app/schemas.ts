@@ -0,0 +1,521 @@
+// Declarative request schemas, shared by the API (validation.ts) and the React forms.
+// A schema is a list of fields; validate() coerces raw input (JSON bodies, query strings,
+// CSV cells, form state) into typed values or returns a message per invalid field.
+// Nothing here touches the database, so the module is safe to bundle into the frontend.
+type FieldType =
+  | 'text'
+  | 'password'
+  | 'email'
+  | 'url'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'enum'
+  | 'list'
+  | 'currency'
+  | 'object';
+
+interface Field {
+  name: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  // Store NULL rather than '' or 0 when left blank
+  nullable?: boolean;
+  // Value stored when left blank
+  defaultValue?: string | number | boolean;
+  // Allowed values for enum fields and for the items of list fields
+  options?: readonly string[];
+  // Inclusive bounds: the value of number and integer fields, the length of text
+  min?: number;
+  max?: number;
+  // A pattern text must match, and what to say when it doesn't
+  pattern?: RegExp;
+  patternMessage?: string;
+  // Other spreadsheet headers that mean this field (used by CSV import)
+  importAliases?: readonly string[];
+}
+
+type Schema = readonly Field[];
+
+// Messages keyed by field name
+type FieldErrors = Record<string, string>;
+
+type OptionOf<F extends Field> = F['options'] extends readonly (infer O extends string)[] ? O : string;
+
+type FieldValue<F extends Field> =
+  F['type'] extends 'number' | 'integer' ? number
+  : F['type'] extends 'boolean' ? boolean
+  : F['type'] extends 'enum' ? OptionOf<F>
+  : F['type'] extends 'list' ? OptionOf<F>[]
+  : F['type'] extends 'object' ? Record<string, unknown>
+  : string;
+
+// The typed values a schema validates to
+type Infer<S extends Schema> = {
+  -readonly [F in S[number] as F['name']]: FieldValue<F> | (F extends { nullable: true } ? null : never);
+};
+
+type ValidationResult<T> = { value: T; errors?: undefined } | { value?: undefined; errors: FieldErrors };
+
+// Keeps field names, types and options as literals so Infer can see them
+const defineSchema = <const S extends Schema>(fields: S) => fields;
+
+const BASE_CURRENCY = 'USD';
+const MIN_PASSWORD_LENGTH = 6;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/;
+
+const USER_ROLES = ['user', 'admin'] as const;
+const TEAM_ROLES = ['owner', 'admin', 'member'] as const;
+const CADENCES = ['weekly', 'monthly', 'yearly'] as const;
+const CAUSE_AREAS = ['farmed', 'wild', 'companion'] as const;
+const GOAL_METRIC_NAMES = ['donations', 'conversions', 'media', 'reach', 'campaigns', 'impact'] as const;
+const PROFILE_SECTIONS = ['donations', 'conversions', 'media', 'campaigns', 'impact', 'achievements'] as const;
+const MEDIA_PLATFORMS = [
+  'Facebook',
+  'Instagram',
+  'Twitter',
+  'TikTok',
+  'YouTube',
+  'LinkedIn',
+  'Reddit',
+  'Blog',
+  'Podcast',
+  'Other'
+] as const;
+
+// Endpoints (the segment after /api/) that API keys can be scoped to. Scopes are
+// read or write for every one of them, or resource:read / resource:write for one;
+// write includes read.
+const API_KEY_RESOURCES = [
+  'dashboard',
+  'currencies',
+  'donations',
+  'conversions',
+  'media',
+  'campaigns',
+  'recurring-donations',
+  'goals',
+  'achievements',
+  'analytics',
+  'reports',
+  'export',
+  'import',
+  'teams'
+] as const;
+const API_KEY_SCOPES = [
+  'read',
+  'write',
+  ...API_KEY_RESOURCES.flatMap(resource => [`${resource}:read`, `${resource}:write`])
+];
+
+const isBlank = (value: any) => value === undefined || value === null || value === '';
+
+// YYYY-MM-DD naming a real day (so 2025-02-30 is rejected)
+const isValidDate = (value: any) =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !isNaN(new Date(value).getTime()) &&
+  new Date(value).toISOString().slice(0, 10) === value;
+
+const isCurrencyCode = (value: any) => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+function isUrl(value: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function emptyValue(field: Field) {
+  if (field.type === 'number' || field.type === 'integer') return 0;
+  if (field.type === 'boolean') return false;
+  if (field.type === 'list') return [];
+  return '';
+}
+
+function checkBounds(field: Field, size: number, unit: string) {
+  if (field.min !== undefined && size < field.min) {
+    return field.max !== undefined
+      ? `${field.label} must be between ${field.min} and ${field.max}${unit}`
+      : `${field.label} must be at least ${field.min}${unit}`;
+  }
+  if (field.max !== undefined && size > field.max) {
+    return field.min !== undefined
+      ? `${field.label} must be between ${field.min} and ${field.max}${unit}`
+      : `${field.label} must be at most ${field.max}${unit}`;
+  }
+  return null;
+}
+
+// Convert one submitted value to its stored value, or return an error message
+function coerceField(field: Field, input: any): { value?: any; error?: string } {
+  const value = typeof input === 'string' && field.type !== 'password' ? input.trim() : input;
+
+  if (isBlank(value)) {
+    if (field.required) {
+      return { error: `${field.label} is required` };
+    }
+    if (field.defaultValue !== undefined) {
+      return { value: field.defaultValue };
+    }
+    if (field.nullable) {
+      return { value: null };
+    }
+    return { value: emptyValue(field) };
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      // Number() rather than parseFloat, which would read "12abc" as 12
+      const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+      if (!Number.isFinite(parsed)) {
+        return { error: `${field.label} must be a number` };
+      }
+      if (field.type === 'integer' && !Number.isInteger(parsed)) {
+        return { error: `${field.label} must be a whole number` };
+      }
+      const error = checkBounds(field, parsed, '');
+      return error ? { error } : { value: parsed };
+    }
+
+    case 'boolean':
+      if (value === true || value === 'true') return { value: true };
+      if (value === false || value === 'false') return { value: false };
+      return { error: `${field.label} must be true or false` };
+
+    case 'date':
+      return isValidDate(value) ? { value } : { error: `${field.label} must be a date in YYYY-MM-DD format` };
+
+    // Matched without regard to case, and stored as the option is spelled
+    case 'enum': {
+      const option = typeof value === 'string'
+        ? field.options?.find(candidate => candidate.toLowerCase() === value.toLowerCase())
+        : undefined;
+      return option !== undefined ? { value: option } : { error: `${field.label} must be one of: ${field.options?.join(', ')}` };
+    }
+
+    case 'list': {
+      const valid = Array.isArray(value) && value.every(item =>
+        typeof item === 'string' && (!field.options || field.options.includes(item))
+      );
+      if (!valid) {
+        return { error: field.options ? `${field.label} must be a list of: ${field.options.join(', ')}` : `${field.label} must be a list of text` };
+      }
+      const error = checkBounds(field, value.length, ' items');
+      return error ? { error } : { value: [...new Set(value.map((item: string) => item.trim()))] };
+    }
+
+    case 'currency': {
+      const code = String(value).toUpperCase();
+      return isCurrencyCode(code) ? { value: code } : { error: `${field.label} must be a three-letter currency code` };
+    }
+
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? { value } : { error: `${field.label} must be an object` };
+  }
+
+  // Text, passwords, emails and URLs
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return { error: `${field.label} must be text` };
+  }
+  const text = String(value);
+  const lengthError = checkBounds(field, text.length, ' characters');
+  if (lengthError) {
+    return { error: lengthError };
+  }
+  if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+    return { error: `${field.label} must be a valid email address` };
+  }
+  if (field.type === 'url' && !isUrl(text)) {
+    return { error: `${field.label} must be a valid http or https URL` };
+  }
+  if (field.pattern && !field.pattern.test(text)) {
+    return { error: field.patternMessage || `${field.label} is not valid` };
+  }
+  return { value: text };
+}
+
+// Validate input against a schema. With `partial` (for PATCH), only the fields present
+// in the input are checked and returned, and nothing falls back to a default.
+function validate<S extends Schema>(schema: S, input: unknown): ValidationResult<Infer<S>>;
+function validate<S extends Schema>(schema: S, input: unknown, options: { partial: boolean }): ValidationResult<Partial<Infer<S>>>;
+function validate(schema: Schema, input: unknown, { partial = false } = {}): ValidationResult<any> {
+  const source: Record<string, any> = input && typeof input === 'object' ? input : {};
+  const value: Record<string, any> = {};
+  const errors: FieldErrors = {};
+
+  for (const field of schema) {
+    if (partial && !(field.name in source)) continue;
+
+    const result = coerceField(field, source[field.name]);
+    if (result.error) {
+      errors[field.name] = result.error;
+    } else {
+      value[field.name] = result.value;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { value };
+}
+
+// Auth
+
+const registerSchema = defineSchema([
+  { name: 'email', label: 'Email', type: 'email', required: true, max: 254 },
+  { name: 'name', label: 'Name', type: 'text', required: true, max: 100 },
+  { name: 'password', label: 'Password', type: 'password', required: true, min: MIN_PASSWORD_LENGTH }
+]);
+
+const loginSchema = defineSchema([
+  { name: 'email', label: 'Email', type: 'text', required: true },
+  { name: 'password', label: 'Password', type: 'password', required: true }
+]);
+
+const refreshTokenSchema = defineSchema([
+  { name: 'refreshToken', label: 'Refresh token', type: 'text', required: true }
+]);
+
+const forgotPasswordSchema = defineSchema([
+  { name: 'email', label: 'Email', type: 'text', required: true }
+]);
+
+const resetPasswordSchema = defineSchema([
+  { name: 'token', label: 'Token', type: 'text', required: true },
+  { name: 'password', label: 'Password', type: 'password', required: true, min: MIN_PASSWORD_LENGTH }
+]);
+
+const verifyEmailSchema = defineSchema([
+  { name: 'token', label: 'Token', type: 'text', required: true }
+]);
+
+// Account
+
+// Sent as a partial update
+const profileSchema = defineSchema([
+  { name: 'name', label: 'Name', type: 'text', required: true, max: 100 },
+  { name: 'email', label: 'Email', type: 'email', required: true, max: 254 },
+  { name: 'display_currency', label: 'Display currency', type: 'currency', required: true },
+  // Only needed to change the email
+  { name: 'currentPassword', label: 'Current password', type: 'password' }
+]);
+
+const changePasswordSchema = defineSchema([
+  { name: 'currentPassword', label: 'Current password', type: 'password', required: true },
+  { name: 'newPassword', label: 'New password', type: 'password', required: true, min: MIN_PASSWORD_LENGTH }
+]);
+
+const deleteAccountSchema = defineSchema([
+  { name: 'password', label: 'Password', type: 'password', required: true }
+]);
+
+const publicProfileSchema = defineSchema([
+  {
+    name: 'slug',
+    label: 'Slug',
+    type: 'text',
+    nullable: true,
+    pattern: SLUG_PATTERN,
+    patternMessage: 'Slug must be 3-40 lowercase letters, numbers and hyphens'
+  },
+  { name: 'display_name', label: 'Display name', type: 'text', max: 100 },
+  { name: 'sections', label: 'Sections', type: 'list', required: true, options: PROFILE_SECTIONS }
+]);
+
+// Activity records
+
+const donationSchema = defineSchema([
+  { name: 'organization', label: 'Organization', type: 'text', required: true, max: 200, importAliases: ['org', 'organisation', 'charity', 'recipient', 'payee'] },
+  { name: 'amount', label: 'Amount', type: 'number', required: true, min: 0, importAliases: ['donation', 'value', 'total', 'sum'] },
+  { name: 'currency', label: 'Currency', type: 'currency', defaultValue: BASE_CURRENCY, importAliases: ['ccy', 'currency_code'] },
+  { name: 'date', label: 'Date', type: 'date', required: true, importAliases: ['donation_date', 'day', 'when'] },
+  { name: 'notes', label: 'Notes', type: 'text', max: 2000, importAliases: ['note', 'comment', 'comments', 'memo', 'description'] }
+]);
+
+const conversionSchema = defineSchema([
+  { name: 'person_name', label: 'Person name', type: 'text', required: true, max: 200, importAliases: ['name', 'person', 'who'] },
+  { name: 'conversion_date', label: 'Conversion date', type: 'date', required: true, importAliases: ['date', 'when'] },
+  { name: 'influence_type', label: 'Influence type', type: 'text', max: 200, importAliases: ['influence', 'method', 'how'] },
+  { name: 'notes', label: 'Notes', type: 'text', max: 2000, importAliases: ['note', 'comment', 'comments', 'memo', 'description'] }
+]);
+
+const mediaSchema = defineSchema([
+  { name: 'platform', label: 'Platform', type: 'enum', required: true, options: MEDIA_PLATFORMS, importAliases: ['network', 'site', 'channel'] },
+  { name: 'content_type', label: 'Content type', type: 'text', required: true, max: 100, importAliases: ['content', 'type', 'format'] },
+  { name: 'reach_estimate', label: 'Reach estimate', type: 'integer', min: 0, importAliases: ['reach', 'views', 'impressions', 'audience'] },
+  { name: 'date', label: 'Date', type: 'date', required: true, importAliases: ['posted', 'when'] },
+  { name: 'url', label: 'URL', type: 'url', max: 2000, importAliases: ['link'] },
+  { name: 'notes', label: 'Notes', type: 'text', max: 2000, importAliases: ['note', 'comment', 'comments', 'memo', 'description'] }
+]);
+
+const campaignSchema = defineSchema([
+  { name: 'campaign_name', label: 'Campaign name', type: 'text', required: true, max: 200, importAliases: ['campaign', 'name'] },
+  { name: 'organization', label: 'Organization', type: 'text', max: 200, importAliases: ['org', 'organisation', 'organizer'] },
+  { name: 'participation_type', label: 'Participation type', type: 'text', required: true, max: 200, importAliases: ['participation', 'role', 'activity'] },
+  { name: 'date', label: 'Date', type: 'date', required: true, importAliases: ['when'] },
+  { name: 'impact_description', label: 'Impact description', type: 'text', max: 2000, importAliases: ['impact', 'description', 'notes'] }
+]);
+
+const recurringDonationSchema = defineSchema([
+  { name: 'organization', label: 'Organization', type: 'text', required: true, max: 200 },
+  { name: 'amount', label: 'Amount', type: 'number', required: true, min: 0 },
+  { name: 'currency', label: 'Currency', type: 'currency', defaultValue: BASE_CURRENCY },
+  { name: 'cadence', label: 'Cadence', type: 'enum', required: true, options: CADENCES },
+  { name: 'start_date', label: 'Start date', type: 'date', required: true },
+  { name: 'end_date', label: 'End date', type: 'date', nullable: true },
+  { name: 'day_of_month', label: 'Day of month', type: 'integer', nullable: true, min: 1, max: 31 },
+  { name: 'notes', label: 'Notes', type: 'text', max: 2000 }
+]);
+
+const goalSchema = defineSchema([
+  { name: 'title', label: 'Title', type: 'text', required: true, max: 200 },
+  { name: 'metric', label: 'Metric', type: 'enum', required: true, options: GOAL_METRIC_NAMES },
+  { name: 'target', label: 'Target', type: 'number', required: true, min: 0 },
+  // Only used by donation goals
+  { name: 'currency', label: 'Currency', type: 'currency', defaultValue: BASE_CURRENCY },
+  { name: 'start_date', label: 'Start date', type: 'date', required: true },
+  { name: 'end_date', label: 'End date', type: 'date', required: true }
+]);
+
+// Teams
+
+const teamSchema = defineSchema([
+  { name: 'name', label: 'Team name', type: 'text', required: true, max: 100 },
+  { name: 'description', label: 'Description', type: 'text', max: 1000 }
+]);
+
+const joinTeamSchema = defineSchema([
+  { name: 'invite_code', label: 'Invite code', type: 'text', required: true }
+]);
+
+const teamMembershipSchema = defineSchema([
+  { name: 'share_stats', label: 'Share stats', type: 'boolean', required: true }
+]);
+
+const teamMemberRoleSchema = defineSchema([
+  { name: 'role', label: 'Role', type: 'enum', required: true, options: ['admin', 'member'] }
+]);
+
+// Data import
+
+const importSchema = defineSchema([
+  { name: 'csv', label: 'CSV content', type: 'text', required: true },
+  // CSV header to field name, or null to ignore the column
+  { name: 'mapping', label: 'Mapping', type: 'object', nullable: true },
+  { name: 'dryRun', label: 'Dry run', type: 'boolean' }
+]);
+
+// API keys
+
+const apiKeySchema = defineSchema([
+  { name: 'name', label: 'Name', type: 'text', required: true, max: 100 },
+  { name: 'scopes', label: 'Scopes', type: 'list', required: true, options: API_KEY_SCOPES, min: 1 }
+]);
+
+// Admin
+
+// Sent as a partial update
+const adminUserUpdateSchema = defineSchema([
+  { name: 'role', label: 'Role', type: 'enum', required: true, options: USER_ROLES },
+  { name: 'disabled', label: 'Disabled', type: 'boolean', required: true }
+]);
+
+const organizationSchema = defineSchema([
+  { name: 'name', label: 'Name', type: 'text', required: true, max: 200 },
+  { name: 'aliases', label: 'Aliases', type: 'list' },
+  { name: 'cause_area', label: 'Cause area', type: 'enum', required: true, options: CAUSE_AREAS },
+  { name: 'animals_per_dollar', label: 'Animals per dollar', type: 'number', required: true, min: 0 },
+  { name: 'source', label: 'Source', type: 'text', max: 1000 }
+]);
+
+type RegisterInput = Infer<typeof registerSchema>;
+type LoginInput = Infer<typeof loginSchema>;
+type ProfileInput = Partial<Infer<typeof profileSchema>>;
+type ChangePasswordInput = Infer<typeof changePasswordSchema>;
+type PublicProfileInput = Infer<typeof publicProfileSchema>;
+type DonationInput = Infer<typeof donationSchema>;
+type ConversionInput = Infer<typeof conversionSchema>;
+type MediaInput = Infer<typeof mediaSchema>;
+type CampaignInput = Infer<typeof campaignSchema>;
+type RecurringDonationInput = Infer<typeof recurringDonationSchema>;
+type GoalInput = Infer<typeof goalSchema>;
+type TeamInput = Infer<typeof teamSchema>;
+type ImportInput = Infer<typeof importSchema>;
+type ApiKeyInput = Infer<typeof apiKeySchema>;
+type AdminUserUpdateInput = Partial<Infer<typeof adminUserUpdateSchema>>;
+type OrganizationInput = Infer<typeof organizationSchema>;
+
+export {
+  BASE_CURRENCY,
+  MIN_PASSWORD_LENGTH,
+  EMAIL_PATTERN,
+  SLUG_PATTERN,
+  USER_ROLES,
+  TEAM_ROLES,
+  CADENCES,
+  CAUSE_AREAS,
+  GOAL_METRIC_NAMES,
+  PROFILE_SECTIONS,
+  API_KEY_RESOURCES,
+  API_KEY_SCOPES,
+  MEDIA_PLATFORMS,
+  defineSchema,
+  isBlank,
+  isValidDate,
+  isCurrencyCode,
+  coerceField,
+  validate,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  profileSchema,
+  changePasswordSchema,
+  deleteAccountSchema,
+  publicProfileSchema,
+  donationSchema,
+  conversionSchema,
+  mediaSchema,
+  campaignSchema,
+  recurringDonationSchema,
+  goalSchema,
+  teamSchema,
+  joinTeamSchema,
+  teamMembershipSchema,
+  teamMemberRoleSchema,
+  importSchema,
+  apiKeySchema,
+  adminUserUpdateSchema,
+  organizationSchema
+};
+export type {
+  FieldType,
+  Field,
+  Schema,
+  FieldErrors,
+  Infer,
+  ValidationResult,
+  RegisterInput,
+  LoginInput,
+  ProfileInput,
+  ChangePasswordInput,
+  PublicProfileInput,
+  DonationInput,
+  ConversionInput,
+  MediaInput,
+  CampaignInput,
+  RecurringDonationInput,
+  GoalInput,
+  TeamInput,
+  ImportInput,
+  ApiKeyInput,
+  AdminUserUpdateInput,
+  OrganizationInput
+};
@@ -2,57 +2,134 @@ import express from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import path from 'path';
 import dotenv from 'dotenv';
-import { dbRun, dbGet, dbAll, testConnection } from './database.js';
+import { dialect, dbPath, dbRun, dbGet, dbAll, testConnection } from './database.js';
+import {
+  donationsResource,
+  conversionsResource,
+  mediaResource,
+  campaignsResource,
+  createSqliteActivityRouter
+} from './activities.js';
+import { getUserSummary } from './summary.js';
+import { listCurrencies } from './exchange-rates.js';
+import { createOrganizationsRouter, linkDonationsToCatalogue } from './organizations.js';
+import { createAnalyticsRouter } from './analytics.js';
+import { createExportRouter } from './data-export.js';
+import { createImportRouter } from './data-import.js';
+import { createTeamsRouter } from './teams.js';
+import { createPublicProfileSettingsRouter, createPublicRouter } from './public-profiles.js';
+import { createReportsRouter } from './reports.js';
+import { goalsResource, createGoalProgressRouter } from './goals.js';
+import { evaluateAchievements, createAchievementsRouter } from './achievements.js';
+import { onRecordsCreated } from './activity-events.js';
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  authenticateToken,
+  requireRole,
+  sessionTokens,
+  createSessionsRouter
+} from './sessions.js';
+import { createConsoleMailer, createMailerFromEnv } from './mailer.js';
+import type { Mailer } from './mailer.js';
+import { sendVerificationEmail, createAccountEmailRouter } from './account-emails.js';
+import { createAccountRouter } from './account.js';
+import { createAdminRouter } from './admin.js';
+import { requestResource, createApiKeysRouter } from './api-keys.js';
+import { createBackupsRouter, recordServerPid, startBackupScheduler } from './backups.js';
+import { assertMigrationsApplied } from './migrate.js';
+import { USER_ROLES, registerSchema, loginSchema, refreshTokenSchema } from './schemas.js';
+import { validateBody } from './validation.js';
+import {
+  responds,
+  model,
+  object,
+  arrayOf,
+  enumOf,
+  string,
+  number,
+  integer,
+  nullable,
+  message,
+  userStats,
+  impact
+} from './responses.js';
+import { mount, createApiDocsRouter } from './openapi.js';
+import {
+  recurringDonationsResource,
+  createRecurringDonationActionsRouter,
+  startRecurringDonationScheduler
+} from './recurring-donations.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// The MAIL_TRANSPORT mailer is set up in startServer(), so importing the app (openapi.ts,
+// tests) doesn't depend on the mail settings; until then mail goes to the console
+let mailTransport: Mailer = createConsoleMailer();
+const mailer: Mailer = { send: mail => mailTransport.send(mail) };
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // room for CSV imports
 
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100 // limit each IP to 100 requests per windowMs
+  max: 100, // limit each IP to 100 requests per windowMs
+  // API key requests are limited per key instead (api-keys.ts)
+  skip: (req) => Boolean(req.get('x-api-key')) && requestResource(req) !== null
 });
 app.use(limiter);
 
-// Auth middleware
-const authenticateToken = (req: any, res: any, next: any) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (!token) {
-    return res.sendStatus(401);
-  }
+// Response bodies for the routes below
+const signedIn = object({
+  message: string,
+  ...sessionTokens,
+  user: model('SignedInUser', object({ id: integer, email: string, name: string, role: enumOf(USER_ROLES) }))
+});
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) return res.sendStatus(403);
-    req.user = user;
-    next();
-  });
-};
+const dashboardModel = model('Dashboard', object({
+  user: object({
+    id: integer,
+    email: string,
+    name: string,
+    display_currency: string,
+    email_verified_at: nullable(string),
+    created_at: string
+  }),
+  stats: userStats,
+  impact,
+  // The latest 10 of each
+  recent: object({
+    donations: arrayOf(donationsResource.record),
+    conversions: arrayOf(conversionsResource.record),
+    media: arrayOf(mediaResource.record),
+    campaigns: arrayOf(campaignsResource.record)
+  })
+}));
+
+const healthModel = model('Health', object({
+  status: string,
+  database: string,
+  uptime: number,
+  timestamp: string,
+  version: string,
+  environment: string,
+  memory: object({ used: string, total: string })
+}));
 
 // Auth routes
-app.post('/api/register', async (req, res) => {
+app.post('/api/register', validateBody(registerSchema), responds(signedIn), async (req, res) => {
   try {
     const { email, name, password } = req.body;
 
-    if (!email || !name || !password) {
-      return res.status(400).json({ error: 'All fields are required' });
-    }
-
-    if (password.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters' });
-    }
-
     // Check if user exists
     const existingUser = await dbGet('SELECT id FROM users WHERE email = ?', [email]);
     if (existingUser) {
@@ -70,13 +147,20 @@ app.post('/api/register', async (req, res) => {
     
     const userId = result.lastID;
 
-    // Generate JWT
-    const token = jwt.sign({ userId, email }, JWT_SECRET, { expiresIn: '7d' });
+    // Ask the user to confirm the address; registration still succeeds if the email can't be sent
+    try {
+      await sendVerificationEmail(mailer, { id: userId, email, name });
+    } catch (error) {
+      console.error('Verification email error:', error);
+    }
+
+    // Sign the new user in
+    const tokens = await createSession({ id: userId, email }, req);
 
     res.status(201).json({
       message: 'User created successfully',
-      token,
-      user: { id: userId, email, name }
+      ...tokens,
+      user: { id: userId, email, name, role: 'user' }
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -84,14 +168,10 @@ app.post('/api/register', async (req, res) => {
   }
 });
 
-app.post('/api/login', async (req, res) => {
+app.post('/api/login', validateBody(loginSchema), responds(signedIn), async (req, res) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' });
-    }
-
     // Get user
     const user = await dbGet('SELECT * FROM users WHERE email = ?', [email]);
     if (!user) {
@@ -104,13 +184,17 @@ app.post('/api/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate JWT
-    const token = jwt.sign({ userId: user.id, email: user.email }, JWT_SECRET, { expiresIn: '7d' });
+    if (user.disabled_at) {
+      return res.status(403).json({ error: 'This account has been disabled' });
+    }
+
+    // Start a session
+    const tokens = await createSession(user, req);
 
     res.json({
       message: 'Login successful',
-      token,
-      user: { id: user.id, email: user.email, name: user.name }
+      ...tokens,
+      user: { id: user.id, email: user.email, name: user.name, role: user.role }
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -118,29 +202,66 @@ app.post('/api/login', async (req, res) => {
   }
 });
 
+// Swap a refresh token for a new access token; the refresh token is replaced too
+app.post('/api/token/refresh', validateBody(refreshTokenSchema), responds(object({ message: string, ...sessionTokens })), async (req: any, res: any) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await refreshSession(refreshToken);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json({
+      message: 'Token refreshed successfully',
+      ...tokens
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// End the current session
+app.post('/api/logout', authenticateToken, responds(message), async (req: any, res: any) => {
+  try {
+    await revokeSession(req.user.sessionId, req.user.userId);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// End every session for the user, on every device
+app.post('/api/logout-all', authenticateToken, responds(object({ message: string, revoked: integer })), async (req: any, res: any) => {
+  try {
+    const revoked = await revokeAllSessions(req.user.userId);
+    res.json({ message: 'Logged out of all devices successfully', revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+mount(app, '/api/sessions', authenticateToken, createSessionsRouter());
+
+// Password reset and email verification
+mount(app, '/api', createAccountEmailRouter(mailer));
+
 // Dashboard data route
-app.get('/api/dashboard', authenticateToken, async (req: any, res) => {
+app.get('/api/dashboard', authenticateToken, responds(dashboardModel), async (req: any, res) => {
   try {
     const userId = req.user.userId;
 
     // Get user info
-    const user = await dbGet('SELECT id, email, name, created_at FROM users WHERE id = ?', [userId]);
+    const user = await dbGet('SELECT id, email, name, display_currency, email_verified_at, created_at FROM users WHERE id = ?', [userId]);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Get statistics
-    const totalDonationsResult = await dbGet('SELECT COALESCE(SUM(amount), 0) as total FROM donations WHERE user_id = ?', [userId]);
-    const conversionCountResult = await dbGet('SELECT COUNT(*) as count FROM vegan_conversions WHERE user_id = ?', [userId]);
-    const mediaCountResult = await dbGet('SELECT COUNT(*) as count FROM media_shared WHERE user_id = ?', [userId]);
-    const totalReachResult = await dbGet('SELECT COALESCE(SUM(reach_estimate), 0) as total FROM media_shared WHERE user_id = ?', [userId]);
-    const campaignCountResult = await dbGet('SELECT COUNT(*) as count FROM campaigns WHERE user_id = ?', [userId]);
-
-    const totalDonations = totalDonationsResult?.total || 0;
-    const conversionCount = conversionCountResult?.count || 0;
-    const mediaCount = mediaCountResult?.count || 0;
-    const totalReach = totalReachResult?.total || 0;
-    const campaignCount = campaignCountResult?.count || 0;
+    // Get statistics and computed impact, with totals in the user's display currency
+    const { stats, impact } = await getUserSummary(userId, user.display_currency);
 
     // Get recent data
     const recentDonations = await dbAll('SELECT * FROM donations WHERE user_id = ? ORDER BY date DESC, created_at DESC LIMIT 10', [userId]);
@@ -148,19 +269,10 @@ app.get('/api/dashboard', authenticateToken, async (req: any, res) => {
     const recentMedia = await dbAll('SELECT * FROM media_shared WHERE user_id = ? ORDER BY date DESC, created_at DESC LIMIT 10', [userId]);
     const recentCampaigns = await dbAll('SELECT * FROM campaigns WHERE user_id = ? ORDER BY date DESC, created_at DESC LIMIT 10', [userId]);
 
-    // Calculate animal impact (average 365 animals saved per person per year going vegan)
-    const animalsImpact = conversionCount * 365;
-
     res.json({
       user,
-      stats: {
-        totalDonations,
-        conversionCount,
-        mediaCount,
-        totalReach,
-        campaignCount,
-        animalsImpact
-      },
+      stats,
+      impact,
       recent: {
         donations: recentDonations,
         conversions: recentConversions,
@@ -174,105 +286,73 @@ app.get('/api/dashboard', authenticateToken, async (req: any, res) => {
   }
 });
 
-// Data entry routes
-app.post('/api/donations', authenticateToken, async (req: any, res) => {
-  try {
-    const { organization, amount, date, notes } = req.body;
-    const userId = req.user.userId;
+// Current user's profile, password and account deletion
+mount(app, '/api/me', authenticateToken, createAccountRouter(mailer));
 
-    if (!organization || !amount || !date) {
-      return res.status(400).json({ error: 'Organization, amount, and date are required' });
-    }
+// Opt-in public profile settings
+mount(app, '/api/me/public-profile', authenticateToken, createPublicProfileSettingsRouter());
 
-    const result = await dbRun(
-      'INSERT INTO donations (user_id, organization, amount, date, notes) VALUES (?, ?, ?, ?, ?)',
-      [userId, organization, parseFloat(amount), date, notes || '']
-    );
-    
-    res.status(201).json({ 
-      message: 'Donation recorded successfully',
-      id: result.lastID
-    });
+// Personal API keys for scripts
+mount(app, '/api/me/api-keys', authenticateToken, createApiKeysRouter());
+
+// Currencies with loaded exchange rates
+app.get('/api/currencies', authenticateToken, responds(object({ data: arrayOf(string) })), async (req, res) => {
+  try {
+    res.json({ data: await listCurrencies() });
   } catch (error) {
-    console.error('Create donation error:', error);
+    console.error('List currencies error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/conversions', authenticateToken, async (req: any, res) => {
-  try {
-    const { person_name, conversion_date, influence_type, notes } = req.body;
-    const userId = req.user.userId;
+// Activity routes (list, read, create, update, delete)
+mount(app, '/api/donations', authenticateToken, createSqliteActivityRouter(donationsResource));
+mount(app, '/api/conversions', authenticateToken, createSqliteActivityRouter(conversionsResource));
+mount(app, '/api/media', authenticateToken, createSqliteActivityRouter(mediaResource));
+mount(app, '/api/campaigns', authenticateToken, createSqliteActivityRouter(campaignsResource));
+
+// Recurring donation schedules
+mount(
+  app,
+  '/api/recurring-donations',
+  authenticateToken,
+  createRecurringDonationActionsRouter(),
+  createSqliteActivityRouter(recurringDonationsResource)
+);
+
+// Award achievements as soon as the records that earn them are created
+onRecordsCreated(async ({ userId }) => {
+  await evaluateAchievements(userId);
+});
 
-    if (!person_name || !conversion_date) {
-      return res.status(400).json({ error: 'Person name and conversion date are required' });
-    }
+mount(app, '/api/achievements', authenticateToken, createAchievementsRouter());
 
-    const result = await dbRun(
-      'INSERT INTO vegan_conversions (user_id, person_name, conversion_date, influence_type, notes) VALUES (?, ?, ?, ?, ?)',
-      [userId, person_name, conversion_date, influence_type || '', notes || '']
-    );
-    
-    res.status(201).json({ 
-      message: 'Conversion recorded successfully',
-      id: result.lastID
-    });
-  } catch (error) {
-    console.error('Create conversion error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// Goals and their progress
+mount(app, '/api/goals', authenticateToken, createGoalProgressRouter(), createSqliteActivityRouter(goalsResource));
 
-app.post('/api/media', authenticateToken, async (req: any, res) => {
-  try {
-    const { platform, content_type, reach_estimate, date, url, notes } = req.body;
-    const userId = req.user.userId;
+// Export and import routes
+mount(app, '/api/export', authenticateToken, createExportRouter());
+mount(app, '/api/import', authenticateToken, createImportRouter());
 
-    if (!platform || !content_type || !date) {
-      return res.status(400).json({ error: 'Platform, content type, and date are required' });
-    }
+// Report routes
+mount(app, '/api/reports', authenticateToken, createReportsRouter());
 
-    const result = await dbRun(
-      'INSERT INTO media_shared (user_id, platform, content_type, reach_estimate, date, url, notes) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [userId, platform, content_type, parseInt(reach_estimate) || 0, date, url || '', notes || '']
-    );
-    
-    res.status(201).json({ 
-      message: 'Media shared recorded successfully',
-      id: result.lastID
-    });
-  } catch (error) {
-    console.error('Create media error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// Team routes
+mount(app, '/api/teams', authenticateToken, createTeamsRouter());
 
-app.post('/api/campaigns', authenticateToken, async (req: any, res) => {
-  try {
-    const { campaign_name, organization, participation_type, date, impact_description } = req.body;
-    const userId = req.user.userId;
+// Analytics routes
+mount(app, '/api/analytics', authenticateToken, createAnalyticsRouter());
 
-    if (!campaign_name || !participation_type || !date) {
-      return res.status(400).json({ error: 'Campaign name, participation type, and date are required' });
-    }
+// Admin routes
+mount(app, '/api/admin/organizations', authenticateToken, requireRole('admin'), createOrganizationsRouter());
+mount(app, '/api/admin/backups', authenticateToken, requireRole('admin'), createBackupsRouter());
+mount(app, '/api/admin', authenticateToken, requireRole('admin'), createAdminRouter());
 
-    const result = await dbRun(
-      'INSERT INTO campaigns (user_id, campaign_name, organization, participation_type, date, impact_description) VALUES (?, ?, ?, ?, ?, ?)',
-      [userId, campaign_name, organization || '', participation_type, date, impact_description || '']
-    );
-    
-    res.status(201).json({ 
-      message: 'Campaign participation recorded successfully',
-      id: result.lastID
-    });
-  } catch (error) {
-    console.error('Create campaign error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// Public profiles (no login required)
+mount(app, '/api/public', createPublicRouter());
 
 // Health check endpoint
-app.get('/api/health', async (req, res) => {
+app.get('/api/health', responds(healthModel), async (req, res) => {
   try {
     await testConnection();
     const stats = {
@@ -298,6 +378,9 @@ app.get('/api/health', async (req, res) => {
   }
 });
 
+// API document (/api/openapi.json) and docs page (/api/docs)
+app.use('/api', createApiDocsRouter(app));
+
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
   const __dirname = path.dirname(new URL(import.meta.url).pathname);
@@ -316,15 +399,32 @@ if (process.env.NODE_ENV === 'production') {
 // Start server
 async function startServer() {
   try {
+    mailTransport = createMailerFromEnv();
+
     // Test database connection before starting server
     await testConnection();
     console.log('✅ Database connection verified');
+    await assertMigrationsApplied();
+
+    // Pick up donations recorded before their organization joined the catalogue
+    try {
+      const { linked } = await linkDonationsToCatalogue();
+      if (linked > 0) {
+        console.log(`🔗 Linked ${linked} donations to the organization catalogue`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not link donations to the organization catalogue (run db:init):', error);
+    }
+
+    recordServerPid();
+    startRecurringDonationScheduler();
+    startBackupScheduler();
     
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Dashboard: http://localhost:${PORT}`);
       console.log(`🔗 API: http://localhost:${PORT}/api`);
-      console.log(`🗄️ Database: SQLite (animal_impact.db)`);
+      console.log(`🗄️ Database: ${dialect === 'postgres' ? 'PostgreSQL' : `SQLite (${dbPath})`}`);
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -343,4 +443,9 @@ process.on('SIGTERM', () => {
   process.exit(0);
 });
 
-startServer();
\ No newline at end of file
+// Started when run directly; openapi.ts imports the app to generate the client
+if (import.meta.main) {
+  startServer();
+}
+
+export { app };
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import bcrypt from 'bcryptjs';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+
+// Sessions through the server's own routes: refresh token rotation, reuse detection and
+// logout. Runs against a scratch SQLite database, set before database.ts is first loaded.
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'animal-impact-sessions-'));
+process.env.DATABASE_FILE = path.join(scratchDir, 'test.db');
+process.env.DATABASE_URL = '';
+
+const { migrate } = await import('./migrate.js');
+const { dbRun } = await import('./database.js');
+const { app } = await import('./server.js');
+
+const email = 'sessions@example.com';
+const password = 'correct horse battery';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  await migrate();
+  await dbRun('INSERT INTO users (email, name, password) VALUES (?, ?, ?)', [email, 'Session User', await bcrypt.hash(password, 10)]);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://localhost:${(server.address() as any).port}/api`;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+const request = async (method: string, url: string, { body, token }: { body?: any; token?: string } = {}) => {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const login = async () => (await request('POST', '/login', { body: { email, password } })).body;
+
+const refresh = (refreshToken: string) => request('POST', '/token/refresh', { body: { refreshToken } });
+
+describe('refresh tokens', () => {
+  test('rotate: the new tokens work and the old refresh token is spent', async () => {
+    const session = await login();
+
+    const rotated = await refresh(session.refreshToken);
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.refreshToken).not.toBe(session.refreshToken);
+    expect((await request('GET', '/me', { token: rotated.body.token })).status).toBe(200);
+
+    const next = await refresh(rotated.body.refreshToken);
+    expect(next.status).toBe(200);
+  });
+
+  test('replaying a spent refresh token revokes the session', async () => {
+    const session = await login();
+    const rotated = (await refresh(session.refreshToken)).body;
+
+    expect((await refresh(session.refreshToken)).status).toBe(401);
+
+    // Both halves of the current token pair stop working
+    expect((await refresh(rotated.refreshToken)).status).toBe(401);
+    expect((await request('GET', '/me', { token: rotated.token })).status).toBe(401);
+  });
+
+  test('two refreshes racing with the same token count as reuse', async () => {
+    const session = await login();
+
+    const results = await Promise.all([refresh(session.refreshToken), refresh(session.refreshToken)]);
+    const statuses = results.map(result => result.status).sort();
+    expect(statuses).toEqual([200, 401]);
+
+    const winner = results.find(result => result.status === 200)!.body;
+    expect((await refresh(winner.refreshToken)).status).toBe(401);
+    expect((await request('GET', '/me', { token: winner.token })).status).toBe(401);
+  });
+
+  test('rejects unknown refresh tokens', async () => {
+    expect((await refresh('not-a-token')).status).toBe(401);
+  });
+});
+
+describe('logout', () => {
+  test('revokes only the current session', async () => {
+    const current = await login();
+    const other = await login();
+
+    expect((await request('POST', '/logout', { token: current.token })).status).toBe(200);
+
+    expect((await request('GET', '/me', { token: current.token })).status).toBe(401);
+    expect((await refresh(current.refreshToken)).status).toBe(401);
+    expect((await request('GET', '/me', { token: other.token })).status).toBe(200);
+  });
+
+  test('logout-all revokes every session', async () => {
+    const first = await login();
+    const second = await login();
+
+    const { status, body } = await request('POST', '/logout-all', { token: first.token });
+    expect(status).toBe(200);
+    expect(body.revoked).toBeGreaterThanOrEqual(2);
+
+    for (const session of [first, second]) {
+      expect((await request('GET', '/me', { token: session.token })).status).toBe(401);
+      expect((await refresh(session.refreshToken)).status).toBe(401);
+    }
+  });
+});
@@ -0,0 +1,232 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { dbRun, dbGet, dbAll, nowOffsetSql } from './database.js';
+import { authenticateApiKey } from './api-keys.js';
+import { responds, model, object, arrayOf, string, integer, boolean, nullable, message } from './responses.js';
+
+// Sign-in sessions. Each login creates a session holding a hashed refresh token;
+// the short-lived access token (a JWT) names its session, so revoking the session
+// locks out both tokens.
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// last_seen_at is only written when it's older than this, so every request isn't a write
+const LAST_SEEN_RESOLUTION = '-1 minute';
+
+interface Session {
+  id: number;
+  user_id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(32).toString('base64url');
+
+const signAccessToken = (userId: number, email: string, sessionId: number) =>
+  jwt.sign({ userId, email, sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+// The properties tokenResponse() adds to sign-in and refresh responses
+const sessionTokens = { token: string, refreshToken: string, expiresIn: integer };
+
+const tokenResponse = (accessToken: string, refreshToken: string) => ({
+  token: accessToken,
+  refreshToken,
+  expiresIn: ACCESS_TOKEN_TTL_SECONDS
+});
+
+// Start a session for a user who has just signed in
+async function createSession(user: { id: number; email: string }, req: any) {
+  const refreshToken = generateRefreshToken();
+  const result = await dbRun(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES (?, ?, ?, ?, ${nowOffsetSql('?')})`,
+    [user.id, hashToken(refreshToken), req.get('user-agent') || null, req.ip || null, `+${REFRESH_TOKEN_TTL_DAYS} days`]
+  );
+  return tokenResponse(signAccessToken(user.id, user.email, result.lastID), refreshToken);
+}
+
+// Exchange a refresh token for a new access token and a new refresh token. The old
+// refresh token stops working; presenting it again means it was copied, so the
+// whole session is revoked. Returns null when the token can't be used.
+async function refreshSession(refreshToken: string) {
+  const hash = hashToken(refreshToken);
+  const session = await dbGet(
+    `SELECT s.*, u.email FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.refresh_token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+       AND u.disabled_at IS NULL`,
+    [hash]
+  );
+
+  if (!session) {
+    await dbRun(
+      'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE previous_token_hash = ? AND revoked_at IS NULL',
+      [hash]
+    );
+    return null;
+  }
+
+  // Only rotate if the token is still current: a concurrent refresh with the same token
+  // that got there first is reuse too, and must not leave two live token chains
+  const nextToken = generateRefreshToken();
+  const rotated = await dbRun(
+    `UPDATE sessions SET refresh_token_hash = ?, previous_token_hash = ?, last_seen_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND refresh_token_hash = ?`,
+    [hashToken(nextToken), hash, session.id, hash]
+  );
+  if (rotated.changes === 0) {
+    await dbRun('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL', [session.id]);
+    return null;
+  }
+  return tokenResponse(signAccessToken(session.user_id, session.email, session.id), nextToken);
+}
+
+async function revokeSession(sessionId: number, userId: number) {
+  const result = await dbRun(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+    [sessionId, userId]
+  );
+  return result.changes > 0;
+}
+
+// Revoke every session for the user, optionally keeping one (e.g. the one making the request)
+async function revokeAllSessions(userId: number, exceptSessionId?: number) {
+  const result = await dbRun(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND id != ? AND revoked_at IS NULL',
+    [userId, exceptSessionId ?? 0]
+  );
+  return result.changes;
+}
+
+// The session and its user's role, if the session is live and the account isn't disabled
+const findActiveSession = (sessionId: number, userId: number) =>
+  dbGet(
+    `SELECT s.id, u.role FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.id = ? AND s.user_id = ? AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+       AND u.disabled_at IS NULL`,
+    [sessionId, userId]
+  );
+
+// Auth middleware: a valid access token whose session is still active, or an API key
+// (X-API-Key header) with a scope covering the request (api-keys.ts).
+// 401 means sign in or refresh again; 403 means the token was never valid.
+const authenticateToken = (req: any, res: any, next: any) => {
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    return authenticateApiKey(apiKey, req, res, next);
+  }
+
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return res.sendStatus(401);
+  }
+
+  jwt.verify(token, JWT_SECRET, async (err: any, user: any) => {
+    if (err) {
+      return err.name === 'TokenExpiredError'
+        ? res.status(401).json({ error: 'Access token expired' })
+        : res.sendStatus(403);
+    }
+
+    try {
+      const session = user.sessionId && await findActiveSession(user.sessionId, user.userId);
+      if (!session) {
+        return res.status(401).json({ error: 'Session has ended' });
+      }
+      await dbRun(
+        `UPDATE sessions SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ? AND last_seen_at < ${nowOffsetSql('?')}`,
+        [user.sessionId, LAST_SEEN_RESOLUTION]
+      );
+
+      req.user = { ...user, role: session.role };
+      next();
+    } catch (error) {
+      console.error('Authentication error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+};
+
+// Role check; use after authenticateToken, e.g. requireRole('admin'). The middleware
+// keeps its `roles` so the API document (openapi.ts) can list them.
+const requireRole = (...roles: string[]) => {
+  const middleware = (req: any, res: any, next: any) => {
+    if (!roles.includes(req.user?.role)) {
+      return res.status(403).json({ error: `${roles.map(role => role.charAt(0).toUpperCase() + role.slice(1)).join(' or ')} access required` });
+    }
+    next();
+  };
+  return Object.assign(middleware, { roles });
+};
+
+const sessionInfoModel = model('SessionInfo', object({
+  id: integer,
+  user_agent: nullable(string),
+  ip_address: nullable(string),
+  created_at: string,
+  last_seen_at: string,
+  expires_at: string,
+  // The session making the request
+  current: boolean
+}));
+
+// List and revoke your own sessions. Mount at /api/sessions behind authenticateToken.
+function createSessionsRouter() {
+  const router = express.Router();
+
+  router.get('/', responds(object({ data: arrayOf(sessionInfoModel) })), async (req: any, res: any) => {
+    try {
+      const sessions: Session[] = await dbAll(
+        `SELECT id, user_id, user_agent, ip_address, created_at, last_seen_at, expires_at FROM sessions
+         WHERE user_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         ORDER BY last_seen_at DESC`,
+        [req.user.userId]
+      );
+
+      res.json({
+        data: sessions.map(({ user_id, ...session }) => ({ ...session, current: session.id === req.user.sessionId }))
+      });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', responds(message), async (req: any, res: any) => {
+    try {
+      if (!await revokeSession(Number(req.params.id), req.user.userId)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_DAYS,
+  sessionTokens,
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  authenticateToken,
+  requireRole,
+  createSessionsRouter
+};
+export type { Session };
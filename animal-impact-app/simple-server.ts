@@ -3,219 +3,60 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import path from 'path';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-
+import { computeImpact } from './impact-model.js';
+import { createRepositories } from './repositories.js';
+import { baseResources, createActivityRouter } from './activity-routes.js';
+import { registerSchema, loginSchema } from './schemas.js';
+import { validateBody } from './validation.js';
+
+// A lighter server with no sessions, teams or reports. Storage is chosen by
+// STORAGE_BACKEND and defaults to the JSON file (data.json). With the JSON file the
+// SQL database is never opened: routes come from activity-routes.ts, not activities.ts.
 const app = express();
 const PORT = process.env.PORT || 3001;
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const DB_FILE = 'data.json';
-
-// Simple JSON database
-interface User {
-  id: number;
-  email: string;
-  name: string;
-  password: string;
-  created_at: string;
-}
+const repositories = await createRepositories(process.env.STORAGE_BACKEND || 'json');
 
-interface Donation {
-  id: number;
-  user_id: number;
-  organization: string;
-  amount: number;
-  date: string;
-  notes: string;
-  created_at: string;
-}
+// Exchange rates and the organization catalogue only exist in SQLite, so donations
+// here are recorded in USD and skip currency checks and catalogue linking
+const donationsResource = {
+  ...baseResources.donations,
+  fields: baseResources.donations.fields.filter(field => field.type !== 'currency')
+};
 
-interface Conversion {
-  id: number;
-  user_id: number;
-  person_name: string;
-  conversion_date: string;
-  influence_type: string;
-  notes: string;
-  created_at: string;
-}
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
 
-interface Media {
-  id: number;
-  user_id: number;
-  platform: string;
-  content_type: string;
-  reach_estimate: number;
-  date: string;
-  url: string;
-  notes: string;
-  created_at: string;
-}
+// Initialize with demo data if the demo user doesn't exist yet
+async function initializeDemoData() {
+  if (await repositories.users.findByEmail('johndoe@gmail.com')) return;
 
-interface Campaign {
-  id: number;
-  user_id: number;
-  campaign_name: string;
-  organization: string;
-  participation_type: string;
-  date: string;
-  impact_description: string;
-  created_at: string;
-}
+  const hashedPassword = await bcrypt.hash('password123', 10);
+  const userId = await repositories.users.create({
+    email: 'johndoe@gmail.com',
+    name: 'John Doe',
+    password: hashedPassword
+  });
 
-interface Database {
-  users: User[];
-  donations: Donation[];
-  conversions: Conversion[];
-  media: Media[];
-  campaigns: Campaign[];
-  lastId: number;
-}
+  const today = isoDate(new Date());
+  const lastMonth = isoDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
 
-// Initialize database
-let db: Database;
+  // Sample donations
+  await repositories.donations.create(userId, { organization: 'Animal Sanctuary Fund', amount: 200, date: today, notes: 'Monthly donation' });
+  await repositories.donations.create(userId, { organization: 'Wildlife Protection Org', amount: 150, date: lastMonth, notes: 'One-time donation' });
+  await repositories.donations.create(userId, { organization: 'Farm Animal Welfare', amount: 100, date: lastMonth, notes: 'Monthly donation' });
 
-function loadDatabase(): Database {
-  if (existsSync(DB_FILE)) {
-    try {
-      const data = readFileSync(DB_FILE, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      console.error('Error loading database:', error);
-    }
-  }
-  
-  // Create default database with demo user
-  return {
-    users: [],
-    donations: [],
-    conversions: [],
-    media: [],
-    campaigns: [],
-    lastId: 0
-  };
-}
+  // Sample conversions
+  await repositories.conversions.create(userId, { person_name: 'Alice Smith', conversion_date: lastMonth, influence_type: 'Documentary sharing', notes: 'Showed Dominion documentary' });
+  await repositories.conversions.create(userId, { person_name: 'Bob Johnson', conversion_date: lastMonth, influence_type: 'Restaurant visit', notes: 'Took to vegan restaurant' });
 
-function saveDatabase() {
-  try {
-    writeFileSync(DB_FILE, JSON.stringify(db, null, 2));
-  } catch (error) {
-    console.error('Error saving database:', error);
-  }
-}
+  // Sample media
+  await repositories.media.create(userId, { platform: 'Facebook', content_type: 'Video', reach_estimate: 500, date: today, url: '', notes: 'Farm animal video' });
+  await repositories.media.create(userId, { platform: 'Instagram', content_type: 'Story', reach_estimate: 200, date: today, url: '', notes: 'Vegan meal photo' });
 
-// Load initial data
-db = loadDatabase();
+  // Sample campaigns
+  await repositories.campaigns.create(userId, { campaign_name: 'Factory Farm Ban', organization: 'Animal Justice League', participation_type: 'Petition signing', date: lastMonth, impact_description: 'Helped gather 1000 signatures' });
 
-// Initialize with demo data if empty
-async function initializeDemoData() {
-  if (db.users.length === 0) {
-    const hashedPassword = await bcrypt.hash('password123', 10);
-    const demoUser: User = {
-      id: ++db.lastId,
-      email: 'johndoe@gmail.com',
-      name: 'John Doe',
-      password: hashedPassword,
-      created_at: new Date().toISOString()
-    };
-    
-    db.users.push(demoUser);
-    
-    const today = new Date().toISOString().split('T')[0];
-    const lastMonth = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    
-    // Sample donations
-    db.donations.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      organization: 'Animal Sanctuary Fund',
-      amount: 200,
-      date: today,
-      notes: 'Monthly donation',
-      created_at: new Date().toISOString()
-    });
-    
-    db.donations.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      organization: 'Wildlife Protection Org',
-      amount: 150,
-      date: lastMonth,
-      notes: 'One-time donation',
-      created_at: new Date().toISOString()
-    });
-    
-    db.donations.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      organization: 'Farm Animal Welfare',
-      amount: 100,
-      date: lastMonth,
-      notes: 'Monthly donation',
-      created_at: new Date().toISOString()
-    });
-    
-    // Sample conversions
-    db.conversions.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      person_name: 'Alice Smith',
-      conversion_date: lastMonth,
-      influence_type: 'Documentary sharing',
-      notes: 'Showed Dominion documentary',
-      created_at: new Date().toISOString()
-    });
-    
-    db.conversions.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      person_name: 'Bob Johnson',
-      conversion_date: lastMonth,
-      influence_type: 'Restaurant visit',
-      notes: 'Took to vegan restaurant',
-      created_at: new Date().toISOString()
-    });
-    
-    // Sample media
-    db.media.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      platform: 'Facebook',
-      content_type: 'Video',
-      reach_estimate: 500,
-      date: today,
-      url: '',
-      notes: 'Farm animal video',
-      created_at: new Date().toISOString()
-    });
-    
-    db.media.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      platform: 'Instagram',
-      content_type: 'Story',
-      reach_estimate: 200,
-      date: today,
-      url: '',
-      notes: 'Vegan meal photo',
-      created_at: new Date().toISOString()
-    });
-    
-    // Sample campaigns
-    db.campaigns.push({
-      id: ++db.lastId,
-      user_id: demoUser.id,
-      campaign_name: 'Factory Farm Ban',
-      organization: 'Animal Justice League',
-      participation_type: 'Petition signing',
-      date: lastMonth,
-      impact_description: 'Helped gather 1000 signatures',
-      created_at: new Date().toISOString()
-    });
-    
-    saveDatabase();
-    console.log('Demo data initialized');
-  }
+  console.log('Demo data initialized');
 }
 
 // Middleware
@@ -246,20 +87,12 @@ const authenticateToken = (req: any, res: any, next: any) => {
 };
 
 // Auth routes
-app.post('/api/register', async (req, res) => {
+app.post('/api/register', validateBody(registerSchema), async (req: any, res: any) => {
   try {
     const { email, name, password } = req.body;
 
-    if (!email || !name || !password) {
-      return res.status(400).json({ error: 'All fields are required' });
-    }
-
-    if (password.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters' });
-    }
-
     // Check if user exists
-    const existingUser = db.users.find(u => u.email === email);
+    const existingUser = await repositories.users.findByEmail(email);
     if (existingUser) {
       return res.status(400).json({ error: 'User already exists' });
     }
@@ -268,24 +101,15 @@ app.post('/api/register', async (req, res) => {
     const hashedPassword = await bcrypt.hash(password, 10);
 
     // Create user
-    const newUser: User = {
-      id: ++db.lastId,
-      email,
-      name,
-      password: hashedPassword,
-      created_at: new Date().toISOString()
-    };
-    
-    db.users.push(newUser);
-    saveDatabase();
+    const userId = await repositories.users.create({ email, name, password: hashedPassword });
 
     // Generate JWT
-    const token = jwt.sign({ userId: newUser.id, email }, JWT_SECRET, { expiresIn: '7d' });
+    const token = jwt.sign({ userId, email }, JWT_SECRET, { expiresIn: '7d' });
 
     res.status(201).json({
       message: 'User created successfully',
       token,
-      user: { id: newUser.id, email: newUser.email, name: newUser.name }
+      user: { id: userId, email, name }
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -293,16 +117,12 @@ app.post('/api/register', async (req, res) => {
   }
 });
 
-app.post('/api/login', async (req, res) => {
+app.post('/api/login', validateBody(loginSchema), async (req: any, res: any) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' });
-    }
-
     // Get user
-    const user = db.users.find(u => u.email === email);
+    const user = await repositories.users.findByEmail(email);
     if (!user) {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
@@ -328,30 +148,39 @@ app.post('/api/login', async (req, res) => {
 });
 
 // Dashboard data route
-app.get('/api/dashboard', authenticateToken, (req: any, res) => {
+app.get('/api/dashboard', authenticateToken, async (req: any, res: any) => {
   try {
     const userId = req.user.userId;
 
     // Get user info
-    const user = db.users.find(u => u.id === userId);
+    const user = await repositories.users.findById(userId);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
-    
+
     // Get statistics
-    const userDonations = db.donations.filter(d => d.user_id === userId);
-    const userConversions = db.conversions.filter(c => c.user_id === userId);
-    const userMedia = db.media.filter(m => m.user_id === userId);
-    const userCampaigns = db.campaigns.filter(c => c.user_id === userId);
-    
+    const userDonations = await repositories.donations.all(userId);
+    const userConversions = await repositories.conversions.all(userId);
+    const userMedia = await repositories.media.all(userId);
+    const userCampaigns = await repositories.campaigns.all(userId);
+
     const totalDonations = userDonations.reduce((sum, d) => sum + d.amount, 0);
     const conversionCount = userConversions.length;
     const mediaCount = userMedia.length;
     const totalReach = userMedia.reduce((sum, m) => sum + m.reach_estimate, 0);
     const campaignCount = userCampaigns.length;
 
-    // Calculate animal impact (average 365 animals saved per person per year going vegan)
-    const animalsImpact = conversionCount * 365;
+    // Calculate animal impact with the active impact model
+    const impact = computeImpact({
+      conversions: userConversions,
+      donations: userDonations,
+      totalReach,
+      campaignCount
+    });
+    const animalsImpact = impact.total;
+
+    // Most recent first
+    const recent = <T>(records: T[]) => records.slice(-10).reverse();
 
     res.json({
       user: { id: user.id, email: user.email, name: user.name },
@@ -363,11 +192,12 @@ app.get('/api/dashboard', authenticateToken, (req: any, res) => {
         campaignCount,
         animalsImpact
       },
+      impact,
       recent: {
-        donations: userDonations.slice(0, 10).reverse(),
-        conversions: userConversions.slice(0, 10).reverse(),
-        media: userMedia.slice(0, 10).reverse(),
-        campaigns: userCampaigns.slice(0, 10).reverse()
+        donations: recent(userDonations),
+        conversions: recent(userConversions),
+        media: recent(userMedia),
+        campaigns: recent(userCampaigns)
       }
     });
   } catch (error) {
@@ -376,38 +206,11 @@ app.get('/api/dashboard', authenticateToken, (req: any, res) => {
   }
 });
 
-// Data entry routes
-app.post('/api/donations', authenticateToken, (req: any, res) => {
-  try {
-    const { organization, amount, date, notes } = req.body;
-    const userId = req.user.userId;
-
-    if (!organization || !amount || !date) {
-      return res.status(400).json({ error: 'Organization, amount, and date are required' });
-    }
-
-    const donation: Donation = {
-      id: ++db.lastId,
-      user_id: userId,
-      organization,
-      amount: parseFloat(amount),
-      date,
-      notes: notes || '',
-      created_at: new Date().toISOString()
-    };
-    
-    db.donations.push(donation);
-    saveDatabase();
-    
-    res.status(201).json({ 
-      message: 'Donation recorded successfully',
-      id: donation.id
-    });
-  } catch (error) {
-    console.error('Create donation error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// Activity routes: the same router server.ts uses, over this server's repositories
+app.use('/api/donations', authenticateToken, createActivityRouter(donationsResource, repositories.donations));
+app.use('/api/conversions', authenticateToken, createActivityRouter(baseResources.conversions, repositories.conversions));
+app.use('/api/media', authenticateToken, createActivityRouter(baseResources.media, repositories.media));
+app.use('/api/campaigns', authenticateToken, createActivityRouter(baseResources.campaigns, repositories.campaigns));
 
 // Initialize demo data and start server
 initializeDemoData().then(() => {
@@ -415,9 +218,3 @@ initializeDemoData().then(() => {
     console.log(`Server running on port ${PORT}`);
   });
 });
-
-// Graceful shutdown
-process.on('SIGINT', () => {
-  saveDatabase();
-  process.exit(0);
-});
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { dbRun, dbGet, dbAll } from './database.js';
+import type { ListOptions, RecordRepository, UserRepository, Repositories } from './repositories.js';
+
+// Repositories over the SQLite tables created in database.ts
+function createSqliteRecordRepository<T = any>(table: string, dateColumn: string): RecordRepository<T> {
+  return {
+    async list(userId: number, { from, to, sort, order, limit, offset }: ListOptions) {
+      const conditions = ['user_id = ?'];
+      const params: any[] = [userId];
+      if (from) {
+        conditions.push(`${dateColumn} >= ?`);
+        params.push(from);
+      }
+      if (to) {
+        conditions.push(`${dateColumn} <= ?`);
+        params.push(to);
+      }
+      const where = conditions.join(' AND ');
+      const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+      const totalResult = await dbGet(`SELECT COUNT(*) as count FROM ${table} WHERE ${where}`, params);
+      const rows = await dbAll(
+        `SELECT * FROM ${table} WHERE ${where} ORDER BY ${sort} ${direction}, created_at ${direction} LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+      return { rows, total: totalResult?.count || 0 };
+    },
+
+    all: (userId: number) => dbAll(`SELECT * FROM ${table} WHERE user_id = ? ORDER BY ${dateColumn}, id`, [userId]),
+
+    find: (id: number, userId: number) => dbGet(`SELECT * FROM ${table} WHERE id = ? AND user_id = ?`, [id, userId]),
+
+    async create(userId: number, values: Record<string, any>) {
+      const columns = Object.keys(values);
+      const result = await dbRun(
+        `INSERT INTO ${table} (user_id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`,
+        [userId, ...Object.values(values)]
+      );
+      return result.lastID;
+    },
+
+    async update(id: number, userId: number, values: Record<string, any>) {
+      await dbRun(
+        `UPDATE ${table} SET ${Object.keys(values).map(column => `${column} = ?`).join(', ')} WHERE id = ? AND user_id = ?`,
+        [...Object.values(values), id, userId]
+      );
+    },
+
+    async delete(id: number, userId: number) {
+      const result = await dbRun(`DELETE FROM ${table} WHERE id = ? AND user_id = ?`, [id, userId]);
+      return result.changes > 0;
+    }
+  };
+}
+
+const sqliteUserRepository: UserRepository = {
+  findById: (id: number) => dbGet('SELECT id, email, name, password, created_at FROM users WHERE id = ?', [id]),
+
+  findByEmail: (email: string) => dbGet('SELECT id, email, name, password, created_at FROM users WHERE email = ?', [email]),
+
+  async create({ email, name, password }) {
+    const result = await dbRun('INSERT INTO users (email, name, password) VALUES (?, ?, ?)', [email, name, password]);
+    return result.lastID;
+  }
+};
+
+function createSqliteRepositories(): Repositories {
+  return {
+    users: sqliteUserRepository,
+    donations: createSqliteRecordRepository('donations', 'date'),
+    conversions: createSqliteRecordRepository('vegan_conversions', 'conversion_date'),
+    media: createSqliteRecordRepository('media_shared', 'date'),
+    campaigns: createSqliteRecordRepository('campaigns', 'date')
+  };
+}
+
+export { createSqliteRecordRepository, createSqliteRepositories };
@@ -1,23 +1,63 @@
-import { useState, useEffect, createContext, useContext } from "react";
-import { BrowserRouter as Router, Routes, Route, Link, useNavigate, Navigate } from "react-router-dom";
+import { useState, useEffect, useRef, createContext, useContext } from "react";
+import { BrowserRouter as Router, Routes, Route, Link, useNavigate, useParams, useSearchParams, Navigate } from "react-router-dom";
+import {
+  MIN_PASSWORD_LENGTH,
+  CAUSE_AREAS,
+  GOAL_METRIC_NAMES,
+  PROFILE_SECTIONS,
+  API_KEY_RESOURCES,
+  validate,
+  registerSchema,
+  loginSchema,
+  resetPasswordSchema,
+  profileSchema,
+  changePasswordSchema,
+  donationSchema,
+  conversionSchema,
+  mediaSchema,
+  campaignSchema,
+  recurringDonationSchema,
+  goalSchema,
+  organizationSchema,
+  apiKeySchema,
+} from "../schemas.js";
+import type { Field, Schema, FieldErrors } from "../schemas.js";
+import { createApiClient } from "./api-client";
+import type { ApiPath, ApiOptions, ApiResponse, ApiKey, PublicProfileRecord, TeamDetails, TeamMemberRole } from "./api-client";
 
 // Types
 interface User {
   id: number;
   email: string;
   name: string;
+  role?: UserRole;
+  display_currency?: string;
+  email_verified_at?: string | null;
 }
 
+type UserRole = "user" | "admin";
+
 interface DashboardData {
   user: User;
   stats: {
     totalDonations: number;
+    currency: string;
     conversionCount: number;
     mediaCount: number;
     totalReach: number;
     campaignCount: number;
     animalsImpact: number;
   };
+  impact: {
+    modelVersion: string;
+    total: number;
+    breakdown: {
+      conversions: number;
+      donations: number;
+      media: number;
+      campaigns: number;
+    };
+  };
   recent: {
     donations: any[];
     conversions: any[];
@@ -26,13 +66,211 @@ interface DashboardData {
   };
 }
 
+type ProfileSection = (typeof PROFILE_SECTIONS)[number];
+
+interface PublicProfileSettings {
+  slug: string;
+  display_name: string;
+  sections: ProfileSection[];
+}
+
+// Only the stats and impact types in `sections` are present
+interface PublicProfileData {
+  name: string;
+  sections: string[];
+  stats: Partial<DashboardData["stats"]>;
+  impact: {
+    modelVersion: string;
+    total: number;
+    breakdown: Partial<DashboardData["impact"]["breakdown"]>;
+  } | null;
+  // Unlocked achievements only
+  achievements: Achievement[] | null;
+}
+
+interface SessionInfo {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface ApiKeyInfo {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+}
+
+interface AdminUser {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  email_verified_at: string | null;
+  disabled_at: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+}
+
+interface PlatformStats {
+  users: {
+    total: number;
+    admins: number;
+    disabled: number;
+    verified: number;
+    newLast30Days: number;
+    activeLast30Days: number;
+  };
+  records: Record<string, number>;
+  totalDonations: number;
+  currency: string;
+}
+
+interface Backup {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+interface Organization {
+  id: number;
+  name: string;
+  aliases: string[];
+  cause_area: string;
+  animals_per_dollar: number;
+  source: string | null;
+}
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  unlockedAt: string | null;
+}
+
+interface TeamSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  role: TeamRole;
+  member_count: number;
+}
+
+type TeamRole = "owner" | "admin" | "member";
+
+interface TeamDashboardData {
+  team: { id: number; name: string; description: string };
+  stats: DashboardData["stats"];
+  impact: DashboardData["impact"];
+  memberCount: number;
+  hiddenMembers: number;
+  members: {
+    userId: number;
+    name: string;
+    role: TeamRole;
+    stats: DashboardData["stats"];
+    impact: DashboardData["impact"];
+  }[];
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// A form input, generated from a field of the resource's shared schema by formFields
+interface ActivityField {
+  name: string;
+  label: string;
+  type?: "text" | "number" | "date" | "url";
+  required?: boolean;
+  // Renders a select instead of a text input
+  options?: string[];
+  // Loads the select's options from an API list endpoint instead
+  optionsEndpoint?: ApiPath<"GET">;
+  defaultValue?: string;
+}
+
+interface ActivityAction {
+  label: string;
+  // POSTed with the row's id, e.g. "/recurring-donations/{id}/pause"
+  path: ApiPath<"POST">;
+  visible: (row: any) => boolean;
+  confirm?: string;
+}
+
+type ActivityEndpoint = "/donations" | "/conversions" | "/media" | "/campaigns" | "/recurring-donations" | "/goals";
+
+interface ActivityConfig {
+  title: string;
+  singular: string;
+  icon: string;
+  endpoint: ActivityEndpoint;
+  dateField: string;
+  // The request body schema the API validates with; the form checks it before submitting
+  schema: Schema;
+  fields: ActivityField[];
+  columns: { key: string; label: string; format?: (value: any, row: any) => string }[];
+  actions?: ActivityAction[];
+}
+
+interface TimeseriesBucket {
+  period: string;
+  value: number;
+}
+
+type GoalMetric = (typeof GOAL_METRIC_NAMES)[number];
+
+interface GoalProgress {
+  goal: {
+    id: number;
+    title: string;
+    metric: GoalMetric;
+    target: number;
+    currency: string;
+    start_date: string;
+    end_date: string;
+  };
+  current: number;
+  percent: number;
+  projected: number;
+  projectedCompletionDate: string | null;
+  daysLeft: number;
+  status: "upcoming" | "on_track" | "at_risk" | "completed" | "missed";
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  mapping: Record<string, string | null>;
+  missingFields: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  imported: number;
+  errors: { row: number; messages: string[] }[];
+  duplicates: number[];
+  preview: { row: number; status: "valid" | "invalid" | "duplicate"; values: Record<string, string>; messages: string[] }[];
+}
+
 // Auth Context
 interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<boolean>;
   register: (email: string, name: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -51,44 +289,107 @@ const API_BASE = window.location.origin.includes('localhost')
   ? 'http://localhost:3001/api' 
   : '/api';
 
-const api = {
-  async post(endpoint: string, data: any, token?: string) {
-    const headers: any = {
-      'Content-Type': 'application/json',
-    };
-    if (token) {
-      headers.Authorization = `Bearer ${token}`;
+// Session tokens live in localStorage. The access token is short-lived; when a request
+// comes back 401 the refresh token is exchanged for a new pair and the request retried.
+const sessionStore = {
+  listener: null as ((token: string | null) => void) | null,
+
+  save(token: string, refreshToken: string) {
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', refreshToken);
+    sessionStore.listener?.(token);
+  },
+
+  clear() {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    sessionStore.listener?.(null);
+  },
+};
+
+// Shared between concurrent requests, so a refresh token is only ever used once
+let pendingRefresh: Promise<string | null> | null = null;
+
+const refreshAccessToken = () => {
+  pendingRefresh ??= (async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) {
+      sessionStore.clear();
+      return null;
     }
-    
-    const response = await fetch(`${API_BASE}${endpoint}`, {
+
+    const response = await fetch(`${API_BASE}/token/refresh`, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(data),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
     });
-    
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Request failed');
+      sessionStore.clear();
+      return null;
     }
-    
-    return response.json();
-  },
 
-  async get(endpoint: string, token: string) {
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
+    const tokens = await response.json() as ApiResponse<'POST', '/token/refresh'>;
+    sessionStore.save(tokens.token, tokens.refreshToken);
+    return tokens.token;
+  })().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+};
+
+async function request(endpoint: string, init: RequestInit, token?: string) {
+  const send = (accessToken?: string) =>
+    fetch(`${API_BASE}${endpoint}`, {
+      ...init,
+      headers: { ...init.headers, ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}) },
     });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Request failed');
+
+  let response = await send(token);
+  if (response.status === 401 && token) {
+    const refreshed = await refreshAccessToken();
+    if (refreshed) {
+      response = await send(refreshed);
     }
-    
-    return response.json();
   }
-};
+
+  // Validation failures (422) also carry a message per field, kept on the error as `fields`
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({})) as { error?: string; fields?: FieldErrors };
+    const fields = error.fields;
+    const message = fields ? Object.values(fields).join('. ') : error.error;
+    throw Object.assign(new Error(message || 'Request failed'), { fields });
+  }
+
+  return response;
+}
+
+// Check form values against a shared schema (schemas.ts); returns the messages to show by each field
+const checkForm = (schema: Schema, values: Record<string, any>): FieldErrors => validate(schema, values).errors ?? {};
+
+// Typed client generated from the API's OpenAPI document (bun run api:client)
+const api = createApiClient(request);
+
+// Hand a file response to the browser as a download
+async function saveDownload(response: Response) {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="(.+)"/)?.[1] || 'download';
+  const blob = new Blob([await response.arrayBuffer()], { type: response.headers.get('Content-Type') || '' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Format an amount in its ISO currency code, e.g. formatMoney(12.5, "GBP") -> "£12.50"
+const formatMoney = (amount: number, currency = "USD", fractionDigits = 2) =>
+  new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(Number(amount));
 
 // Auth Provider
 function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -96,13 +397,32 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
   const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
   const [isLoading, setIsLoading] = useState(false);
 
+  // Follow token refreshes (and sessions ending) done by the api helper
+  useEffect(() => {
+    sessionStore.listener = (nextToken) => {
+      setToken(nextToken);
+      if (!nextToken) setUser(null);
+    };
+    return () => {
+      sessionStore.listener = null;
+    };
+  }, []);
+
+  // A stored token survives a reload but the user doesn't, so look them up again
+  useEffect(() => {
+    if (!token || user) return;
+
+    api.get('/me', { token })
+      .then((response) => setUser(response.data))
+      .catch((error) => console.error('Load user error:', error));
+  }, [token, user]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       setIsLoading(true);
-      const response = await api.post('/login', { email, password });
-      setToken(response.token);
+      const response = await api.post('/login', { body: { email, password } });
+      sessionStore.save(response.token, response.refreshToken);
       setUser(response.user);
-      localStorage.setItem('token', response.token);
       return true;
     } catch (error) {
       console.error('Login error:', error);
@@ -115,10 +435,9 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
   const register = async (email: string, name: string, password: string): Promise<boolean> => {
     try {
       setIsLoading(true);
-      const response = await api.post('/register', { email, name, password });
-      setToken(response.token);
+      const response = await api.post('/register', { body: { email, name, password } });
+      sessionStore.save(response.token, response.refreshToken);
       setUser(response.user);
-      localStorage.setItem('token', response.token);
       return true;
     } catch (error) {
       console.error('Register error:', error);
@@ -128,14 +447,23 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const logout = () => {
-    setToken(null);
-    setUser(null);
-    localStorage.removeItem('token');
+  // Revoke the session on the server too; sign out locally even if that fails
+  const endSession = async (endpoint: '/logout' | '/logout-all') => {
+    try {
+      if (token) await api.post(endpoint, { token });
+    } catch (error) {
+      console.error('Logout error:', error);
+    } finally {
+      sessionStore.clear();
+    }
   };
 
+  const logout = () => endSession('/logout');
+
+  const logoutAll = () => endSession('/logout-all');
+
   return (
-    <AuthContext.Provider value={{ user, token, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, register, logout, logoutAll, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -185,6 +513,9 @@ const Button = ({
   );
 };
 
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
 const Input = ({ 
   label, 
   type = "text", 
@@ -192,6 +523,7 @@ const Input = ({
   onChange, 
   required = false,
   placeholder = "",
+  error,
   className = ""
 }: {
   label?: string;
@@ -200,6 +532,7 @@ const Input = ({
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   required?: boolean;
   placeholder?: string;
+  error?: string;
   className?: string;
 }) => (
   <div className={className}>
@@ -214,8 +547,49 @@ const Input = ({
       onChange={onChange}
       required={required}
       placeholder={placeholder}
-      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      className={`w-full px-3 py-2 border ${error ? "border-red-400" : "border-gray-300"} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
     />
+    <FieldError message={error} />
+  </div>
+);
+
+const Select = ({ 
+  label, 
+  value, 
+  onChange, 
+  options,
+  required = false,
+  placeholder,
+  error,
+  className = ""
+}: {
+  label?: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  options: { value: string; label: string }[];
+  required?: boolean;
+  placeholder?: string;
+  error?: string;
+  className?: string;
+}) => (
+  <div className={className}>
+    {label && (
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+    )}
+    <select
+      value={value}
+      onChange={onChange}
+      required={required}
+      className={`w-full px-3 py-2 border ${error ? "border-red-400" : "border-gray-300"} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+    >
+      {placeholder !== undefined && <option value="">{placeholder}</option>}
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+    <FieldError message={error} />
   </div>
 );
 
@@ -231,6 +605,115 @@ const Card = ({
   </div>
 );
 
+// Simple SVG charts
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const ChartFrame = ({
+  buckets,
+  formatValue,
+  children
+}: {
+  buckets: TimeseriesBucket[];
+  formatValue: (value: number) => string;
+  children: React.ReactNode;
+}) => {
+  const max = Math.max(...buckets.map((bucket) => bucket.value), 0);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+      <line
+        x1={CHART_PADDING}
+        y1={CHART_HEIGHT - CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={CHART_HEIGHT - CHART_PADDING}
+        className="stroke-gray-200"
+      />
+      {children}
+      <text x={CHART_PADDING} y={12} className="fill-gray-500 text-[10px]">{formatValue(max)}</text>
+      {buckets.length > 0 && (
+        <>
+          <text x={CHART_PADDING} y={CHART_HEIGHT - 6} className="fill-gray-500 text-[10px]">
+            {buckets[0]!.period}
+          </text>
+          <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {buckets[buckets.length - 1]!.period}
+          </text>
+        </>
+      )}
+    </svg>
+  );
+};
+
+// Map bucket index/value to chart coordinates
+const chartScale = (buckets: TimeseriesBucket[]) => {
+  const max = Math.max(...buckets.map((bucket) => bucket.value), 1);
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slot = innerWidth / Math.max(buckets.length, 1);
+
+  return {
+    slot,
+    x: (index: number) => CHART_PADDING + slot * index + slot / 2,
+    y: (value: number) => CHART_HEIGHT - CHART_PADDING - (value / max) * innerHeight,
+  };
+};
+
+const LineChart = ({
+  buckets,
+  formatValue = (value) => value.toLocaleString(),
+  className = "stroke-blue-600"
+}: {
+  buckets: TimeseriesBucket[];
+  formatValue?: (value: number) => string;
+  className?: string;
+}) => {
+  const { x, y } = chartScale(buckets);
+  const points = buckets.map((bucket, index) => `${x(index)},${y(bucket.value)}`).join(" ");
+
+  return (
+    <ChartFrame buckets={buckets} formatValue={formatValue}>
+      <polyline points={points} fill="none" strokeWidth={2} className={className} />
+      {buckets.map((bucket, index) => (
+        <circle key={bucket.period} cx={x(index)} cy={y(bucket.value)} r={2.5} className={className}>
+          <title>{`${bucket.period}: ${formatValue(bucket.value)}`}</title>
+        </circle>
+      ))}
+    </ChartFrame>
+  );
+};
+
+const BarChart = ({
+  buckets,
+  formatValue = (value) => value.toLocaleString(),
+  className = "fill-blue-600"
+}: {
+  buckets: TimeseriesBucket[];
+  formatValue?: (value: number) => string;
+  className?: string;
+}) => {
+  const { slot, x, y } = chartScale(buckets);
+  const barWidth = Math.max(slot * 0.7, 1);
+
+  return (
+    <ChartFrame buckets={buckets} formatValue={formatValue}>
+      {buckets.map((bucket, index) => (
+        <rect
+          key={bucket.period}
+          x={x(index) - barWidth / 2}
+          y={y(bucket.value)}
+          width={barWidth}
+          height={CHART_HEIGHT - CHART_PADDING - y(bucket.value)}
+          className={className}
+        >
+          <title>{`${bucket.period}: ${formatValue(bucket.value)}`}</title>
+        </rect>
+      ))}
+    </ChartFrame>
+  );
+};
+
 // Landing Page
 function LandingPage() {
   return (
@@ -328,6 +811,7 @@ function AuthPage() {
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
   const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const { login, register, isLoading } = useAuth();
   const navigate = useNavigate();
 
@@ -341,6 +825,10 @@ function AuthPage() {
     e.preventDefault();
     setError("");
 
+    const errors = checkForm(isLogin ? loginSchema : registerSchema, { email, name, password });
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     const success = isLogin 
       ? await login(email, password)
       : await register(email, name, password);
@@ -412,6 +900,7 @@ function AuthPage() {
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 required
+                error={fieldErrors.name}
               />
             )}
             <Input
@@ -420,6 +909,7 @@ function AuthPage() {
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
+              error={fieldErrors.email}
             />
             <Input
               label="Password"
@@ -427,9 +917,10 @@ function AuthPage() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
+              error={fieldErrors.password}
             />
             {!isLogin && (
-              <p className="text-xs text-gray-500">Password must be at least 6 characters</p>
+              <p className="text-xs text-gray-500">Password must be at least {MIN_PASSWORD_LENGTH} characters</p>
             )}
             <Button 
               type="submit" 
@@ -438,6 +929,11 @@ function AuthPage() {
             >
               {isLoading ? "Loading..." : (isLogin ? "Log In" : "Create Account")}
             </Button>
+            {isLogin && (
+              <p className="text-center text-sm">
+                <Link to="/forgot-password" className="text-blue-600 hover:underline">Forgot your password?</Link>
+              </p>
+            )}
           </form>
         </Card>
       </div>
@@ -445,30 +941,215 @@ function AuthPage() {
   );
 }
 
-// Dashboard Page
-function DashboardPage() {
-  const [data, setData] = useState<DashboardData | null>(null);
-  const [loading, setLoading] = useState(true);
+// Centered card used by the signed-out account pages
+function AccountLayout({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <Link to="/" className="block text-center">
+          <h1 className="text-3xl font-bold text-blue-600 mb-8">Animal Impact</h1>
+        </Link>
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4">{title}</h2>
+          {children}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      const response = await api.post("/password/forgot", { body: { email } });
+      setMessage(response.message);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AccountLayout title="Reset your password">
+      {message ? (
+        <p className="text-sm text-gray-700">{message}. Check your inbox for a link to choose a new password.</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">Enter your account's email and we'll send you a reset link.</p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Input label="Email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          <Button type="submit" className="w-full">Send reset link</Button>
+        </form>
+      )}
+      <p className="text-center text-sm mt-4">
+        <Link to="/auth" className="text-blue-600 hover:underline">Back to login</Link>
+      </p>
+    </AccountLayout>
+  );
+}
+
+function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const [password, setPassword] = useState("");
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState("");
+  const token = searchParams.get("token") || "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const [problem] = Object.values(checkForm(resetPasswordSchema, { token, password }));
+    setError(problem ?? "");
+    if (problem) return;
+
+    try {
+      await api.post("/password/reset", { body: { token, password } });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AccountLayout title="Choose a new password">
+      {done ? (
+        <p className="text-sm text-gray-700">
+          Your password has been changed and you've been signed out everywhere.{" "}
+          <Link to="/auth" className="text-blue-600 hover:underline">Log in</Link> with your new password.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Input label="New password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+          <p className="text-xs text-gray-500">Password must be at least {MIN_PASSWORD_LENGTH} characters</p>
+          <Button type="submit" className="w-full" disabled={!token}>Set password</Button>
+        </form>
+      )}
+    </AccountLayout>
+  );
+}
+
+function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying");
   const [error, setError] = useState("");
-  const { token, logout } = useAuth();
+  const token = searchParams.get("token") || "";
+  // Tokens are single-use, so don't send it twice when effects re-run in development
+  const sent = useRef(false);
 
   useEffect(() => {
-    const fetchDashboard = async () => {
-      if (!token) return;
-      
+    if (sent.current) return;
+    sent.current = true;
+
+    const verify = async () => {
       try {
-        const dashboardData = await api.get('/dashboard', token);
-        setData(dashboardData);
+        await api.post("/email/verify", { body: { token } });
+        setStatus("verified");
       } catch (err: any) {
         setError(err.message);
-      } finally {
-        setLoading(false);
+        setStatus("failed");
       }
     };
 
+    verify();
+  }, [token]);
+
+  return (
+    <AccountLayout title="Email verification">
+      {status === "verifying" && <p className="text-sm text-gray-600">Verifying your email...</p>}
+      {status === "verified" && (
+        <p className="text-sm text-gray-700">
+          Thanks, your email address is confirmed.{" "}
+          <Link to="/dashboard" className="text-blue-600 hover:underline">Go to your dashboard</Link>
+        </p>
+      )}
+      {status === "failed" && (
+        <p className="text-sm text-red-600">{error}. You can request a new link from your dashboard.</p>
+      )}
+    </AccountLayout>
+  );
+}
+
+// Years offered for the annual report, most recent first
+const reportYears = Array.from({ length: 5 }, (_, index) => String(new Date().getFullYear() - index));
+
+// Dashboard Page
+function DashboardPage() {
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [reportYear, setReportYear] = useState(String(new Date().getFullYear()));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+
+  const fetchDashboard = async () => {
+    if (!token) return;
+    
+    try {
+      const [dashboardData, currencyList] = await Promise.all([
+        api.get('/dashboard', { token }),
+        api.get('/currencies', { token }),
+      ]);
+      setData(dashboardData as DashboardData);
+      setCurrencies(currencyList.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
     fetchDashboard();
   }, [token]);
 
+  const handleCurrencyChange = async (currency: string) => {
+    if (!token) return;
+
+    try {
+      await api.patch('/me', { body: { display_currency: currency }, token });
+      await fetchDashboard();
+    } catch (err: any) {
+      window.alert(`Could not change currency: ${err.message}`);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    if (!token) return;
+
+    try {
+      await saveDownload(await api.fetch('GET', '/export', { query: { format }, token }));
+    } catch (err: any) {
+      window.alert(`Export failed: ${err.message}`);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.post("/email/verify/resend", { token });
+      window.alert(response.message);
+    } catch (err: any) {
+      window.alert(`Could not send email: ${err.message}`);
+    }
+  };
+
+  const handleReport = async (format: "pdf" | "png") => {
+    if (!token) return;
+
+    try {
+      await saveDownload(await api.fetch('GET', '/reports/annual', { query: { year: Number(reportYear), format }, token }));
+    } catch (err: any) {
+      window.alert(`Report failed: ${err.message}`);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -496,49 +1177,60 @@ function DashboardPage() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <header className="bg-white border-b border-gray-200 px-6 py-4">
-        <div className="max-w-6xl mx-auto flex items-center justify-between">
-          <h1 className="text-2xl font-bold text-blue-600">Animal Impact Dashboard</h1>
-          <div className="flex items-center gap-4">
-            <span className="text-sm text-gray-600">Welcome, {data.user.name}</span>
-            <Button variant="outline" size="sm" onClick={logout}>
-              Logout
+      <AppHeader title="Animal Impact Dashboard" userName={data.user.name} />
+
+      <main className="max-w-6xl mx-auto p-6">
+        {!data.user.email_verified_at && (
+          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-md flex items-center justify-between gap-4 text-sm text-amber-800">
+            <span>Please confirm your email address using the link we sent to {data.user.email}.</span>
+            <Button variant="outline" size="sm" onClick={handleResendVerification}>
+              Resend link
             </Button>
           </div>
-        </div>
-      </header>
+        )}
 
-      <main className="max-w-6xl mx-auto p-6">
-        <div className="mb-8">
-          <h2 className="text-3xl font-bold text-gray-900 mb-2">Your Animal Welfare Impact</h2>
-          <p className="text-gray-600">Track and measure your contribution to animal welfare causes</p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">Your Animal Welfare Impact</h2>
+            <p className="text-gray-600">Track and measure your contribution to animal welfare causes</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={data.stats.currency}
+              onChange={(e) => handleCurrencyChange(e.target.value)}
+              options={currencies.map((currency) => ({ value: currency, label: `Show totals in ${currency}` }))}
+              className="text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")}>
+              Download CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("json")}>
+              Download JSON
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={reportYear}
+              onChange={(e) => setReportYear(e.target.value)}
+              options={reportYears.map((year) => ({ value: year, label: `${year} report` }))}
+              className="text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={() => handleReport("pdf")}>
+              Report PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleReport("png")}>
+              Report PNG
+            </Button>
+          </div>
         </div>
 
-        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <Card className="p-4">
-            <h3 className="text-sm font-medium text-gray-600 mb-1">Total Donations</h3>
-            <div className="text-2xl font-bold text-green-600">${data.stats.totalDonations.toFixed(2)}</div>
-            <p className="text-xs text-gray-500">Lifetime contributions</p>
-          </Card>
+        <StatCards stats={data.stats} impact={data.impact} />
 
-          <Card className="p-4">
-            <h3 className="text-sm font-medium text-gray-600 mb-1">Vegan Conversions</h3>
-            <div className="text-2xl font-bold text-blue-600">{data.stats.conversionCount} people</div>
-            <p className="text-xs text-gray-500">≈ {data.stats.animalsImpact.toLocaleString()} animals saved/year</p>
-          </Card>
+        <GoalsPanel />
 
-          <Card className="p-4">
-            <h3 className="text-sm font-medium text-gray-600 mb-1">Content Shared</h3>
-            <div className="text-2xl font-bold text-purple-600">{data.stats.mediaCount} posts</div>
-            <p className="text-xs text-gray-500">Reached {data.stats.totalReach.toLocaleString()}+ people</p>
-          </Card>
+        <AchievementsPanel />
 
-          <Card className="p-4">
-            <h3 className="text-sm font-medium text-gray-600 mb-1">Campaign Impact</h3>
-            <div className="text-2xl font-bold text-orange-600">{data.stats.campaignCount} campaigns</div>
-            <p className="text-xs text-gray-500">Policy changes supported</p>
-          </Card>
-        </div>
+        <TrendsPanel currency={data.stats.currency} />
 
         <div className="grid md:grid-cols-2 gap-6">
           <Card className="p-6">
@@ -550,7 +1242,7 @@ function DashboardPage() {
               {data.recent.donations.slice(0, 3).map((donation: any) => (
                 <div key={donation.id} className="flex justify-between items-center">
                   <span className="text-sm">{donation.organization}</span>
-                  <span className="font-medium">${donation.amount}</span>
+                  <span className="font-medium">{formatMoney(donation.amount, donation.currency)}</span>
                 </div>
               ))}
               {data.recent.donations.length === 0 && (
@@ -566,13 +1258,31 @@ function DashboardPage() {
             </h3>
             <div className="space-y-3">
               <div className="text-sm text-gray-600">
-                Your dietary influence has resulted in:
+                Your advocacy has resulted in:
               </div>
               <div className="text-lg font-semibold text-green-600">
-                ≈ {data.stats.animalsImpact.toLocaleString()} animals saved annually
+                ≈ {data.impact.total.toLocaleString()} animals spared
+              </div>
+              <div className="text-sm text-gray-600 space-y-1">
+                <div className="flex justify-between">
+                  <span>Vegan conversions</span>
+                  <span>{data.impact.breakdown.conversions.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Donations</span>
+                  <span>{data.impact.breakdown.donations.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Media reach</span>
+                  <span>{data.impact.breakdown.media.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Campaigns</span>
+                  <span>{data.impact.breakdown.campaigns.toLocaleString()}</span>
+                </div>
               </div>
-              <div className="text-sm text-gray-500">
-                Based on {data.stats.conversionCount} vegan conversions × 365 animals/person/year
+              <div className="text-xs text-gray-500">
+                Impact model v{data.impact.modelVersion}
               </div>
             </div>
           </Card>
@@ -582,28 +1292,2449 @@ function DashboardPage() {
   );
 }
 
-// Protected Route wrapper
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
+// Headline stat cards shared by the personal, team and public dashboards.
+// Public profiles pass `sections` and only the stats their owner chose to share.
+function StatCards({
+  stats,
+  impact,
+  sections,
+}: {
+  stats: Partial<DashboardData["stats"]>;
+  impact: DashboardData["impact"] | null;
+  sections?: string[];
+}) {
+  const shows = (section: string) => !sections || sections.includes(section);
+  const spared = impact?.breakdown.conversions;
+
+  return (
+    <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      {shows("donations") && (
+        <Card className="p-4">
+          <h3 className="text-sm font-medium text-gray-600 mb-1">Total Donations</h3>
+          <div className="text-2xl font-bold text-green-600">{formatMoney(stats.totalDonations ?? 0, stats.currency)}</div>
+          <p className="text-xs text-gray-500">Lifetime contributions</p>
+        </Card>
+      )}
+
+      {shows("conversions") && (
+        <Card className="p-4">
+          <h3 className="text-sm font-medium text-gray-600 mb-1">Vegan Conversions</h3>
+          <div className="text-2xl font-bold text-blue-600">{stats.conversionCount ?? 0} people</div>
+          {spared !== undefined && (
+            <p className="text-xs text-gray-500">≈ {spared.toLocaleString()} animals spared so far</p>
+          )}
+        </Card>
+      )}
+
+      {shows("media") && (
+        <Card className="p-4">
+          <h3 className="text-sm font-medium text-gray-600 mb-1">Content Shared</h3>
+          <div className="text-2xl font-bold text-purple-600">{stats.mediaCount ?? 0} posts</div>
+          <p className="text-xs text-gray-500">Reached {(stats.totalReach ?? 0).toLocaleString()}+ people</p>
+        </Card>
+      )}
+
+      {shows("campaigns") && (
+        <Card className="p-4">
+          <h3 className="text-sm font-medium text-gray-600 mb-1">Campaign Impact</h3>
+          <div className="text-2xl font-bold text-orange-600">{stats.campaignCount ?? 0} campaigns</div>
+          <p className="text-xs text-gray-500">Policy changes supported</p>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+// Trends panel (time-series charts with a date-range picker)
+const trendMetrics: {
+  metric: ApiOptions<"GET", "/analytics/timeseries">["query"]["metric"];
+  title: string;
+  chart: "line" | "bar";
+  color: "green" | "blue" | "purple" | "orange";
+  format: (value: number, currency: string) => string;
+}[] = [
+  { metric: "donations", title: "Donations", chart: "line", color: "green", format: (value: number, currency: string) => formatMoney(value, currency, 0) },
+  { metric: "conversions", title: "Vegan Conversions", chart: "bar", color: "blue", format: (value: number) => value.toLocaleString() },
+  { metric: "reach", title: "Media Reach", chart: "line", color: "purple", format: (value: number) => value.toLocaleString() },
+  { metric: "campaigns", title: "Campaigns", chart: "bar", color: "orange", format: (value: number) => value.toLocaleString() },
+];
+
+const chartColors = {
+  green: { line: "stroke-green-600", bar: "fill-green-600" },
+  blue: { line: "stroke-blue-600", bar: "fill-blue-600" },
+  purple: { line: "stroke-purple-600", bar: "fill-purple-600" },
+  orange: { line: "stroke-orange-600", bar: "fill-orange-600" },
+};
+
+// Donation totals come back in the user's display currency, so refetch when it changes
+function TrendsPanel({ currency }: { currency: string }) {
+  const [bucketInterval, setBucketInterval] = useState<"week" | "month" | "year">("month");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [series, setSeries] = useState<Record<string, TimeseriesBucket[]>>({});
+  const [error, setError] = useState("");
   const { token } = useAuth();
-  return token ? <>{children}</> : <Navigate to="/auth" />;
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      if (!token) return;
+
+      try {
+        const results = await Promise.all(
+          trendMetrics.map(({ metric }) => {
+            return api.get("/analytics/timeseries", { query: { metric, interval: bucketInterval, from, to }, token });
+          })
+        );
+        setSeries(Object.fromEntries(results.map((result: any) => [result.metric, result.buckets])));
+        setError("");
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchSeries();
+  }, [token, bucketInterval, from, to, currency]);
+
+  return (
+    <Card className="p-6 mb-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Trends</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          <div className="flex">
+            {(["week", "month", "year"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setBucketInterval(option)}
+                className={`px-3 py-2 text-sm border border-gray-300 first:rounded-l-md last:rounded-r-md ${
+                  bucketInterval === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700'
+                }`}
+              >
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {trendMetrics.map(({ metric, title, chart, color, format }) => (
+          <div key={metric}>
+            <h4 className="text-sm font-medium text-gray-600 mb-2">{title}</h4>
+            {chart === "line" ? (
+              <LineChart buckets={series[metric] || []} formatValue={(value) => format(value, currency)} className={chartColors[color].line} />
+            ) : (
+              <BarChart buckets={series[metric] || []} formatValue={(value) => format(value, currency)} className={chartColors[color].bar} />
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
 }
 
-// Main App
-export default function App() {
+const formatGoalValue = (value: number, goal: GoalProgress["goal"]) =>
+  goal.metric === "donations" ? formatMoney(value, goal.currency, 0) : Math.round(value).toLocaleString();
+
+const goalStatusStyles: Record<GoalProgress["status"], { label: string; badge: string; bar: string }> = {
+  upcoming: { label: "Upcoming", badge: "bg-gray-100 text-gray-700", bar: "bg-gray-400" },
+  on_track: { label: "On track", badge: "bg-green-100 text-green-800", bar: "bg-green-500" },
+  at_risk: { label: "At risk", badge: "bg-amber-100 text-amber-800", bar: "bg-amber-500" },
+  completed: { label: "Completed", badge: "bg-blue-100 text-blue-800", bar: "bg-blue-600" },
+  missed: { label: "Missed", badge: "bg-red-100 text-red-800", bar: "bg-red-500" },
+};
+
+// Progress bars for the user's current goals
+function GoalsPanel() {
+  const [goals, setGoals] = useState<GoalProgress[]>([]);
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+
+  useEffect(() => {
+    const fetchGoals = async () => {
+      if (!token) return;
+
+      try {
+        const result = await api.get("/goals/progress", { query: { active: true }, token });
+        setGoals(result.data);
+        setError("");
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchGoals();
+  }, [token]);
+
   return (
-    <AuthProvider>
-      <Router>
-        <Routes>
-          <Route path="/" element={<LandingPage />} />
-          <Route path="/auth" element={<AuthPage />} />
-          <Route 
-            path="/dashboard" 
-            element={
-              <ProtectedRoute>
-                <DashboardPage />
-              </ProtectedRoute>
-            } 
-          />
+    <Card className="p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Goals</h3>
+        <Link to="/goals" className="text-sm text-blue-600 hover:underline">Manage goals</Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-gray-500">No current goals. Set one to track your progress.</p>
+      ) : (
+        <div className="space-y-5">
+          {goals.map(({ goal, current, percent, projected, projectedCompletionDate, daysLeft, status }) => (
+            <div key={goal.id}>
+              <div className="flex items-center justify-between gap-4 mb-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{goal.title}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${goalStatusStyles[status].badge}`}>
+                    {status === "at_risk" && "⚠ "}{goalStatusStyles[status].label}
+                  </span>
+                </div>
+                <span className="text-sm text-gray-600">
+                  {formatGoalValue(current, goal)} / {formatGoalValue(goal.target, goal)}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${goalStatusStyles[status].bar}`}
+                  style={{ width: `${Math.min(percent, 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {status === "upcoming"
+                  ? `Starts ${goal.start_date}`
+                  : status === "completed"
+                    ? `Reached ${Math.round(percent)}% of the target`
+                    : `${daysLeft} days left · on pace for ${formatGoalValue(projected, goal)}${
+                        projectedCompletionDate ? ` · target reached around ${projectedCompletionDate}` : ""
+                      }`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Achievement badges; locked ones are greyed out
+function BadgeList({ achievements }: { achievements: Achievement[] }) {
+  return (
+    <div className="grid sm:grid-cols-2 md:grid-cols-4 gap-4">
+      {achievements.map((achievement) => (
+        <div
+          key={achievement.id}
+          className={`flex items-start gap-3 p-3 rounded-lg border ${
+            achievement.unlockedAt ? "border-green-200 bg-green-50" : "border-gray-200 bg-gray-50 opacity-60 grayscale"
+          }`}
+        >
+          <span className="text-2xl">{achievement.icon}</span>
+          <div>
+            <div className="font-medium text-gray-900">{achievement.name}</div>
+            <div className="text-xs text-gray-600">{achievement.description}</div>
+            {achievement.unlockedAt && (
+              <div className="text-xs text-green-700 mt-1">Unlocked {achievement.unlockedAt.split(" ")[0]}</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AchievementsPanel() {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+
+  useEffect(() => {
+    const fetchAchievements = async () => {
+      if (!token) return;
+
+      try {
+        const result = await api.get("/achievements", { token });
+        setAchievements(result.data);
+        setError("");
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchAchievements();
+  }, [token]);
+
+  const unlocked = achievements.filter((achievement) => achievement.unlockedAt).length;
+
+  return (
+    <Card className="p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Achievements</h3>
+        <span className="text-sm text-gray-600">{unlocked} of {achievements.length} unlocked</span>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <BadgeList achievements={achievements} />
+    </Card>
+  );
+}
+
+// Activity page configuration
+const inputTypes: Partial<Record<Field["type"], ActivityField["type"]>> = {
+  number: "number",
+  integer: "number",
+  date: "date",
+  url: "url",
+};
+
+// Form inputs for a shared schema, with labels reworded where the form wants it
+const formFields = (schema: Schema, labels: Record<string, string> = {}): ActivityField[] =>
+  schema.map((field) => ({
+    name: field.name,
+    label: labels[field.name] ?? field.label,
+    type: inputTypes[field.type] ?? "text",
+    required: field.required,
+    options: field.type === "enum" ? [...field.options!] : undefined,
+    optionsEndpoint: field.type === "currency" ? "/currencies" : undefined,
+    defaultValue: field.defaultValue === undefined ? undefined : String(field.defaultValue),
+  }));
+
+const activityConfigs: Record<string, ActivityConfig> = {
+  donations: {
+    title: "Donations",
+    singular: "donation",
+    icon: "💰",
+    endpoint: "/donations",
+    dateField: "date",
+    schema: donationSchema,
+    fields: formFields(donationSchema),
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "organization", label: "Organization" },
+      { key: "amount", label: "Amount", format: (value, row) => formatMoney(value, row.currency) },
+      { key: "notes", label: "Notes" },
+    ],
+  },
+  conversions: {
+    title: "Vegan Conversions",
+    singular: "conversion",
+    icon: "🌱",
+    endpoint: "/conversions",
+    dateField: "conversion_date",
+    schema: conversionSchema,
+    fields: formFields(conversionSchema, {
+      person_name: "Person's Name",
+      conversion_date: "Conversion Date",
+      influence_type: "Influence Type",
+    }),
+    columns: [
+      { key: "conversion_date", label: "Date" },
+      { key: "person_name", label: "Person" },
+      { key: "influence_type", label: "Influence" },
+      { key: "notes", label: "Notes" },
+    ],
+  },
+  media: {
+    title: "Media Shared",
+    singular: "media post",
+    icon: "📱",
+    endpoint: "/media",
+    dateField: "date",
+    schema: mediaSchema,
+    fields: formFields(mediaSchema, { content_type: "Content Type", reach_estimate: "Estimated Reach" }),
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "platform", label: "Platform" },
+      { key: "content_type", label: "Content" },
+      { key: "reach_estimate", label: "Reach", format: (value) => Number(value).toLocaleString() },
+      { key: "notes", label: "Notes" },
+    ],
+  },
+  campaigns: {
+    title: "Campaigns",
+    singular: "campaign",
+    icon: "🏆",
+    endpoint: "/campaigns",
+    dateField: "date",
+    schema: campaignSchema,
+    fields: formFields(campaignSchema, {
+      campaign_name: "Campaign Name",
+      participation_type: "Participation Type",
+      impact_description: "Impact Description",
+    }),
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "campaign_name", label: "Campaign" },
+      { key: "organization", label: "Organization" },
+      { key: "participation_type", label: "Participation" },
+    ],
+  },
+};
+
+const recurringDonationsConfig: ActivityConfig = {
+  title: "Recurring Donations",
+  singular: "recurring donation",
+  icon: "🔁",
+  endpoint: "/recurring-donations",
+  dateField: "start_date",
+  schema: recurringDonationSchema,
+  fields: formFields(recurringDonationSchema, {
+    start_date: "Start Date",
+    end_date: "End Date (optional)",
+    day_of_month: "Day of Month (monthly/yearly)",
+  }),
+  columns: [
+    { key: "organization", label: "Organization" },
+    { key: "amount", label: "Amount", format: (value, row) => formatMoney(value, row.currency) },
+    { key: "cadence", label: "Cadence" },
+    { key: "start_date", label: "Starts" },
+    { key: "end_date", label: "Ends", format: (value) => value || "—" },
+    { key: "status", label: "Status" },
+  ],
+  actions: [
+    { label: "Pause", path: "/recurring-donations/{id}/pause", visible: (row) => row.status === "active" },
+    { label: "Resume", path: "/recurring-donations/{id}/resume", visible: (row) => row.status === "paused" },
+    {
+      label: "Cancel",
+      path: "/recurring-donations/{id}/cancel",
+      visible: (row) => row.status !== "cancelled",
+      confirm: "Cancel this schedule? No further donations will be recorded from it.",
+    },
+  ],
+};
+
+const goalsConfig: ActivityConfig = {
+  title: "Goals",
+  singular: "goal",
+  icon: "🎯",
+  endpoint: "/goals",
+  dateField: "end_date",
+  schema: goalSchema,
+  fields: formFields(goalSchema, {
+    currency: "Currency (donation goals)",
+    start_date: "Start Date",
+    end_date: "End Date",
+  }),
+  columns: [
+    { key: "title", label: "Goal" },
+    { key: "metric", label: "Metric" },
+    { key: "target", label: "Target", format: (value, row) => formatGoalValue(value, row) },
+    { key: "start_date", label: "Starts" },
+    { key: "end_date", label: "Ends" },
+  ],
+};
+
+// Shared header with navigation for signed-in pages
+function AppHeader({ title, userName }: { title: string; userName?: string }) {
+  const { user, logout } = useAuth();
+
+  return (
+    <header className="bg-white border-b border-gray-200 px-6 py-4">
+      <div className="max-w-6xl mx-auto flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-blue-600">{title}</h1>
+        <div className="flex items-center gap-4">
+          <nav className="flex items-center gap-3 text-sm">
+            <Link to="/dashboard" className="text-gray-600 hover:text-blue-600">Dashboard</Link>
+            {Object.entries(activityConfigs).map(([key, config]) => (
+              <Link key={key} to={`/${key}`} className="text-gray-600 hover:text-blue-600">
+                {config.title}
+              </Link>
+            ))}
+            <Link to="/recurring-donations" className="text-gray-600 hover:text-blue-600">Recurring</Link>
+            <Link to="/goals" className="text-gray-600 hover:text-blue-600">Goals</Link>
+            <Link to="/import" className="text-gray-600 hover:text-blue-600">Import</Link>
+            <Link to="/teams" className="text-gray-600 hover:text-blue-600">Teams</Link>
+            <Link to="/sharing" className="text-gray-600 hover:text-blue-600">Sharing</Link>
+            <Link to="/settings" className="text-gray-600 hover:text-blue-600">Settings</Link>
+            {user?.role === "admin" && (
+              <Link to="/admin" className="text-gray-600 hover:text-blue-600">Admin</Link>
+            )}
+          </nav>
+          {userName && <span className="text-sm text-gray-600">Welcome, {userName}</span>}
+          <Button variant="outline" size="sm" onClick={logout}>
+            Logout
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+}
+
+// Activity Page (entry form and history table for one activity type)
+function ActivityPage({ config }: { config: ActivityConfig }) {
+  const emptyForm = () => Object.fromEntries(config.fields.map((field) => [field.name, field.defaultValue ?? ""]));
+
+  const [rows, setRows] = useState<any[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState(config.dateField);
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [form, setForm] = useState<Record<string, string>>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [fieldOptions, setFieldOptions] = useState<Record<string, string[]>>({});
+  // The API sorts by the schema's fields and created_at; other columns aren't sortable
+  const sortable = [...config.schema.map((field) => field.name), "created_at"];
+  const { token } = useAuth();
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      if (!token) return;
+
+      try {
+        const remoteFields = config.fields.filter((field) => field.optionsEndpoint);
+        const results = await Promise.all(remoteFields.map((field) => api.get(field.optionsEndpoint!, { token })));
+        setFieldOptions(Object.fromEntries(remoteFields.map((field, index) => [field.name, (results[index] as any).data])));
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchOptions();
+  }, [token]);
+
+  const fetchRows = async () => {
+    if (!token) return;
+
+    try {
+      // Sort columns come from config.schema, which the client's per-endpoint types can't see
+      const response = await api.get(config.endpoint, { query: { page, sort: sort as any, order }, token });
+      setRows(response.data);
+      setPagination(response.pagination);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchRows();
+  }, [token, page, sort, order]);
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setFieldErrors({});
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError("");
+
+    const { value, errors } = validate(config.schema, form);
+    setFieldErrors(errors ?? {});
+    if (errors) return;
+    setSaving(true);
+
+    try {
+      // Checked against config.schema above, so it matches the endpoint's body type
+      const body = value as any;
+      if (editingId) {
+        await api.patch(`${config.endpoint}/{id}`, { params: { id: editingId }, body, token });
+      } else {
+        await api.post(config.endpoint, { body, token });
+      }
+      resetForm();
+      await fetchRows();
+    } catch (err: any) {
+      if (err.fields) {
+        setFieldErrors(err.fields);
+      } else {
+        setError(err.message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (row: any) => {
+    setEditingId(row.id);
+    setFieldErrors({});
+    setForm(Object.fromEntries(config.fields.map((field) => [field.name, String(row[field.name] ?? "")])));
+  };
+
+  const handleDelete = async (row: any) => {
+    if (!token) return;
+    if (!window.confirm(`Delete this ${config.singular}? This cannot be undone.`)) return;
+
+    try {
+      await api.delete(`${config.endpoint}/{id}`, { params: { id: row.id }, token });
+      if (editingId === row.id) resetForm();
+      await fetchRows();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleAction = async (row: any, action: ActivityAction) => {
+    if (!token) return;
+    if (action.confirm && !window.confirm(action.confirm)) return;
+
+    try {
+      await api.post(action.path, { params: { id: row.id }, token });
+      await fetchRows();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSort = (key: string) => {
+    if (sort === key) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(key);
+      setOrder("asc");
+    }
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="Animal Impact" />
+
+      <main className="max-w-6xl mx-auto p-6">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <span>{config.icon}</span>
+            {config.title}
+          </h2>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="p-6 lg:col-span-1 self-start">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingId ? `Edit ${config.singular}` : `Add ${config.singular}`}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {config.fields.map((field) => field.options || field.optionsEndpoint ? (
+                <Select
+                  key={field.name}
+                  label={field.label}
+                  value={form[field.name] ?? ""}
+                  onChange={(e) => setForm({ ...form, [field.name]: e.target.value })}
+                  options={(field.options ?? fieldOptions[field.name] ?? []).map((option) => ({ value: option, label: option }))}
+                  required={field.required}
+                  placeholder={field.defaultValue ? undefined : "Select..."}
+                  error={fieldErrors[field.name]}
+                />
+              ) : (
+                <Input
+                  key={field.name}
+                  label={field.label}
+                  type={field.type}
+                  value={form[field.name] ?? ""}
+                  onChange={(e) => setForm({ ...form, [field.name]: e.target.value })}
+                  required={field.required}
+                  error={fieldErrors[field.name]}
+                />
+              ))}
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saving}>
+                  {saving ? "Saving..." : (editingId ? "Save Changes" : "Add")}
+                </Button>
+                {editingId && (
+                  <Button variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Card>
+
+          <Card className="p-6 lg:col-span-2 overflow-x-auto">
+            <h3 className="text-lg font-semibold mb-4">History</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  {config.columns.map((column) => (
+                    <th key={column.key} className="py-2 pr-4 font-medium">
+                      {sortable.includes(column.key) ? (
+                        <button type="button" onClick={() => handleSort(column.key)} className="hover:text-blue-600">
+                          {column.label}
+                          {sort === column.key && (order === "asc" ? " ▲" : " ▼")}
+                        </button>
+                      ) : column.label}
+                    </th>
+                  ))}
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id} className="border-b border-gray-100">
+                    {config.columns.map((column) => (
+                      <td key={column.key} className="py-2 pr-4">
+                        {column.format ? column.format(row[column.key], row) : row[column.key]}
+                      </td>
+                    ))}
+                    <td className="py-2 whitespace-nowrap text-right">
+                      {config.actions?.filter((action) => action.visible(row)).map((action) => (
+                        <Button key={action.path} variant="outline" size="sm" className="mr-2" onClick={() => handleAction(row, action)}>
+                          {action.label}
+                        </Button>
+                      ))}
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(row)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" className="ml-2 text-red-600" onClick={() => handleDelete(row)}>
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="text-gray-500 text-sm mt-4">No {config.title.toLowerCase()} recorded yet</p>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span>Page {pagination.page} of {pagination.totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= pagination.totalPages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Import Page (CSV upload, column mapping and preview before importing)
+function ImportPage() {
+  const [type, setType] = useState("donations");
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState("");
+  const [working, setWorking] = useState(false);
+  const { token } = useAuth();
+
+  const config = activityConfigs[type]!;
+  const statusClasses = {
+    valid: "text-green-600",
+    invalid: "text-red-600",
+    duplicate: "text-gray-500",
+  };
+
+  const runImport = async (dryRun: boolean, content = csv, columnMapping = mapping) => {
+    if (!token) return;
+    setError("");
+    setWorking(true);
+
+    try {
+      const result = await api.post("/import/{type}", { params: { type }, body: { csv: content, mapping: columnMapping, dryRun }, token });
+      setReport(result);
+      setMapping(result.mapping);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    setFileName(file.name);
+    setCsv(content);
+    setMapping({});
+    await runImport(true, content, {});
+  };
+
+  const handleMappingChange = (header: string, field: string) => {
+    const updated = { ...mapping, [header]: field || null };
+    setMapping(updated);
+    runImport(true, csv, updated);
+  };
+
+  const reset = () => {
+    setFileName("");
+    setCsv("");
+    setMapping({});
+    setReport(null);
+    setError("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="Animal Impact" />
+
+      <main className="max-w-6xl mx-auto p-6">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Import from CSV</h2>
+          <p className="text-gray-600">Bring in history from a spreadsheet. Nothing is saved until you confirm the preview.</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!report && (
+          <Card className="p-6 max-w-xl">
+            <h3 className="text-lg font-semibold mb-4">1. Choose a file</h3>
+            <div className="space-y-4">
+              <Select
+                label="Record type"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                options={Object.entries(activityConfigs).map(([key, option]) => ({ value: key, label: option.title }))}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">CSV file</label>
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="w-full text-sm" />
+                <p className="text-xs text-gray-500 mt-1">
+                  The first row must contain column headers. Dates must be in YYYY-MM-DD format.
+                </p>
+              </div>
+              {working && <p className="text-sm text-gray-600">Checking file...</p>}
+            </div>
+          </Card>
+        )}
+
+        {report && !report.dryRun && (
+          <Card className="p-6 max-w-xl">
+            <h3 className="text-lg font-semibold mb-2">Import complete</h3>
+            <p className="text-gray-600 mb-4">
+              Imported {report.imported} {config.title.toLowerCase()} from {fileName}.
+              {report.duplicateRows > 0 && ` Skipped ${report.duplicateRows} duplicates.`}
+              {report.invalidRows > 0 && ` Skipped ${report.invalidRows} rows with errors.`}
+            </p>
+            <div className="flex gap-2">
+              <Link to={`/${type}`}>
+                <Button>View {config.title}</Button>
+              </Link>
+              <Button variant="outline" onClick={reset}>Import another file</Button>
+            </div>
+          </Card>
+        )}
+
+        {report && report.dryRun && (
+          <div className="space-y-6">
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">2. Check the column mapping</h3>
+              <div className="grid md:grid-cols-2 gap-3">
+                {Object.keys(report.mapping).map((header) => (
+                  <div key={header} className="flex items-center gap-3">
+                    <span className="w-1/2 text-sm font-medium text-gray-700 truncate">{header}</span>
+                    <select
+                      value={mapping[header] || ""}
+                      onChange={(e) => handleMappingChange(header, e.target.value)}
+                      className="w-1/2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">Ignore column</option>
+                      {config.fields.map((field) => (
+                        <option key={field.name} value={field.name}>{field.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {report.missingFields.length > 0 && (
+                <p className="text-sm text-red-600 mt-4">
+                  Map a column to each required field: {report.missingFields.join(", ")}
+                </p>
+              )}
+            </Card>
+
+            <Card className="p-6 overflow-x-auto">
+              <h3 className="text-lg font-semibold mb-2">3. Preview</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {report.totalRows} rows: {report.validRows} ready to import, {report.duplicateRows} duplicates, {report.invalidRows} with errors
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Row</th>
+                    {config.fields.map((field) => (
+                      <th key={field.name} className="py-2 pr-4 font-medium">{field.label}</th>
+                    ))}
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.preview.map((row) => (
+                    <tr key={row.row} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4 text-gray-500">{row.row}</td>
+                      {config.fields.map((field) => (
+                        <td key={field.name} className="py-2 pr-4">{row.values[field.name]}</td>
+                      ))}
+                      <td className={`py-2 ${statusClasses[row.status]}`}>
+                        {row.status}
+                        {row.messages.map((message) => (
+                          <div key={message} className="text-xs">{message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.totalRows > report.preview.length && (
+                <p className="text-xs text-gray-500 mt-2">Showing the first {report.preview.length} rows</p>
+              )}
+
+              {report.errors.length > report.preview.filter((row) => row.status === "invalid").length && (
+                <div className="mt-4">
+                  <h4 className="text-sm font-medium text-red-600 mb-1">All rows with errors</h4>
+                  <ul className="text-xs text-red-600 space-y-1">
+                    {report.errors.map((rowError) => (
+                      <li key={rowError.row}>Row {rowError.row}: {rowError.messages.join("; ")}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-2 mt-6">
+                <Button
+                  onClick={() => runImport(false)}
+                  disabled={working || report.validRows === 0 || report.missingFields.length > 0}
+                >
+                  {working ? "Importing..." : `Import ${report.validRows} rows`}
+                </Button>
+                <Button variant="outline" onClick={reset}>Start over</Button>
+              </div>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// Teams list (create a team or join one with an invite code)
+function TeamsPage() {
+  const [teams, setTeams] = useState<TeamSummary[]>([]);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+  const navigate = useNavigate();
+
+  const fetchTeams = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/teams", { token });
+      setTeams(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchTeams();
+  }, [token]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError("");
+
+    try {
+      const result = await api.post("/teams", { body: { name, description }, token });
+      navigate(`/teams/${result.id}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError("");
+
+    try {
+      const result = await api.post("/teams/join", { body: { invite_code: inviteCode }, token });
+      navigate(`/teams/${result.id}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="👥 Teams" />
+
+      <main className="max-w-6xl mx-auto p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="p-6 lg:col-span-2 self-start">
+            <h3 className="text-lg font-semibold mb-4">Your Teams</h3>
+            <div className="space-y-3">
+              {teams.map((team) => (
+                <Link
+                  key={team.id}
+                  to={`/teams/${team.id}`}
+                  className="block p-3 border border-gray-200 rounded-md hover:border-blue-500"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">{team.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {team.member_count} {team.member_count === 1 ? "member" : "members"} · {team.role}
+                    </span>
+                  </div>
+                  {team.description && <p className="text-sm text-gray-600 mt-1">{team.description}</p>}
+                </Link>
+              ))}
+              {teams.length === 0 && (
+                <p className="text-gray-500 text-sm">You haven't joined any teams yet</p>
+              )}
+            </div>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Create a Team</h3>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} required />
+                <Input label="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+                <Button type="submit" className="w-full">Create</Button>
+              </form>
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Join a Team</h3>
+              <form onSubmit={handleJoin} className="space-y-4">
+                <Input label="Invite Code" value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} required />
+                <Button type="submit" className="w-full">Join</Button>
+              </form>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Team dashboard (combined impact, member breakdown and team management)
+function TeamPage() {
+  const { id } = useParams();
+  const [team, setTeam] = useState<TeamDetails | null>(null);
+  const [dashboard, setDashboard] = useState<TeamDashboardData | null>(null);
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+  const navigate = useNavigate();
+
+  const fetchTeam = async () => {
+    if (!token) return;
+
+    try {
+      const [teamResponse, dashboardResponse] = await Promise.all([
+        api.get("/teams/{id}", { params: { id: Number(id) }, token }),
+        api.get("/teams/{id}/dashboard", { params: { id: Number(id) }, token }),
+      ]);
+      setTeam(teamResponse.data);
+      setDashboard(dashboardResponse as TeamDashboardData);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchTeam();
+  }, [token, id]);
+
+  // Run a team action, then reload (or leave the page if the team is gone)
+  const runAction = async (action: () => Promise<unknown>, leavePage = false) => {
+    setError("");
+    try {
+      await action();
+      if (leavePage) {
+        navigate("/teams");
+      } else {
+        await fetchTeam();
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (!token) return null;
+
+  if (!team || !dashboard) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader title="👥 Team" />
+        <main className="max-w-6xl mx-auto p-6">
+          {error ? <p className="text-red-600">{error}</p> : <p className="text-gray-600">Loading team...</p>}
+        </main>
+      </div>
+    );
+  }
+
+  const me = team.membership;
+  const canManage = me.role === "owner" || me.role === "admin";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title={`👥 ${team.name}`} />
+
+      <main className="max-w-6xl mx-auto p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">Collective Impact</h2>
+          <p className="text-gray-600">
+            {team.description || `Combined impact of ${dashboard.memberCount} members`}
+          </p>
+        </div>
+
+        <StatCards stats={dashboard.stats} impact={dashboard.impact} />
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="p-6 lg:col-span-2 overflow-x-auto">
+            <h3 className="text-lg font-semibold mb-4">Members</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Donations</th>
+                  <th className="py-2 pr-4 font-medium">Conversions</th>
+                  <th className="py-2 pr-4 font-medium">Reach</th>
+                  <th className="py-2 pr-4 font-medium">Animals</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {team.members.map((member) => {
+                  const breakdown = dashboard.members.find((entry) => entry.userId === member.user_id);
+                  return (
+                    <tr key={member.user_id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4">{member.name}</td>
+                      <td className="py-2 pr-4">
+                        {me.role === "owner" && member.role !== "owner" ? (
+                          <Select
+                            value={member.role}
+                            onChange={(e) => runAction(() => api.patch("/teams/{id}/members/{userId}", { params: { id: team.id, userId: member.user_id }, body: { role: e.target.value as TeamMemberRole["role"] }, token }))}
+                            options={[{ value: "admin", label: "admin" }, { value: "member", label: "member" }]}
+                          />
+                        ) : member.role}
+                      </td>
+                      {breakdown ? (
+                        <>
+                          <td className="py-2 pr-4">{formatMoney(breakdown.stats.totalDonations, breakdown.stats.currency)}</td>
+                          <td className="py-2 pr-4">{breakdown.stats.conversionCount}</td>
+                          <td className="py-2 pr-4">{breakdown.stats.totalReach.toLocaleString()}</td>
+                          <td className="py-2 pr-4">{breakdown.impact.total.toLocaleString()}</td>
+                        </>
+                      ) : (
+                        <td colSpan={4} className="py-2 pr-4 text-gray-400">Private</td>
+                      )}
+                      <td className="py-2 whitespace-nowrap text-right">
+                        {canManage && member.role !== "owner" && member.user_id !== me.user_id
+                          && (me.role === "owner" || member.role === "member") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.confirm(`Remove ${member.name} from the team?`)
+                              && runAction(() => api.delete("/teams/{id}/members/{userId}", { params: { id: team.id, userId: member.user_id }, token }))}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {dashboard.hiddenMembers > 0 && (
+              <p className="text-xs text-gray-500 mt-3">
+                {dashboard.hiddenMembers} {dashboard.hiddenMembers === 1 ? "member keeps their" : "members keep their"} figures private, so they aren't included in the team totals.
+              </p>
+            )}
+          </Card>
+
+          <div className="space-y-6">
+            {canManage && (
+              <Card className="p-6">
+                <h3 className="text-lg font-semibold mb-2">Invite Code</h3>
+                <p className="text-2xl font-mono tracking-widest mb-3">{team.invite_code}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runAction(() => api.post("/teams/{id}/invite-code", { params: { id: team.id }, token }))}
+                >
+                  Generate New Code
+                </Button>
+              </Card>
+            )}
+
+            <Card className="p-6 space-y-4">
+              <h3 className="text-lg font-semibold">Your Membership</h3>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={me.share_stats}
+                  onChange={(e) => runAction(() => api.patch("/teams/{id}/membership", { params: { id: team.id }, body: { share_stats: e.target.checked }, token }))}
+                />
+                Show my figures to other members
+              </label>
+              {me.role === "owner" ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.confirm(`Delete ${team.name}? This cannot be undone.`)
+                    && runAction(() => api.delete("/teams/{id}", { params: { id: team.id }, token }), true)}
+                >
+                  Delete Team
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.confirm(`Leave ${team.name}?`)
+                    && runAction(() => api.delete("/teams/{id}/members/{userId}", { params: { id: team.id, userId: me.user_id }, token }), true)}
+                >
+                  Leave Team
+                </Button>
+              )}
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Account settings: profile, password, and account deletion (with an export offered first)
+function SettingsPage() {
+  const [profile, setProfile] = useState({ name: "", email: "", display_currency: "USD" });
+  // The saved email; changing it needs the current password
+  const [savedEmail, setSavedEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [passwords, setPasswords] = useState({ currentPassword: "", newPassword: "" });
+  const [deletePassword, setDeletePassword] = useState("");
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const { token } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      if (!token) return;
+
+      try {
+        const [me, currencyList] = await Promise.all([api.get("/me", { token }), api.get("/currencies", { token })]);
+        const { name, email, display_currency } = me.data;
+        setProfile({ name, email, display_currency });
+        setSavedEmail(email);
+        setCurrencies(currencyList.data);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchProfile();
+  }, [token]);
+
+  // Check a form against its schema, then run its action, showing the message or errors
+  const submit = async (schema: Schema, values: Record<string, any>, action: () => Promise<any>) => {
+    if (!token) return;
+    setNotice("");
+    setError("");
+
+    const errors = checkForm(schema, values);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    try {
+      const response = await action();
+      setNotice(response.message);
+    } catch (err: any) {
+      setFieldErrors(err.fields ?? {});
+      setError(err.message);
+    }
+  };
+
+  const handleProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = profile.email === savedEmail ? profile : { ...profile, currentPassword: emailPassword };
+    submit(profileSchema, body, async () => {
+      const response = await api.patch("/me", { body, token: token! });
+      setSavedEmail(response.data.email);
+      setEmailPassword("");
+      return response;
+    });
+  };
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(changePasswordSchema, passwords, async () => {
+      const response = await api.post("/me/password", { body: passwords, token: token! });
+      setPasswords({ currentPassword: "", newPassword: "" });
+      return response;
+    });
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !window.confirm("Permanently delete your account and everything you've recorded? This can't be undone.")) return;
+    setError("");
+
+    try {
+      await api.delete("/me", { body: { password: deletePassword }, token });
+      sessionStore.clear();
+      navigate("/");
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    if (!token) return;
+
+    try {
+      await saveDownload(await api.fetch('GET', '/export', { query: { format }, token }));
+    } catch (err: any) {
+      setError(`Export failed: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="⚙️ Settings" />
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {notice && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">{notice}</div>
+        )}
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">{error}</div>
+        )}
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Profile</h3>
+          <form onSubmit={handleProfile} className="space-y-4">
+            <Input
+              label="Name"
+              value={profile.name}
+              onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+              required
+              error={fieldErrors.name}
+            />
+            <Input
+              label="Email"
+              type="email"
+              value={profile.email}
+              onChange={(e) => setProfile({ ...profile, email: e.target.value })}
+              required
+              error={fieldErrors.email}
+            />
+            <p className="text-xs text-gray-500">Changing your email sends a new verification link to the new address.</p>
+            {profile.email !== savedEmail && (
+              <Input
+                label="Current password"
+                type="password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                required
+                error={fieldErrors.currentPassword}
+              />
+            )}
+            <Select
+              label="Display currency"
+              value={profile.display_currency}
+              onChange={(e) => setProfile({ ...profile, display_currency: e.target.value })}
+              options={currencies.map((currency) => ({ value: currency, label: currency }))}
+              error={fieldErrors.display_currency}
+            />
+            <Button type="submit">Save profile</Button>
+          </form>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Password</h3>
+          <form onSubmit={handlePassword} className="space-y-4">
+            <Input
+              label="Current password"
+              type="password"
+              value={passwords.currentPassword}
+              onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+              required
+              error={fieldErrors.currentPassword}
+            />
+            <Input
+              label="New password"
+              type="password"
+              value={passwords.newPassword}
+              onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+              required
+              error={fieldErrors.newPassword}
+            />
+            <p className="text-xs text-gray-500">Changing your password signs out your other devices.</p>
+            <Button type="submit">Change password</Button>
+          </form>
+          <p className="text-sm mt-4">
+            <Link to="/sessions" className="text-blue-600 hover:underline">Manage signed-in devices</Link>
+            {" · "}
+            <Link to="/api-keys" className="text-blue-600 hover:underline">API keys for scripts</Link>
+          </p>
+        </Card>
+
+        <Card className="p-6 border-red-200">
+          <h3 className="text-lg font-semibold text-red-600 mb-2">Delete account</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Deleting your account removes your profile and every donation, conversion, post, campaign and goal you've
+            recorded. Download a copy first if you want to keep it.
+          </p>
+          <div className="flex gap-2 mb-4">
+            <Button variant="outline" size="sm" onClick={() => handleExport("json")}>
+              Download JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")}>
+              Download CSV
+            </Button>
+          </div>
+          <form onSubmit={handleDelete} className="space-y-4">
+            <Input
+              label="Confirm with your password"
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              required
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 font-medium rounded-lg bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              Delete my account
+            </button>
+          </form>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+// Signed-in devices, with sign-out for one or all of them
+function SessionsPage() {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [error, setError] = useState("");
+  const { token, logoutAll } = useAuth();
+
+  const fetchSessions = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/sessions", { token });
+      setSessions(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [token]);
+
+  const handleRevoke = async (id: number) => {
+    if (!token) return;
+
+    try {
+      await api.delete("/sessions/{id}", { params: { id }, token });
+      await fetchSessions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (window.confirm("Log out of every device, including this one?")) {
+      await logoutAll();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="🔑 Sessions" />
+
+      <main className="max-w-3xl mx-auto p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Active Sessions</h3>
+            <Button variant="outline" size="sm" onClick={handleLogoutAll}>
+              Log out all devices
+            </Button>
+          </div>
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-md">
+                <div>
+                  <div className="font-medium text-sm">
+                    {session.user_agent || "Unknown device"}
+                    {session.current && <span className="ml-2 text-xs text-green-700">This device</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {session.ip_address || "Unknown address"} · signed in {session.created_at} · last seen {session.last_seen_at}
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(session.id)}>
+                    Log out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+// Personal API keys: create one with scopes, copy it once, see when each was last used, revoke
+type ApiKeyResource = (typeof API_KEY_RESOURCES)[number];
+type ApiKeyAccess = "none" | "read" | "write";
+
+// "read" and "write" cover every resource; otherwise scopes are chosen per resource
+const apiKeyAccessOptions = [
+  { value: "read", label: "Read everything" },
+  { value: "write", label: "Read and write everything" },
+  { value: "custom", label: "Choose for each resource" },
+];
+
+const apiKeyScopes = (access: string, perResource: Partial<Record<ApiKeyResource, ApiKeyAccess>>) =>
+  access !== "custom"
+    ? [access]
+    : Object.entries(perResource).filter(([, level]) => level !== "none").map(([resource, level]) => `${resource}:${level}`);
+
+function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKeyInfo[]>([]);
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState("read");
+  const [perResource, setPerResource] = useState<Partial<Record<ApiKeyResource, ApiKeyAccess>>>({});
+  const [createdKey, setCreatedKey] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState("");
+  const { token } = useAuth();
+
+  const fetchKeys = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/me/api-keys", { token });
+      setKeys(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, [token]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError("");
+    setCreatedKey("");
+
+    const { value, errors } = validate(apiKeySchema, { name, scopes: apiKeyScopes(access, perResource) });
+    setFieldErrors(errors ?? {});
+    if (errors) return;
+
+    try {
+      const response = await api.post("/me/api-keys", { body: value as ApiKey, token });
+      setCreatedKey(response.key);
+      setName("");
+      setPerResource({});
+      await fetchKeys();
+    } catch (err: any) {
+      setFieldErrors(err.fields ?? {});
+      setError(err.message);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeyInfo) => {
+    if (!token || !window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      await api.delete("/me/api-keys/{id}", { params: { id: key.id }, token });
+      await fetchKeys();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="🗝️ API Keys" />
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-2">Create a Key</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Send the key as an <code>X-API-Key</code> header. Keys can't change your account, sessions or other keys.{" "}
+            <a href="/api/docs" className="text-blue-600 hover:underline">API docs</a>
+          </p>
+
+          {createdKey && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-sm">
+              <p className="mb-2">Copy your new key now. It won't be shown again.</p>
+              <div className="flex gap-2 items-center">
+                <code className="flex-1 break-all bg-white px-2 py-1 border border-gray-200 rounded">{createdKey}</code>
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(createdKey)}>
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Donation import script"
+              error={fieldErrors.name}
+            />
+            <Select
+              label="Access"
+              value={access}
+              onChange={(e) => setAccess(e.target.value)}
+              options={apiKeyAccessOptions}
+              error={access === "custom" ? undefined : fieldErrors.scopes}
+            />
+            {access === "custom" && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {API_KEY_RESOURCES.map((resource) => (
+                  <label key={resource} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+                    {resource}
+                    <select
+                      value={perResource[resource] ?? "none"}
+                      onChange={(e) => setPerResource({ ...perResource, [resource]: e.target.value as ApiKeyAccess })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      <option value="none">No access</option>
+                      <option value="read">Read</option>
+                      <option value="write">Read and write</option>
+                    </select>
+                  </label>
+                ))}
+                <div className="sm:col-span-2">
+                  <FieldError message={fieldErrors.scopes} />
+                </div>
+              </div>
+            )}
+            <Button type="submit">Create Key</Button>
+          </form>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Your Keys</h3>
+          {keys.length === 0 && <p className="text-sm text-gray-500">No API keys yet.</p>}
+          <div className="space-y-3">
+            {keys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-md">
+                <div>
+                  <div className="font-medium text-sm">
+                    {key.name} <code className="ml-1 text-xs text-gray-500">{key.prefix}…</code>
+                  </div>
+                  <div className="text-xs text-gray-500">{key.scopes.join(", ")}</div>
+                  <div className="text-xs text-gray-500">
+                    created {key.created_at} · {key.last_used_at ? `last used ${key.last_used_at} from ${key.last_used_ip || "an unknown address"}` : "never used"}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRevoke(key)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+// Public profile settings (opt in, choose what to share, change or revoke the link)
+const profileSectionLabels: Record<ProfileSection, string> = {
+  donations: "Donation total",
+  conversions: "Vegan conversions (count only)",
+  media: "Content shared and reach",
+  campaigns: "Campaigns",
+  impact: "Animals spared",
+  achievements: "Achievements",
+};
+
+function SharingPage() {
+  const [profile, setProfile] = useState<PublicProfileRecord | null>(null);
+  const [form, setForm] = useState<PublicProfileSettings>({ slug: "", display_name: "", sections: ["impact"] });
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const { token } = useAuth();
+
+  const applyProfile = (data: PublicProfileRecord | null) => {
+    setProfile(data);
+    if (data) setForm({ slug: data.slug, display_name: data.display_name ?? "", sections: data.sections });
+  };
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      if (!token) return;
+
+      try {
+        const response = await api.get("/me/public-profile", { token });
+        applyProfile(response.data);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoaded(true);
+      }
+    };
+
+    fetchProfile();
+  }, [token]);
+
+  const run = async (request: () => Promise<any>) => {
+    if (!token) return;
+    setError("");
+    setNotice("");
+
+    try {
+      const result = await request();
+      applyProfile(result.data ?? null);
+      setNotice(result.message);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const toggleSection = (key: ProfileSection, checked: boolean) => {
+    setForm({
+      ...form,
+      sections: checked ? [...form.sections, key] : form.sections.filter((section) => section !== key),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = { ...form, slug: form.slug || undefined };
+    run(() => profile
+      ? api.patch("/me/public-profile", { body, token: token! })
+      : api.post("/me/public-profile", { body, token: token! }));
+  };
+
+  const profileUrl = profile ? `${window.location.origin}/u/${profile.slug}` : "";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="🔗 Sharing" />
+
+      <main className="max-w-3xl mx-auto p-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+            {notice}
+          </div>
+        )}
+
+        {loaded && (
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-2">Public Profile</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Share a read-only page with the totals you choose. Individual records and the names of people you've
+              influenced are never shown.
+            </p>
+
+            {profile && (
+              <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm">
+                Your profile is public at{" "}
+                <a href={profileUrl} target="_blank" rel="noreferrer" className="text-blue-600 underline">{profileUrl}</a>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Display name (optional)"
+                value={form.display_name}
+                onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+              />
+              <Input
+                label="Link name (optional; random if left blank)"
+                value={form.slug}
+                onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase() })}
+                placeholder="e.g. jane-doe"
+              />
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Show</span>
+                {PROFILE_SECTIONS.map((section) => (
+                  <label key={section} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.sections.includes(section)}
+                      onChange={(e) => toggleSection(section, e.target.checked)}
+                    />
+                    {profileSectionLabels[section]}
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">{profile ? "Save Changes" : "Make Profile Public"}</Button>
+                {profile && (
+                  <>
+                    <Button variant="outline" onClick={() => run(() => api.post("/me/public-profile/rotate", { token: token! }))}>
+                      New Random Link
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => window.confirm("Make your profile private? The current link will stop working.")
+                        && run(() => api.delete("/me/public-profile", { token: token! }))}
+                    >
+                      Make Private
+                    </Button>
+                  </>
+                )}
+              </div>
+            </form>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// Read-only public profile (no login required)
+function PublicProfilePage() {
+  const { slug } = useParams();
+  const [profile, setProfile] = useState<PublicProfileData | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await api.get("/public/{slug}", { params: { slug: slug! } });
+        setProfile(response.data);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchProfile();
+  }, [slug]);
+
+  const breakdownLabels: Record<string, string> = {
+    conversions: "Vegan conversions",
+    donations: "Donations",
+    media: "Media reach",
+    campaigns: "Campaigns",
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-blue-600">🐾 Animal Impact</h1>
+          <Link to="/" className="text-sm text-gray-600 hover:text-blue-600">Track your own impact</Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6">
+        {error && <p className="text-gray-600">{error}</p>}
+
+        {profile && (
+          <>
+            <div className="mb-8">
+              <h2 className="text-3xl font-bold text-gray-900 mb-2">{profile.name}'s Animal Welfare Impact</h2>
+            </div>
+
+            <StatCards stats={profile.stats} impact={null} sections={profile.sections} />
+
+            {profile.impact && (
+              <Card className="p-6 max-w-md">
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <span className="text-green-600">🌱</span>
+                  Animals Spared
+                </h3>
+                <div className="text-lg font-semibold text-green-600 mb-3">
+                  ≈ {profile.impact.total.toLocaleString()} animals spared
+                </div>
+                <div className="text-sm text-gray-600 space-y-1">
+                  {Object.entries(profile.impact.breakdown).map(([type, value]) => (
+                    <div key={type} className="flex justify-between">
+                      <span>{breakdownLabels[type] ?? type}</span>
+                      <span>{(value ?? 0).toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-500 mt-3">
+                  Impact model v{profile.impact.modelVersion}
+                </div>
+              </Card>
+            )}
+
+            {profile.achievements && profile.achievements.length > 0 && (
+              <Card className="p-6 mt-8">
+                <h3 className="text-lg font-semibold mb-4">Achievements</h3>
+                <BadgeList achievements={profile.achievements} />
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// Admin console (platform stats, user moderation and the organization catalogue)
+const emptyOrganization = { name: "", aliases: "", cause_area: "farmed", animals_per_dollar: "", source: "" };
+
+const causeAreaOptions = CAUSE_AREAS.map((area) => ({ value: area, label: area }));
+
+function AdminPage() {
+  const [stats, setStats] = useState<PlatformStats | null>(null);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [organizationForm, setOrganizationForm] = useState(emptyOrganization);
+  const [organizationErrors, setOrganizationErrors] = useState<FieldErrors>({});
+  const [editingOrganization, setEditingOrganization] = useState<number | null>(null);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [backupsError, setBackupsError] = useState("");
+  const [backingUp, setBackingUp] = useState(false);
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+  const { token, user } = useAuth();
+
+  const fetchStats = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/admin/stats", { token });
+      setStats(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const fetchUsers = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/admin/users", { query: { page, limit: 20, q: query }, token });
+      setUsers(response.data);
+      setPagination(response.pagination);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const fetchOrganizations = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/admin/organizations", { token });
+      setOrganizations(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Backups are SQLite-only; on PostgreSQL the reason is shown in place of the list
+  const fetchBackups = async () => {
+    if (!token) return;
+
+    try {
+      const response = await api.get("/admin/backups", { token });
+      setBackups(response.data);
+      setBackupsError("");
+    } catch (err: any) {
+      setBackupsError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchStats();
+    fetchOrganizations();
+    fetchBackups();
+  }, [token]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [token, page, query]);
+
+  // Run an admin action, then refresh whatever it may have changed
+  const run = async (action: () => Promise<any>, refresh: () => Promise<void>) => {
+    if (!token) return;
+    setNotice("");
+    setError("");
+
+    try {
+      const result = await action();
+      setNotice(result.message);
+      await Promise.all([refresh(), fetchStats()]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setQuery(search.trim());
+  };
+
+  const updateUser = (target: AdminUser, changes: { role?: UserRole; disabled?: boolean }) => {
+    if (changes.disabled && !window.confirm(`Disable ${target.email}? They'll be signed out everywhere.`)) return;
+    run(() => api.patch("/admin/users/{id}", { params: { id: target.id }, body: changes, token: token! }), fetchUsers);
+  };
+
+  const handleOrganizationSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = {
+      ...organizationForm,
+      aliases: organizationForm.aliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+    };
+    const { value, errors } = validate(organizationSchema, body);
+    setOrganizationErrors(errors ?? {});
+    if (errors) return;
+
+    run(async () => {
+      const result = editingOrganization
+        ? await api.patch("/admin/organizations/{id}", { params: { id: editingOrganization }, body: value, token: token! })
+        : await api.post("/admin/organizations", { body: value, token: token! });
+      setOrganizationForm(emptyOrganization);
+      setEditingOrganization(null);
+      return result;
+    }, fetchOrganizations);
+  };
+
+  const handleEditOrganization = (organization: Organization) => {
+    setEditingOrganization(organization.id);
+    setOrganizationErrors({});
+    setOrganizationForm({
+      name: organization.name,
+      aliases: organization.aliases.join(", "),
+      cause_area: organization.cause_area,
+      animals_per_dollar: String(organization.animals_per_dollar),
+      source: organization.source || "",
+    });
+  };
+
+  const handleDeleteOrganization = (organization: Organization) => {
+    if (!window.confirm(`Delete ${organization.name} from the catalogue? Donations to it will be unlinked.`)) return;
+    run(() => api.delete("/admin/organizations/{id}", { params: { id: organization.id }, token: token! }), fetchOrganizations);
+  };
+
+  const handleBackup = async () => {
+    setBackingUp(true);
+    await run(() => api.post("/admin/backups", { token: token! }), fetchBackups);
+    setBackingUp(false);
+  };
+
+  const statCards = stats
+    ? [
+        { label: "Users", value: stats.users.total.toLocaleString(), detail: `${stats.users.newLast30Days} new in 30 days` },
+        { label: "Active users", value: stats.users.activeLast30Days.toLocaleString(), detail: "signed in within 30 days" },
+        { label: "Disabled", value: stats.users.disabled.toLocaleString(), detail: `${stats.users.admins} admins` },
+        { label: "Donations logged", value: formatMoney(stats.totalDonations, stats.currency, 0), detail: `${stats.records.donations} records` },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="🛡️ Admin" />
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        {notice && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">{notice}</div>
+        )}
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm">{error}</div>
+        )}
+
+        <div className="grid md:grid-cols-4 gap-4">
+          {statCards.map((card) => (
+            <Card key={card.label} className="p-4">
+              <div className="text-sm text-gray-600">{card.label}</div>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <div className="text-xs text-gray-500">{card.detail}</div>
+            </Card>
+          ))}
+        </div>
+
+        {stats && (
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">Records</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              {Object.entries(stats.records).map(([key, count]) => (
+                <div key={key} className="flex justify-between border-b border-gray-100 py-1">
+                  <span className="text-gray-600">{key.replace(/([A-Z])/g, " $1").toLowerCase()}</span>
+                  <span className="font-medium">{count.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Users</h3>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search name or email"
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              <Button type="submit" size="sm">Search</Button>
+            </form>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Email</th>
+                  <th className="py-2 pr-4 font-medium">Joined</th>
+                  <th className="py-2 pr-4 font-medium">Last seen</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((row) => (
+                  <tr key={row.id} className={`border-b border-gray-100 ${row.disabled_at ? "text-gray-400" : ""}`}>
+                    <td className="py-2 pr-4">
+                      {row.name}
+                      {row.disabled_at && <span className="ml-2 text-xs text-red-600">Disabled</span>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {row.email}
+                      {!row.email_verified_at && <span className="ml-2 text-xs text-gray-500">unverified</span>}
+                    </td>
+                    <td className="py-2 pr-4">{row.created_at.slice(0, 10)}</td>
+                    <td className="py-2 pr-4">{row.last_seen_at?.slice(0, 10) || "Never"}</td>
+                    <td className="py-2 pr-4">
+                      <select
+                        value={row.role}
+                        disabled={row.id === user?.id}
+                        onChange={(e) => updateUser(row, { role: e.target.value as UserRole })}
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      >
+                        <option value="user">user</option>
+                        <option value="admin">admin</option>
+                      </select>
+                    </td>
+                    <td className="py-2 text-right">
+                      {row.id !== user?.id && (
+                        <Button variant="outline" size="sm" onClick={() => updateUser(row, { disabled: !row.disabled_at })}>
+                          {row.disabled_at ? "Enable" : "Disable"}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {users.length === 0 && <p className="text-gray-500 text-sm mt-4">No users found</p>}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span>Page {pagination.page} of {pagination.totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= pagination.totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </Card>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="p-6 lg:col-span-2 self-start">
+            <h3 className="text-lg font-semibold mb-4">Organization Catalogue</h3>
+            <div className="space-y-3">
+              {organizations.map((organization) => (
+                <div key={organization.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-md">
+                  <div>
+                    <div className="font-medium text-sm">{organization.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {organization.cause_area} · {organization.animals_per_dollar} animals per dollar
+                      {organization.aliases.length > 0 && ` · also ${organization.aliases.join(", ")}`}
+                    </div>
+                  </div>
+                  <div className="whitespace-nowrap">
+                    <Button variant="outline" size="sm" onClick={() => handleEditOrganization(organization)}>
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" className="ml-2 text-red-600" onClick={() => handleDeleteOrganization(organization)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {organizations.length === 0 && <p className="text-gray-500 text-sm">The catalogue is empty</p>}
+            </div>
+          </Card>
+
+          <Card className="p-6 self-start">
+            <h3 className="text-lg font-semibold mb-4">{editingOrganization ? "Edit Organization" : "Add Organization"}</h3>
+            <form onSubmit={handleOrganizationSubmit} className="space-y-4">
+              <Input
+                label="Name"
+                value={organizationForm.name}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, name: e.target.value })}
+                required
+                error={organizationErrors.name}
+              />
+              <Input
+                label="Aliases (comma separated)"
+                value={organizationForm.aliases}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, aliases: e.target.value })}
+                error={organizationErrors.aliases}
+              />
+              <Select
+                label="Cause area"
+                value={organizationForm.cause_area}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, cause_area: e.target.value })}
+                options={causeAreaOptions}
+                error={organizationErrors.cause_area}
+              />
+              <Input
+                label="Animals per dollar"
+                value={organizationForm.animals_per_dollar}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, animals_per_dollar: e.target.value })}
+                required
+                error={organizationErrors.animals_per_dollar}
+              />
+              <Input
+                label="Source"
+                value={organizationForm.source}
+                onChange={(e) => setOrganizationForm({ ...organizationForm, source: e.target.value })}
+                error={organizationErrors.source}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">{editingOrganization ? "Save" : "Add"}</Button>
+                {editingOrganization && (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setEditingOrganization(null);
+                      setOrganizationForm(emptyOrganization);
+                      setOrganizationErrors({});
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Card>
+        </div>
+
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Database Backups</h3>
+            {!backupsError && (
+              <Button size="sm" onClick={handleBackup} disabled={backingUp}>
+                {backingUp ? "Backing up..." : "Back up now"}
+              </Button>
+            )}
+          </div>
+          {backupsError ? (
+            <p className="text-gray-500 text-sm">{backupsError}</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {backups.map((backup) => (
+                <div key={backup.name} className="flex justify-between border-b border-gray-100 py-1">
+                  <span>{new Date(backup.createdAt).toLocaleString()}</span>
+                  <span className="text-gray-500">
+                    {backup.name} · {(backup.size / 1024).toFixed(0)} KB
+                  </span>
+                </div>
+              ))}
+              {backups.length === 0 && <p className="text-gray-500">No backups yet</p>}
+            </div>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+// Protected Route wrapper
+function ProtectedRoute({ children }: { children: React.ReactNode }) {
+  const { token } = useAuth();
+  return token ? <>{children}</> : <Navigate to="/auth" />;
+}
+
+// Admin-only route wrapper; waits for the signed-in user to load before deciding
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { token, user } = useAuth();
+  if (!token) return <Navigate to="/auth" />;
+  if (!user) return null;
+  return user.role === "admin" ? <>{children}</> : <Navigate to="/dashboard" />;
+}
+
+// Main App
+export default function App() {
+  return (
+    <AuthProvider>
+      <Router>
+        <Routes>
+          <Route path="/" element={<LandingPage />} />
+          <Route path="/auth" element={<AuthPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
+          <Route 
+            path="/dashboard" 
+            element={
+              <ProtectedRoute>
+                <DashboardPage />
+              </ProtectedRoute>
+            } 
+          />
+          <Route
+            path="/recurring-donations"
+            element={
+              <ProtectedRoute>
+                <ActivityPage key="recurring-donations" config={recurringDonationsConfig} />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/goals"
+            element={
+              <ProtectedRoute>
+                <ActivityPage key="goals" config={goalsConfig} />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/teams"
+            element={
+              <ProtectedRoute>
+                <TeamsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/teams/:id"
+            element={
+              <ProtectedRoute>
+                <TeamPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/sharing"
+            element={
+              <ProtectedRoute>
+                <SharingPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/settings"
+            element={
+              <ProtectedRoute>
+                <SettingsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/sessions"
+            element={
+              <ProtectedRoute>
+                <SessionsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/api-keys"
+            element={
+              <ProtectedRoute>
+                <ApiKeysPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin"
+            element={
+              <AdminRoute>
+                <AdminPage />
+              </AdminRoute>
+            }
+          />
+          <Route path="/u/:slug" element={<PublicProfilePage />} />
+          <Route
+            path="/import"
+            element={
+              <ProtectedRoute>
+                <ImportPage />
+              </ProtectedRoute>
+            }
+          />
+          {Object.entries(activityConfigs).map(([key, config]) => (
+            <Route
+              key={key}
+              path={`/${key}`}
+              element={
+                <ProtectedRoute>
+                  <ActivityPage key={key} config={config} />
+                </ProtectedRoute>
+              }
+            />
+          ))}
         </Routes>
       </Router>
     </AuthProvider>
@@ -0,0 +1,1350 @@
+// Generated from the API's OpenAPI document (openapi.ts) by `bun run api:client`; don't edit.
+// Paths are relative to /api.
+
+export interface Account {
+  id: number;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+  display_currency: string;
+  email_verified_at: string | null;
+  created_at: string;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  unlockedAt: string | null;
+}
+
+export interface AdminUser {
+  id: number;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+  email_verified_at: string | null;
+  disabled_at: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+}
+
+export interface AdminUserUpdate {
+  role?: 'user' | 'admin';
+  disabled?: boolean;
+}
+
+export interface ApiKey {
+  name: string;
+  scopes: ('read' | 'write' | 'dashboard:read' | 'dashboard:write' | 'currencies:read' | 'currencies:write' | 'donations:read' | 'donations:write' | 'conversions:read' | 'conversions:write' | 'media:read' | 'media:write' | 'campaigns:read' | 'campaigns:write' | 'recurring-donations:read' | 'recurring-donations:write' | 'goals:read' | 'goals:write' | 'achievements:read' | 'achievements:write' | 'analytics:read' | 'analytics:write' | 'reports:read' | 'reports:write' | 'export:read' | 'export:write' | 'import:read' | 'import:write' | 'teams:read' | 'teams:write')[];
+}
+
+export interface ApiKeyInfo {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+}
+
+export interface Backup {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+export interface Campaign {
+  campaign_name: string;
+  organization?: string;
+  participation_type: string;
+  date: string;
+  impact_description?: string;
+}
+
+export interface CampaignRecord {
+  campaign_name: string;
+  organization: string | null;
+  participation_type: string;
+  date: string;
+  impact_description: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+}
+
+export interface CampaignUpdate {
+  campaign_name?: string;
+  organization?: string;
+  participation_type?: string;
+  date?: string;
+  impact_description?: string;
+}
+
+export interface ChangePassword {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface Conversion {
+  person_name: string;
+  conversion_date: string;
+  influence_type?: string;
+  notes?: string;
+}
+
+export interface ConversionRecord {
+  person_name: string;
+  conversion_date: string;
+  influence_type: string | null;
+  notes: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+}
+
+export interface ConversionUpdate {
+  person_name?: string;
+  conversion_date?: string;
+  influence_type?: string;
+  notes?: string;
+}
+
+export interface Dashboard {
+  user: {
+    id: number;
+    email: string;
+    name: string;
+    display_currency: string;
+    email_verified_at: string | null;
+    created_at: string;
+  };
+  stats: UserStats;
+  impact: Impact;
+  recent: {
+    donations: DonationRecord[];
+    conversions: ConversionRecord[];
+    media: MediaRecord[];
+    campaigns: CampaignRecord[];
+  };
+}
+
+export interface DeleteAccount {
+  password: string;
+}
+
+export interface Donation {
+  organization: string;
+  amount: number;
+  currency?: string;
+  date: string;
+  notes?: string;
+}
+
+export interface DonationRecord {
+  organization: string;
+  amount: number;
+  currency: string;
+  date: string;
+  notes: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+  organization_id?: number | null;
+  recurring_donation_id?: number | null;
+}
+
+export interface DonationUpdate {
+  organization?: string;
+  amount?: number;
+  currency?: string;
+  date?: string;
+  notes?: string;
+}
+
+export interface ForgotPassword {
+  email: string;
+}
+
+export interface Goal {
+  title: string;
+  metric: 'donations' | 'conversions' | 'media' | 'reach' | 'campaigns' | 'impact';
+  target: number;
+  currency?: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface GoalProgress {
+  goal: GoalRecord;
+  current: number;
+  percent: number;
+  projected: number;
+  projectedCompletionDate: string | null;
+  daysLeft: number;
+  status: 'upcoming' | 'on_track' | 'at_risk' | 'completed' | 'missed';
+}
+
+export interface GoalRecord {
+  title: string;
+  metric: 'donations' | 'conversions' | 'media' | 'reach' | 'campaigns' | 'impact';
+  target: number;
+  currency: string;
+  start_date: string;
+  end_date: string;
+  id: number;
+  user_id: number;
+  created_at: string;
+}
+
+export interface GoalUpdate {
+  title?: string;
+  metric?: 'donations' | 'conversions' | 'media' | 'reach' | 'campaigns' | 'impact';
+  target?: number;
+  currency?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface Health {
+  status: string;
+  database: string;
+  uptime: number;
+  timestamp: string;
+  version: string;
+  environment: string;
+  memory: {
+    used: string;
+    total: string;
+  };
+}
+
+export interface Impact {
+  modelVersion: string;
+  total: number;
+  breakdown: {
+    conversions: number;
+    donations: number;
+    media: number;
+    campaigns: number;
+  };
+}
+
+export interface Import {
+  csv: string;
+  mapping?: Record<string, unknown> | null;
+  dryRun?: boolean;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  mapping: Record<string, string | null>;
+  missingFields: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  imported: number;
+  errors: {
+    row: number;
+    messages: string[];
+  }[];
+  duplicates: number[];
+  preview: {
+    row: number;
+    status: 'valid' | 'invalid' | 'duplicate';
+    values: Record<string, string>;
+    messages: string[];
+  }[];
+}
+
+export interface JoinTeam {
+  invite_code: string;
+}
+
+export interface Login {
+  email: string;
+  password: string;
+}
+
+export interface Media {
+  platform: 'Facebook' | 'Instagram' | 'Twitter' | 'TikTok' | 'YouTube' | 'LinkedIn' | 'Reddit' | 'Blog' | 'Podcast' | 'Other';
+  content_type: string;
+  reach_estimate?: number;
+  date: string;
+  url?: string;
+  notes?: string;
+}
+
+export interface MediaRecord {
+  platform: 'Facebook' | 'Instagram' | 'Twitter' | 'TikTok' | 'YouTube' | 'LinkedIn' | 'Reddit' | 'Blog' | 'Podcast' | 'Other';
+  content_type: string;
+  reach_estimate: number | null;
+  date: string;
+  url: string | null;
+  notes: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+}
+
+export interface MediaUpdate {
+  platform?: 'Facebook' | 'Instagram' | 'Twitter' | 'TikTok' | 'YouTube' | 'LinkedIn' | 'Reddit' | 'Blog' | 'Podcast' | 'Other';
+  content_type?: string;
+  reach_estimate?: number;
+  date?: string;
+  url?: string;
+  notes?: string;
+}
+
+export interface Organization {
+  name: string;
+  aliases?: string[];
+  cause_area: 'farmed' | 'wild' | 'companion';
+  animals_per_dollar: number;
+  source?: string;
+}
+
+export interface OrganizationRecord {
+  name: string;
+  aliases: string[];
+  cause_area: 'farmed' | 'wild' | 'companion';
+  animals_per_dollar: number;
+  source: string | null;
+  id: number;
+  created_at: string;
+}
+
+export interface OrganizationUpdate {
+  name?: string;
+  aliases?: string[];
+  cause_area?: 'farmed' | 'wild' | 'companion';
+  animals_per_dollar?: number;
+  source?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface PlatformStats {
+  users: {
+    total: number;
+    admins: number;
+    disabled: number;
+    verified: number;
+    newLast30Days: number;
+    activeLast30Days: number;
+  };
+  records: Record<string, number>;
+  totalDonations: number;
+  currency: string;
+}
+
+export interface ProfileUpdate {
+  name?: string;
+  email?: string;
+  display_currency?: string;
+  currentPassword?: string;
+}
+
+export interface PublicProfile {
+  slug?: string | null;
+  display_name?: string;
+  sections: ('donations' | 'conversions' | 'media' | 'campaigns' | 'impact' | 'achievements')[];
+}
+
+export interface PublicProfileRecord {
+  slug: string;
+  display_name: string | null;
+  sections: ('donations' | 'conversions' | 'media' | 'campaigns' | 'impact' | 'achievements')[];
+  user_id: number;
+  created_at: string;
+}
+
+export interface PublicProfileUpdate {
+  slug?: string | null;
+  display_name?: string;
+  sections?: ('donations' | 'conversions' | 'media' | 'campaigns' | 'impact' | 'achievements')[];
+}
+
+export interface PublicProfileView {
+  name: string;
+  sections: ('donations' | 'conversions' | 'media' | 'campaigns' | 'impact' | 'achievements')[];
+  stats: {
+    totalDonations?: number;
+    currency?: string;
+    conversionCount?: number;
+    mediaCount?: number;
+    totalReach?: number;
+    campaignCount?: number;
+  };
+  impact: {
+    modelVersion: string;
+    total: number;
+    breakdown: {
+      conversions?: number;
+      donations?: number;
+      media?: number;
+      campaigns?: number;
+    };
+  } | null;
+  achievements: Achievement[] | null;
+}
+
+export interface RecurringDonation {
+  organization: string;
+  amount: number;
+  currency?: string;
+  cadence: 'weekly' | 'monthly' | 'yearly';
+  start_date: string;
+  end_date?: string | null;
+  day_of_month?: number | null;
+  notes?: string;
+}
+
+export interface RecurringDonationRecord {
+  organization: string;
+  amount: number;
+  currency: string;
+  cadence: 'weekly' | 'monthly' | 'yearly';
+  start_date: string;
+  end_date: string | null;
+  day_of_month: number | null;
+  notes: string | null;
+  id: number;
+  user_id: number;
+  created_at: string;
+  status: 'active' | 'paused' | 'cancelled';
+  generated_through: string | null;
+}
+
+export interface RecurringDonationUpdate {
+  organization?: string;
+  amount?: number;
+  currency?: string;
+  cadence?: 'weekly' | 'monthly' | 'yearly';
+  start_date?: string;
+  end_date?: string | null;
+  day_of_month?: number | null;
+  notes?: string;
+}
+
+export interface RefreshToken {
+  refreshToken: string;
+}
+
+export interface Register {
+  email: string;
+  name: string;
+  password: string;
+}
+
+export interface ResetPassword {
+  token: string;
+  password: string;
+}
+
+export interface SessionInfo {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export interface SignedInUser {
+  id: number;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+}
+
+export interface Team {
+  name: string;
+  description?: string;
+}
+
+export interface TeamDashboard {
+  team: {
+    id: number;
+    name: string;
+    description: string | null;
+    created_at: string;
+  };
+  stats: UserStats;
+  impact: Impact;
+  memberCount: number;
+  hiddenMembers: number;
+  members: {
+    userId: number;
+    name: string;
+    role: 'owner' | 'admin' | 'member';
+    stats: UserStats;
+    impact: Impact;
+  }[];
+}
+
+export interface TeamDetails {
+  id: number;
+  name: string;
+  description: string | null;
+  invite_code?: string;
+  created_by: number | null;
+  created_at: string;
+  membership: TeamMember;
+  members: TeamMember[];
+}
+
+export interface TeamMember {
+  user_id: number;
+  name: string;
+  role: 'owner' | 'admin' | 'member';
+  share_stats: boolean;
+  joined_at: string;
+}
+
+export interface TeamMemberRole {
+  role: 'admin' | 'member';
+}
+
+export interface TeamMembership {
+  share_stats: boolean;
+}
+
+export interface TeamUpdate {
+  name?: string;
+  description?: string;
+}
+
+export interface Timeseries {
+  metric: 'donations' | 'conversions' | 'reach' | 'campaigns';
+  interval: 'week' | 'month' | 'year';
+  from: string;
+  to: string;
+  currency?: string;
+  buckets: {
+    period: string;
+    value: number;
+  }[];
+}
+
+export interface UserStats {
+  totalDonations: number;
+  currency: string;
+  conversionCount: number;
+  mediaCount: number;
+  totalReach: number;
+  campaignCount: number;
+  animalsImpact: number;
+}
+
+export interface VerifyEmail {
+  token: string;
+}
+
+export interface Error {
+  error: string;
+}
+
+export interface ValidationError {
+  error: string;
+  fields: Record<string, string>;
+}
+
+export interface Operations {
+  'POST /register': {
+    body: Register;
+  };
+  'POST /login': {
+    body: Login;
+  };
+  'POST /token/refresh': {
+    body: RefreshToken;
+  };
+  'POST /logout': {};
+  'POST /logout-all': {};
+  'GET /sessions': {};
+  'DELETE /sessions/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'POST /password/forgot': {
+    body: ForgotPassword;
+  };
+  'POST /password/reset': {
+    body: ResetPassword;
+  };
+  'POST /email/verify': {
+    body: VerifyEmail;
+  };
+  'POST /email/verify/resend': {};
+  'GET /dashboard': {};
+  'GET /me': {};
+  'PATCH /me': {
+    body: ProfileUpdate;
+  };
+  'DELETE /me': {
+    body: DeleteAccount;
+  };
+  'POST /me/password': {
+    body: ChangePassword;
+  };
+  'GET /me/public-profile': {};
+  'POST /me/public-profile': {
+    body: PublicProfile;
+  };
+  'PATCH /me/public-profile': {
+    body: PublicProfileUpdate;
+  };
+  'DELETE /me/public-profile': {};
+  'POST /me/public-profile/rotate': {};
+  'GET /me/api-keys': {};
+  'POST /me/api-keys': {
+    body: ApiKey;
+  };
+  'DELETE /me/api-keys/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /currencies': {};
+  'GET /donations': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'organization' | 'amount' | 'currency' | 'date' | 'notes' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /donations': {
+    body: Donation;
+  };
+  'GET /donations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /donations/{id}': {
+    params: {
+      id: number;
+    };
+    body: DonationUpdate;
+  };
+  'DELETE /donations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /conversions': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'person_name' | 'conversion_date' | 'influence_type' | 'notes' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /conversions': {
+    body: Conversion;
+  };
+  'GET /conversions/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /conversions/{id}': {
+    params: {
+      id: number;
+    };
+    body: ConversionUpdate;
+  };
+  'DELETE /conversions/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /media': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'platform' | 'content_type' | 'reach_estimate' | 'date' | 'url' | 'notes' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /media': {
+    body: Media;
+  };
+  'GET /media/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /media/{id}': {
+    params: {
+      id: number;
+    };
+    body: MediaUpdate;
+  };
+  'DELETE /media/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /campaigns': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'campaign_name' | 'organization' | 'participation_type' | 'date' | 'impact_description' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /campaigns': {
+    body: Campaign;
+  };
+  'GET /campaigns/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /campaigns/{id}': {
+    params: {
+      id: number;
+    };
+    body: CampaignUpdate;
+  };
+  'DELETE /campaigns/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'POST /recurring-donations/{id}/pause': {
+    params: {
+      id: number;
+    };
+  };
+  'POST /recurring-donations/{id}/resume': {
+    params: {
+      id: number;
+    };
+  };
+  'POST /recurring-donations/{id}/cancel': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /recurring-donations': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'organization' | 'amount' | 'currency' | 'cadence' | 'start_date' | 'end_date' | 'day_of_month' | 'notes' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /recurring-donations': {
+    body: RecurringDonation;
+  };
+  'GET /recurring-donations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /recurring-donations/{id}': {
+    params: {
+      id: number;
+    };
+    body: RecurringDonationUpdate;
+  };
+  'DELETE /recurring-donations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /achievements': {};
+  'GET /goals/progress': {
+    query?: {
+      active?: boolean;
+    };
+  };
+  'GET /goals/{id}/progress': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /goals': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'title' | 'metric' | 'target' | 'currency' | 'start_date' | 'end_date' | 'created_at';
+      order?: 'asc' | 'desc';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'POST /goals': {
+    body: Goal;
+  };
+  'GET /goals/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /goals/{id}': {
+    params: {
+      id: number;
+    };
+    body: GoalUpdate;
+  };
+  'DELETE /goals/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /export': {
+    query?: {
+      format?: 'json' | 'csv';
+    };
+  };
+  'POST /import/{type}': {
+    params: {
+      type: string;
+    };
+    body: Import;
+  };
+  'GET /reports/annual': {
+    query?: {
+      year?: number | null;
+      format?: 'pdf' | 'png';
+    };
+  };
+  'GET /teams': {};
+  'POST /teams': {
+    body: Team;
+  };
+  'POST /teams/join': {
+    body: JoinTeam;
+  };
+  'GET /teams/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /teams/{id}': {
+    params: {
+      id: number;
+    };
+    body: TeamUpdate;
+  };
+  'DELETE /teams/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /teams/{id}/dashboard': {
+    params: {
+      id: number;
+    };
+  };
+  'POST /teams/{id}/invite-code': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /teams/{id}/membership': {
+    params: {
+      id: number;
+    };
+    body: TeamMembership;
+  };
+  'PATCH /teams/{id}/members/{userId}': {
+    params: {
+      id: number;
+      userId: number;
+    };
+    body: TeamMemberRole;
+  };
+  'DELETE /teams/{id}/members/{userId}': {
+    params: {
+      id: number;
+      userId: number;
+    };
+  };
+  'GET /analytics/timeseries': {
+    query: {
+      metric: 'donations' | 'conversions' | 'reach' | 'campaigns';
+      interval?: 'week' | 'month' | 'year';
+      from?: string | null;
+      to?: string | null;
+    };
+  };
+  'GET /admin/organizations': {
+    query?: {
+      q?: string;
+      all?: boolean;
+    };
+  };
+  'POST /admin/organizations': {
+    body: Organization;
+  };
+  'POST /admin/organizations/link': {
+    query?: {
+      q?: string;
+      all?: boolean;
+    };
+  };
+  'GET /admin/organizations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /admin/organizations/{id}': {
+    params: {
+      id: number;
+    };
+    body: OrganizationUpdate;
+  };
+  'DELETE /admin/organizations/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'GET /admin/backups': {};
+  'POST /admin/backups': {};
+  'GET /admin/stats': {};
+  'GET /admin/users': {
+    query?: {
+      page?: number;
+      limit?: number;
+      q?: string;
+      role?: 'user' | 'admin' | null;
+      status?: 'active' | 'disabled' | null;
+    };
+  };
+  'GET /admin/users/{id}': {
+    params: {
+      id: number;
+    };
+  };
+  'PATCH /admin/users/{id}': {
+    params: {
+      id: number;
+    };
+    body: AdminUserUpdate;
+  };
+  'GET /public/{slug}': {
+    params: {
+      slug: string;
+    };
+  };
+  'GET /health': {};
+}
+
+export interface Responses {
+  'POST /register': {
+    message: string;
+    token: string;
+    refreshToken: string;
+    expiresIn: number;
+    user: SignedInUser;
+  };
+  'POST /login': {
+    message: string;
+    token: string;
+    refreshToken: string;
+    expiresIn: number;
+    user: SignedInUser;
+  };
+  'POST /token/refresh': {
+    message: string;
+    token: string;
+    refreshToken: string;
+    expiresIn: number;
+  };
+  'POST /logout': {
+    message: string;
+  };
+  'POST /logout-all': {
+    message: string;
+    revoked: number;
+  };
+  'GET /sessions': {
+    data: SessionInfo[];
+  };
+  'DELETE /sessions/{id}': {
+    message: string;
+  };
+  'POST /password/forgot': {
+    message: string;
+  };
+  'POST /password/reset': {
+    message: string;
+  };
+  'POST /email/verify': {
+    message: string;
+  };
+  'POST /email/verify/resend': {
+    message: string;
+  };
+  'GET /dashboard': Dashboard;
+  'GET /me': {
+    data: Account;
+  };
+  'PATCH /me': {
+    message: string;
+    data: Account;
+  };
+  'DELETE /me': {
+    message: string;
+  };
+  'POST /me/password': {
+    message: string;
+  };
+  'GET /me/public-profile': {
+    data: PublicProfileRecord | null;
+  };
+  'POST /me/public-profile': {
+    message: string;
+    data: PublicProfileRecord;
+  };
+  'PATCH /me/public-profile': {
+    message: string;
+    data: PublicProfileRecord;
+  };
+  'DELETE /me/public-profile': {
+    message: string;
+  };
+  'POST /me/public-profile/rotate': {
+    message: string;
+    data: PublicProfileRecord;
+  };
+  'GET /me/api-keys': {
+    data: ApiKeyInfo[];
+  };
+  'POST /me/api-keys': {
+    message: string;
+    id: number;
+    key: string;
+    data: {
+      id: number;
+      name: string;
+      prefix: string;
+      scopes: string[];
+    };
+  };
+  'DELETE /me/api-keys/{id}': {
+    message: string;
+  };
+  'GET /currencies': {
+    data: string[];
+  };
+  'GET /donations': {
+    data: DonationRecord[];
+    pagination: Pagination;
+  };
+  'POST /donations': {
+    message: string;
+    id: number;
+  };
+  'GET /donations/{id}': {
+    data: DonationRecord;
+  };
+  'PATCH /donations/{id}': {
+    message: string;
+    data: DonationRecord;
+  };
+  'DELETE /donations/{id}': {
+    message: string;
+  };
+  'GET /conversions': {
+    data: ConversionRecord[];
+    pagination: Pagination;
+  };
+  'POST /conversions': {
+    message: string;
+    id: number;
+  };
+  'GET /conversions/{id}': {
+    data: ConversionRecord;
+  };
+  'PATCH /conversions/{id}': {
+    message: string;
+    data: ConversionRecord;
+  };
+  'DELETE /conversions/{id}': {
+    message: string;
+  };
+  'GET /media': {
+    data: MediaRecord[];
+    pagination: Pagination;
+  };
+  'POST /media': {
+    message: string;
+    id: number;
+  };
+  'GET /media/{id}': {
+    data: MediaRecord;
+  };
+  'PATCH /media/{id}': {
+    message: string;
+    data: MediaRecord;
+  };
+  'DELETE /media/{id}': {
+    message: string;
+  };
+  'GET /campaigns': {
+    data: CampaignRecord[];
+    pagination: Pagination;
+  };
+  'POST /campaigns': {
+    message: string;
+    id: number;
+  };
+  'GET /campaigns/{id}': {
+    data: CampaignRecord;
+  };
+  'PATCH /campaigns/{id}': {
+    message: string;
+    data: CampaignRecord;
+  };
+  'DELETE /campaigns/{id}': {
+    message: string;
+  };
+  'POST /recurring-donations/{id}/pause': {
+    message: string;
+    data: RecurringDonationRecord;
+  };
+  'POST /recurring-donations/{id}/resume': {
+    message: string;
+    data: RecurringDonationRecord;
+  };
+  'POST /recurring-donations/{id}/cancel': {
+    message: string;
+    data: RecurringDonationRecord;
+  };
+  'GET /recurring-donations': {
+    data: RecurringDonationRecord[];
+    pagination: Pagination;
+  };
+  'POST /recurring-donations': {
+    message: string;
+    id: number;
+  };
+  'GET /recurring-donations/{id}': {
+    data: RecurringDonationRecord;
+  };
+  'PATCH /recurring-donations/{id}': {
+    message: string;
+    data: RecurringDonationRecord;
+  };
+  'DELETE /recurring-donations/{id}': {
+    message: string;
+  };
+  'GET /achievements': {
+    data: Achievement[];
+  };
+  'GET /goals/progress': {
+    data: GoalProgress[];
+  };
+  'GET /goals/{id}/progress': {
+    data: GoalProgress;
+  };
+  'GET /goals': {
+    data: GoalRecord[];
+    pagination: Pagination;
+  };
+  'POST /goals': {
+    message: string;
+    id: number;
+  };
+  'GET /goals/{id}': {
+    data: GoalRecord;
+  };
+  'PATCH /goals/{id}': {
+    message: string;
+    data: GoalRecord;
+  };
+  'DELETE /goals/{id}': {
+    message: string;
+  };
+  'GET /export': unknown;
+  'POST /import/{type}': ImportReport;
+  'GET /reports/annual': unknown;
+  'GET /teams': {
+    data: {
+      id: number;
+      name: string;
+      description: string | null;
+      role: 'owner' | 'admin' | 'member';
+      member_count: number;
+    }[];
+  };
+  'POST /teams': {
+    message: string;
+    id: number;
+  };
+  'POST /teams/join': {
+    message: string;
+    id: number;
+  };
+  'GET /teams/{id}': {
+    data: TeamDetails;
+  };
+  'PATCH /teams/{id}': {
+    message: string;
+    data: TeamDetails;
+  };
+  'DELETE /teams/{id}': {
+    message: string;
+  };
+  'GET /teams/{id}/dashboard': TeamDashboard;
+  'POST /teams/{id}/invite-code': {
+    message: string;
+    invite_code: string;
+  };
+  'PATCH /teams/{id}/membership': {
+    message: string;
+    share_stats: boolean;
+  };
+  'PATCH /teams/{id}/members/{userId}': {
+    message: string;
+  };
+  'DELETE /teams/{id}/members/{userId}': {
+    message: string;
+  };
+  'GET /analytics/timeseries': Timeseries;
+  'GET /admin/organizations': {
+    data: OrganizationRecord[];
+  };
+  'POST /admin/organizations': {
+    message: string;
+    id: number;
+    linked: number;
+  };
+  'POST /admin/organizations/link': {
+    message: string;
+    checked: number;
+    linked: number;
+  };
+  'GET /admin/organizations/{id}': {
+    data: OrganizationRecord;
+  };
+  'PATCH /admin/organizations/{id}': {
+    message: string;
+    data: OrganizationRecord;
+  };
+  'DELETE /admin/organizations/{id}': {
+    message: string;
+  };
+  'GET /admin/backups': {
+    data: Backup[];
+    retention: {
+      daily: number;
+      weekly: number;
+      monthly: number;
+    };
+  };
+  'POST /admin/backups': {
+    message: string;
+    data: Backup;
+    removed: string[];
+  };
+  'GET /admin/stats': {
+    data: PlatformStats;
+  };
+  'GET /admin/users': {
+    data: AdminUser[];
+    pagination: Pagination;
+  };
+  'GET /admin/users/{id}': {
+    data: AdminUser & {
+      stats: UserStats;
+    };
+  };
+  'PATCH /admin/users/{id}': {
+    message: string;
+    data: AdminUser;
+  };
+  'GET /public/{slug}': {
+    data: PublicProfileView;
+  };
+  'GET /health': Health;
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Paths with an operation for the method, e.g. ApiPath<'GET'> includes '/donations/{id}'
+export type ApiPath<M extends Method> = {
+  [K in keyof Operations]: K extends `${M} ${infer P}` ? P : never;
+}[keyof Operations];
+
+export type ApiOptions<M extends Method, P extends string> = Operations[`${M} ${P}` & keyof Operations] & { token?: string };
+
+// The parsed body of a successful response; unknown for file downloads
+export type ApiResponse<M extends Method, P extends string> = Responses[`${M} ${P}` & keyof Responses];
+
+// Options can be left out when the operation has nothing required
+type OptionsArg<M extends Method, P extends string> =
+  {} extends ApiOptions<M, P> ? [options?: ApiOptions<M, P>] : [options: ApiOptions<M, P>];
+
+// Sends a request to a path under /api and returns the response, throwing on errors
+export type Fetcher = (path: string, init: RequestInit, token?: string) => Promise<Response>;
+
+interface SendOptions {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  token?: string;
+}
+
+function buildPath(path: string, { params = {}, query = {} }: SendOptions) {
+  const url = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(params[name])));
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(name, String(value));
+    }
+  }
+  return search.size > 0 ? `${url}?${search}` : url;
+}
+
+export function createApiClient(fetcher: Fetcher) {
+  const send = (method: Method, path: string, options: SendOptions = {}) =>
+    fetcher(
+      buildPath(path, options),
+      options.body === undefined
+        ? { method }
+        : { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(options.body) },
+      options.token
+    );
+
+  const json = <M extends Method>(method: M) =>
+    async <P extends ApiPath<M>>(path: P, ...[options]: OptionsArg<M, P>): Promise<ApiResponse<M, P>> =>
+      (await send(method, path, options as SendOptions)).json() as Promise<ApiResponse<M, P>>;
+
+  return {
+    get: json('GET'),
+    post: json('POST'),
+    patch: json('PATCH'),
+    delete: json('DELETE'),
+    // The response itself, for file downloads
+    fetch: <M extends Method, P extends ApiPath<M>>(method: M, path: P, ...[options]: OptionsArg<M, P>) =>
+      send(method, path, options as SendOptions)
+  };
+}
@@ -0,0 +1,106 @@
+import { dbGet, dbAll } from './database.js';
+import { activeImpactModel, computeImpact } from './impact-model.js';
+import { BASE_CURRENCY, convertedAmountSql } from './exchange-rates.js';
+
+interface SummaryPeriod {
+  from: string;
+  to: string;
+}
+
+// Lifetime statistics and computed impact for one user, as shown on the dashboard.
+// Donation totals are converted into `currency` at the rate on each donation's date.
+// With a period, only records dated within it count and impact is measured at its end.
+async function getUserSummary(userId: number, currency = BASE_CURRENCY, period?: SummaryPeriod) {
+  const within = (column: string) => (period ? ` AND ${column} BETWEEN ? AND ?` : '');
+  const params = period ? [userId, period.from, period.to] : [userId];
+
+  const totalDonationsResult = await dbGet(
+    `SELECT COALESCE(SUM(${convertedAmountSql(currency)}), 0) as total FROM donations WHERE user_id = ?${within('date')}`,
+    params
+  );
+  const conversionCountResult = await dbGet(`SELECT COUNT(*) as count FROM vegan_conversions WHERE user_id = ?${within('conversion_date')}`, params);
+  const mediaCountResult = await dbGet(`SELECT COUNT(*) as count FROM media_shared WHERE user_id = ?${within('date')}`, params);
+  const totalReachResult = await dbGet(`SELECT COALESCE(SUM(reach_estimate), 0) as total FROM media_shared WHERE user_id = ?${within('date')}`, params);
+  const campaignCountResult = await dbGet(`SELECT COUNT(*) as count FROM campaigns WHERE user_id = ?${within('date')}`, params);
+
+  const totalDonations = totalDonationsResult?.total || 0;
+  const conversionCount = conversionCountResult?.count || 0;
+  const mediaCount = mediaCountResult?.count || 0;
+  const totalReach = totalReachResult?.total || 0;
+  const campaignCount = campaignCountResult?.count || 0;
+
+  // Calculate animal impact with the active impact model (its coefficients are per USD)
+  const conversionDates = await dbAll(`SELECT conversion_date FROM vegan_conversions WHERE user_id = ?${within('conversion_date')}`, params);
+  const donationsByOrganization = await dbAll(
+    `SELECT SUM(${convertedAmountSql(BASE_CURRENCY, 'd')}) as amount, o.animals_per_dollar as "animalsPerDollar"
+     FROM donations d LEFT JOIN organizations o ON o.id = d.organization_id
+     WHERE d.user_id = ?${within('d.date')} GROUP BY d.organization_id, o.animals_per_dollar`,
+    params
+  );
+  const periodEnd = period ? new Date(`${period.to}T23:59:59Z`) : null;
+  const impact = computeImpact(
+    {
+      conversions: conversionDates,
+      donations: donationsByOrganization,
+      totalReach,
+      campaignCount
+    },
+    activeImpactModel,
+    periodEnd && periodEnd < new Date() ? periodEnd : new Date()
+  );
+
+  return {
+    stats: {
+      totalDonations,
+      currency,
+      conversionCount,
+      mediaCount,
+      totalReach,
+      campaignCount,
+      animalsImpact: impact.total
+    },
+    impact
+  };
+}
+
+type UserSummary = Awaited<ReturnType<typeof getUserSummary>>;
+
+// Add several users' summaries together (e.g. a team's members). Every stat and impact
+// figure is a sum, so the result matches computing over the pooled records.
+function combineSummaries(summaries: UserSummary[], currency = BASE_CURRENCY): UserSummary {
+  const stats = {
+    totalDonations: 0,
+    currency,
+    conversionCount: 0,
+    mediaCount: 0,
+    totalReach: 0,
+    campaignCount: 0,
+    animalsImpact: 0
+  };
+  const breakdown = { conversions: 0, donations: 0, media: 0, campaigns: 0 };
+
+  for (const summary of summaries) {
+    stats.totalDonations += summary.stats.totalDonations;
+    stats.conversionCount += summary.stats.conversionCount;
+    stats.mediaCount += summary.stats.mediaCount;
+    stats.totalReach += summary.stats.totalReach;
+    stats.campaignCount += summary.stats.campaignCount;
+    stats.animalsImpact += summary.stats.animalsImpact;
+    breakdown.conversions += summary.impact.breakdown.conversions;
+    breakdown.donations += summary.impact.breakdown.donations;
+    breakdown.media += summary.impact.breakdown.media;
+    breakdown.campaigns += summary.impact.breakdown.campaigns;
+  }
+
+  return {
+    stats,
+    impact: {
+      modelVersion: activeImpactModel.version,
+      total: stats.animalsImpact,
+      breakdown
+    }
+  };
+}
+
+export { getUserSummary, combineSummaries };
+export type { UserSummary, SummaryPeriod };
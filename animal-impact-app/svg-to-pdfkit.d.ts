@@ -0,0 +1,17 @@
+// svg-to-pdfkit ships without type declarations
+declare module 'svg-to-pdfkit' {
+  function SVGtoPDF(
+    doc: PDFKit.PDFDocument,
+    svg: string,
+    x?: number,
+    y?: number,
+    options?: {
+      width?: number;
+      height?: number;
+      assumePt?: boolean;
+      fontCallback?: (family: string, bold: boolean, italic: boolean) => string;
+      warningCallback?: (message: string) => void;
+    }
+  ): void;
+  export default SVGtoPDF;
+}
@@ -0,0 +1,381 @@
+import express from 'express';
+import crypto from 'crypto';
+import { dbRun, dbGet, dbAll, withTransaction } from './database.js';
+import { getUserSummary, combineSummaries } from './summary.js';
+import type { UserSummary } from './summary.js';
+import { BASE_CURRENCY } from './exchange-rates.js';
+import { TEAM_ROLES, teamSchema, joinTeamSchema, teamMembershipSchema, teamMemberRoleSchema } from './schemas.js';
+import { validateBody } from './validation.js';
+import {
+  responds,
+  model,
+  object,
+  arrayOf,
+  string,
+  integer,
+  boolean,
+  nullable,
+  enumOf,
+  message,
+  created,
+  userStats,
+  impact
+} from './responses.js';
+
+// Teams: groups of users whose impact is added up on a shared dashboard
+// Roles that can rename the team, rotate its invite code and remove members
+const MANAGER_ROLES = ['owner', 'admin'];
+
+type TeamRole = (typeof TEAM_ROLES)[number];
+
+const teamRole = enumOf(TEAM_ROLES);
+
+const teamMemberModel = model('TeamMember', object({
+  user_id: integer,
+  name: string,
+  role: teamRole,
+  share_stats: boolean,
+  joined_at: string
+}));
+
+// getTeam()
+const teamDetailsModel = model('TeamDetails', object({
+  id: integer,
+  name: string,
+  description: nullable(string),
+  // Only sent to owners and admins
+  invite_code: string,
+  created_by: nullable(integer),
+  created_at: string,
+  membership: teamMemberModel,
+  members: arrayOf(teamMemberModel)
+}, ['invite_code']));
+
+const teamDashboardModel = model('TeamDashboard', object({
+  team: object({ id: integer, name: string, description: nullable(string), created_at: string }),
+  stats: userStats,
+  impact,
+  memberCount: integer,
+  hiddenMembers: integer,
+  members: arrayOf(object({ userId: integer, name: string, role: teamRole, stats: userStats, impact }))
+}));
+
+const generateInviteCode = () => crypto.randomBytes(5).toString('hex').toUpperCase();
+
+const findMembership = (teamId: any, userId: number): Promise<{ role: TeamRole; share_stats: number } | undefined> =>
+  dbGet('SELECT role, share_stats FROM team_memberships WHERE team_id = ? AND user_id = ?', [teamId, userId]);
+
+// Team details as seen by one member; only managers see the invite code
+async function getTeam(teamId: number, viewerId: number) {
+  const team = await dbGet('SELECT * FROM teams WHERE id = ?', [teamId]);
+  const members = (await dbAll(
+    `SELECT u.id as user_id, u.name, m.role, m.share_stats, m.joined_at
+     FROM team_memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.team_id = ? ORDER BY m.joined_at`,
+    [teamId]
+  )).map(member => ({ ...member, share_stats: Boolean(member.share_stats) }));
+  const membership = members.find(member => member.user_id === viewerId);
+
+  return {
+    ...team,
+    invite_code: MANAGER_ROLES.includes(membership?.role) ? team.invite_code : undefined,
+    membership,
+    members
+  };
+}
+
+// Mount behind authenticateToken. Team routes are only visible to the team's members.
+function createTeamsRouter() {
+  const router = express.Router();
+
+  // Teams the current user belongs to
+  router.get('/', responds(object({
+    data: arrayOf(object({ id: integer, name: string, description: nullable(string), role: teamRole, member_count: integer }))
+  })), async (req: any, res: any) => {
+    try {
+      const teams = await dbAll(
+        `SELECT t.id, t.name, t.description, m.role,
+           (SELECT COUNT(*) FROM team_memberships WHERE team_id = t.id) as member_count
+         FROM teams t JOIN team_memberships m ON m.team_id = t.id
+         WHERE m.user_id = ? ORDER BY t.name`,
+        [req.user.userId]
+      );
+
+      res.json({ data: teams });
+    } catch (error) {
+      console.error('List teams error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/', validateBody(teamSchema), responds(created), async (req: any, res: any) => {
+    try {
+      const { name, description } = req.body;
+      const teamId = await withTransaction(async () => {
+        const result = await dbRun(
+          'INSERT INTO teams (name, description, invite_code, created_by) VALUES (?, ?, ?, ?)',
+          [name, description, generateInviteCode(), req.user.userId]
+        );
+        await dbRun(
+          "INSERT INTO team_memberships (team_id, user_id, role) VALUES (?, ?, 'owner')",
+          [result.lastID, req.user.userId]
+        );
+        return result.lastID;
+      });
+
+      res.status(201).json({
+        message: 'Team created successfully',
+        id: teamId
+      });
+    } catch (error) {
+      console.error('Create team error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/join', validateBody(joinTeamSchema), responds(created), async (req: any, res: any) => {
+    try {
+      const inviteCode = req.body.invite_code.toUpperCase();
+
+      const team = await dbGet('SELECT id FROM teams WHERE invite_code = ?', [inviteCode]);
+      if (!team) {
+        return res.status(404).json({ error: 'Invite code not recognised' });
+      }
+      if (await findMembership(team.id, req.user.userId)) {
+        return res.status(400).json({ error: 'You are already a member of this team' });
+      }
+
+      await dbRun("INSERT INTO team_memberships (team_id, user_id, role) VALUES (?, ?, 'member')", [team.id, req.user.userId]);
+
+      res.status(201).json({
+        message: 'Joined team successfully',
+        id: team.id
+      });
+    } catch (error) {
+      console.error('Join team error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/:id', responds(object({ data: teamDetailsModel })), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      res.json({ data: await getTeam(Number(req.params.id), req.user.userId) });
+    } catch (error) {
+      console.error('Get team error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Combined stats and a per-member breakdown, both over the members who share their figures.
+  // Members who opt out are left out of the totals too, since subtracting the listed members
+  // from the totals would otherwise give their figures away.
+  router.get('/:id/dashboard', responds(teamDashboardModel), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const team = await dbGet('SELECT id, name, description, created_at FROM teams WHERE id = ?', [req.params.id]);
+      const viewer = await dbGet('SELECT display_currency FROM users WHERE id = ?', [req.user.userId]);
+      const currency = viewer?.display_currency || BASE_CURRENCY;
+
+      const members = await dbAll(
+        `SELECT u.id as user_id, u.name, m.role, m.share_stats
+         FROM team_memberships m JOIN users u ON u.id = m.user_id
+         WHERE m.team_id = ? ORDER BY m.joined_at`,
+        [team.id]
+      );
+      const sharing = members.filter(member => member.share_stats);
+      const summaries: UserSummary[] = [];
+      for (const member of sharing) {
+        summaries.push(await getUserSummary(member.user_id, currency));
+      }
+      const { stats, impact } = combineSummaries(summaries, currency);
+
+      res.json({
+        team,
+        stats,
+        impact,
+        memberCount: members.length,
+        hiddenMembers: members.length - sharing.length,
+        members: sharing.map((member, index) => ({
+          userId: member.user_id,
+          name: member.name,
+          role: member.role,
+          stats: summaries[index]!.stats,
+          impact: summaries[index]!.impact
+        }))
+      });
+    } catch (error) {
+      console.error('Team dashboard error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.patch('/:id', validateBody(teamSchema, { partial: true }), responds(object({ message: string, data: teamDetailsModel })), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+      if (!MANAGER_ROLES.includes(membership.role)) {
+        return res.status(403).json({ error: 'Only team owners and admins can edit the team' });
+      }
+
+      const { name, description } = req.body;
+      const existing = await dbGet('SELECT * FROM teams WHERE id = ?', [req.params.id]);
+      await dbRun(
+        'UPDATE teams SET name = ?, description = ? WHERE id = ?',
+        [name ?? existing.name, description ?? existing.description, existing.id]
+      );
+
+      res.json({
+        message: 'Team updated successfully',
+        data: await getTeam(existing.id, req.user.userId)
+      });
+    } catch (error) {
+      console.error('Update team error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', responds(message), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+      if (membership.role !== 'owner') {
+        return res.status(403).json({ error: 'Only the team owner can delete the team' });
+      }
+
+      await withTransaction(async () => {
+        await dbRun('DELETE FROM team_memberships WHERE team_id = ?', [req.params.id]);
+        await dbRun('DELETE FROM teams WHERE id = ?', [req.params.id]);
+      });
+
+      res.json({ message: 'Team deleted successfully' });
+    } catch (error) {
+      console.error('Delete team error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Issue a new invite code; the old one stops working
+  router.post('/:id/invite-code', responds(object({ message: string, invite_code: string })), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+      if (!MANAGER_ROLES.includes(membership.role)) {
+        return res.status(403).json({ error: 'Only team owners and admins can change the invite code' });
+      }
+
+      const inviteCode = generateInviteCode();
+      await dbRun('UPDATE teams SET invite_code = ? WHERE id = ?', [inviteCode, req.params.id]);
+
+      res.json({ message: 'Invite code changed successfully', invite_code: inviteCode });
+    } catch (error) {
+      console.error('Rotate invite code error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The current user's own membership settings (privacy opt-out)
+  router.patch('/:id/membership', validateBody(teamMembershipSchema), responds(object({ message: string, share_stats: boolean })), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      await dbRun(
+        'UPDATE team_memberships SET share_stats = ? WHERE team_id = ? AND user_id = ?',
+        [req.body.share_stats ? 1 : 0, req.params.id, req.user.userId]
+      );
+
+      res.json({ message: 'Membership updated successfully', share_stats: req.body.share_stats });
+    } catch (error) {
+      console.error('Update membership error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Change a member's role. Only the owner can, and ownership itself can't be moved this way.
+  router.patch('/:id/members/:userId', validateBody(teamMemberRoleSchema), responds(message), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+      if (membership.role !== 'owner') {
+        return res.status(403).json({ error: 'Only the team owner can change roles' });
+      }
+
+      const { role } = req.body;
+
+      const target = await findMembership(req.params.id, Number(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+      if (target.role === 'owner') {
+        return res.status(400).json({ error: "The owner's role can't be changed" });
+      }
+
+      await dbRun(
+        'UPDATE team_memberships SET role = ? WHERE team_id = ? AND user_id = ?',
+        [role, req.params.id, req.params.userId]
+      );
+
+      res.json({ message: 'Member role updated successfully' });
+    } catch (error) {
+      console.error('Update member role error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Remove a member, or leave the team when removing yourself
+  router.delete('/:id/members/:userId', responds(message), async (req: any, res: any) => {
+    try {
+      const membership = await findMembership(req.params.id, req.user.userId);
+      if (!membership) {
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const leaving = Number(req.params.userId) === req.user.userId;
+      if (!leaving && !MANAGER_ROLES.includes(membership.role)) {
+        return res.status(403).json({ error: 'Only team owners and admins can remove members' });
+      }
+
+      const target = await findMembership(req.params.id, Number(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+      if (target.role === 'owner') {
+        return res.status(400).json({ error: "The owner can't leave the team; delete it instead" });
+      }
+      if (!leaving && target.role === 'admin' && membership.role !== 'owner') {
+        return res.status(403).json({ error: 'Only the team owner can remove admins' });
+      }
+
+      await dbRun('DELETE FROM team_memberships WHERE team_id = ? AND user_id = ?', [req.params.id, req.params.userId]);
+
+      res.json({ message: leaving ? 'Left team successfully' : 'Member removed successfully' });
+    } catch (error) {
+      console.error('Remove member error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+export { createTeamsRouter };
+export type { TeamRole };
@@ -0,0 +1,51 @@
+import { validate } from './schemas.js';
+import type { Schema, FieldErrors } from './schemas.js';
+
+// Express middleware running the shared schemas (schemas.ts) over request input.
+// Invalid input gets a 422 listing a message per field:
+//   { "error": "Validation failed", "fields": { "amount": "Amount must be a number" } }
+// Each middleware carries the schema it checks as `validates`, which openapi.ts reads to
+// describe request bodies and query parameters.
+
+interface ValidationTarget {
+  in: 'body' | 'query';
+  schema: Schema;
+  partial: boolean;
+}
+
+function sendValidationError(res: any, fields: FieldErrors) {
+  return res.status(422).json({ error: 'Validation failed', fields });
+}
+
+// Replace req.body with the coerced values. With `partial`, only the fields sent are
+// checked and kept (for PATCH routes).
+function validateBody(schema: Schema, { partial = false } = {}) {
+  const middleware = (req: any, res: any, next: any) => {
+    const { value, errors } = validate(schema, req.body, { partial });
+    if (errors) {
+      return sendValidationError(res, errors);
+    }
+    req.body = value;
+    next();
+  };
+  const validates: ValidationTarget = { in: 'body', schema, partial };
+  return Object.assign(middleware, { validates });
+}
+
+// Replace req.query with the coerced values. Express 5 defines req.query as a getter,
+// so the parsed object is set as an own property on the request instead.
+function validateQuery(schema: Schema) {
+  const middleware = (req: any, res: any, next: any) => {
+    const { value, errors } = validate(schema, req.query);
+    if (errors) {
+      return sendValidationError(res, errors);
+    }
+    Object.defineProperty(req, 'query', { value, writable: true, enumerable: true, configurable: true });
+    next();
+  };
+  const validates: ValidationTarget = { in: 'query', schema, partial: false };
+  return Object.assign(middleware, { validates });
+}
+
+export { sendValidationError, validateBody, validateQuery };
+export type { ValidationTarget };